@@ -0,0 +1,296 @@
+import { once } from "events";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { finished } from "stream/promises";
+import { opensearchClient } from "../config/opensearch.config";
+import { resolveLogIndices } from "../opensearch/index-resolver";
+import { MAX_PAGE_SIZE, PIT_KEEP_ALIVE } from "./pagination";
+import { buildQuery, LogFilters } from "./query-builder";
+
+export type ExportFormat = "ndjson" | "csv";
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  "id",
+  "timestamp",
+  "level",
+  "category",
+  "service.name",
+  "service.environment",
+  "message",
+  "request.method",
+  "request.path",
+  "metrics.response_time_ms",
+  "error.type",
+  "error.message",
+];
+
+const DEFAULT_EXPORT_DIR = "./logs/exports";
+
+export interface ExportLogsOptions {
+  filters?: LogFilters;
+  format?: ExportFormat;
+  // Dotted field paths; CSV defaults to DEFAULT_EXPORT_COLUMNS, NDJSON to
+  // the whole document
+  columns?: string[];
+  outputPath?: string;
+  batchSize?: number;
+  onProgress?: (exported: number, total: number) => void;
+}
+
+export interface ExportResult {
+  filePath: string;
+  format: ExportFormat;
+  columns: string[] | null;
+  exported: number;
+  total: number;
+}
+
+export type ExportJobStatus = "running" | "completed" | "failed";
+
+export interface ExportJob {
+  id: string;
+  status: ExportJobStatus;
+  format: ExportFormat;
+  filePath: string;
+  exported: number;
+  total: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+type FlatValue = string | number | boolean | null;
+
+/**
+ * Flattens a log into dotted keys (`service.name`, `geo.location.lat`).
+ * Arrays of primitives are joined with `;`; any other array is kept as JSON.
+ */
+export function flattenLogEntry(
+  value: Record<string, unknown>,
+  prefix = "",
+  target: Record<string, FlatValue> = {}
+): Record<string, FlatValue> {
+  for (const [key, field] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+
+    if (Array.isArray(field)) {
+      target[name] = field.every(
+        (item) => item === null || typeof item !== "object"
+      )
+        ? field.join(";")
+        : JSON.stringify(field);
+    } else if (field !== null && typeof field === "object") {
+      flattenLogEntry(field as Record<string, unknown>, name, target);
+    } else {
+      target[name] = (field ?? null) as FlatValue;
+    }
+  }
+  return target;
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+export function toCsvValue(value: FlatValue | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: Array<FlatValue | undefined>): string {
+  return values.map(toCsvValue).join(",");
+}
+
+function defaultOutputPath(format: ExportFormat): string {
+  return path.join(
+    DEFAULT_EXPORT_DIR,
+    `logs-export-${Date.now()}.${format === "csv" ? "csv" : "ndjson"}`
+  );
+}
+
+async function closePit(pitId: string): Promise<void> {
+  try {
+    await opensearchClient.deletePit({ body: { pit_id: [pitId] } });
+  } catch (error) {
+    console.warn("Failed to delete point-in-time:", error);
+  }
+}
+
+/**
+ * Reads every log matching the filters, oldest first, with `search_after`
+ * over a point-in-time so the export is a consistent snapshot regardless of
+ * ingestion running alongside it. Only the requested columns are fetched.
+ */
+async function* scanLogs(
+  filters: LogFilters | undefined,
+  columns: string[] | null,
+  batchSize: number,
+  onTotal: (total: number) => void
+): AsyncGenerator<Record<string, unknown>> {
+  const pit = await opensearchClient.createPit({
+    index: resolveLogIndices(filters),
+    keep_alive: PIT_KEEP_ALIVE,
+  });
+  if (!pit.body.pit_id) {
+    throw new Error("OpenSearch did not return a point-in-time id");
+  }
+  let pitId: string = pit.body.pit_id;
+
+  let searchAfter: Array<string | number> | undefined;
+  try {
+    while (true) {
+      const response = await opensearchClient.search({
+        body: {
+          pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE },
+          query: buildQuery(filters),
+          size: batchSize,
+          sort: [{ timestamp: { order: "asc" } }, { id: { order: "asc" } }],
+          track_total_hits: searchAfter === undefined,
+          ...(columns ? { _source: columns } : {}),
+          ...(searchAfter ? { search_after: searchAfter } : {}),
+        },
+      });
+
+      pitId = response.body.pit_id ?? pitId;
+      const hits = response.body.hits.hits;
+      if (searchAfter === undefined) {
+        const total = response.body.hits.total;
+        onTotal(typeof total === "number" ? total : total?.value ?? 0);
+      }
+
+      for (const hit of hits) {
+        yield (hit._source ?? {}) as Record<string, unknown>;
+      }
+
+      if (hits.length < batchSize) {
+        return;
+      }
+      searchAfter = hits[hits.length - 1].sort as Array<string | number>;
+    }
+  } finally {
+    await closePit(pitId);
+  }
+}
+
+/**
+ * Writes all logs matching `filters` to a local NDJSON or CSV file.
+ */
+export async function exportLogs(
+  options: ExportLogsOptions = {}
+): Promise<ExportResult> {
+  const format = options.format ?? "ndjson";
+  const columns =
+    options.columns && options.columns.length > 0
+      ? options.columns
+      : format === "csv"
+      ? DEFAULT_EXPORT_COLUMNS
+      : null;
+  const filePath = options.outputPath ?? defaultOutputPath(format);
+  const batchSize = Math.min(
+    Math.max(options.batchSize ?? MAX_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const output = fs.createWriteStream(filePath, { encoding: "utf-8" });
+  // Open and write failures (permissions, disk full) are emitted
+  // asynchronously; without a listener they would crash the process. The
+  // next write or the final flush rethrows them, which stops the scan and
+  // closes the point-in-time.
+  let writeError: Error | null = null;
+  output.on("error", (error) => (writeError = error));
+  const write = async (line: string) => {
+    if (writeError) throw writeError;
+    if (!output.write(line + "\n")) {
+      await once(output, "drain");
+    }
+  };
+
+  let exported = 0;
+  let total = 0;
+
+  try {
+    if (format === "csv") {
+      await write(toCsvRow(columns!));
+    }
+
+    for await (const log of scanLogs(
+      options.filters,
+      columns,
+      batchSize,
+      (value) => (total = value)
+    )) {
+      if (format === "csv") {
+        const flat = flattenLogEntry(log);
+        await write(toCsvRow(columns!.map((column) => flat[column])));
+      } else {
+        await write(JSON.stringify(log));
+      }
+
+      exported++;
+      if (exported % batchSize === 0) {
+        options.onProgress?.(exported, total);
+      }
+    }
+  } catch (error) {
+    output.destroy();
+    throw error;
+  }
+
+  output.end();
+  await finished(output);
+  options.onProgress?.(exported, total);
+
+  return { filePath, format, columns, exported, total };
+}
+
+// Jobs live in memory only: they are lost on restart, while the files stay
+const exportJobs = new Map<string, ExportJob>();
+
+/**
+ * Starts an export in the background and returns its job right away; the
+ * job is updated in place as the export progresses.
+ */
+export function startExportJob(options: ExportLogsOptions = {}): ExportJob {
+  const format = options.format ?? "ndjson";
+  const job: ExportJob = {
+    id: randomUUID(),
+    status: "running",
+    format,
+    filePath: options.outputPath ?? defaultOutputPath(format),
+    exported: 0,
+    total: 0,
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+  exportJobs.set(job.id, job);
+
+  exportLogs({
+    ...options,
+    format,
+    outputPath: job.filePath,
+    onProgress: (exported, total) => {
+      job.exported = exported;
+      job.total = total;
+    },
+  })
+    .then((result) => {
+      job.exported = result.exported;
+      job.total = result.total;
+      job.status = "completed";
+    })
+    .catch((error) => {
+      console.error(`Export job ${job.id} failed:`, error);
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date().toISOString();
+    });
+
+  return job;
+}
+
+export function getExportJob(id: string): ExportJob | null {
+  return exportJobs.get(id) ?? null;
+}
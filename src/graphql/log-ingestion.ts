@@ -0,0 +1,109 @@
+import { randomUUID } from "crypto";
+import { opensearchClient } from "../config/opensearch.config";
+import { resolveWriteIndex } from "../opensearch/index-resolver";
+import { serializeNdjsonBatch } from "../scripts/bulk-insert";
+import {
+  formatValidationIssues,
+  validateLogEntry,
+} from "../scripts/utils/log-validator";
+import { parseUserAgent } from "../scripts/utils/user-agent";
+import { LogEntry } from "../types/log.types";
+
+export const MAX_INGEST_BATCH = 5000;
+
+export interface IngestResult {
+  id: string;
+  index: string | null;
+  status: number;
+  result: string | null;
+  success: boolean;
+  error: { type: string; reason: string } | null;
+}
+
+export interface IngestLogsResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: IngestResult[];
+}
+
+/**
+ * Validates, parses `request.user_agent`, routes to the daily index of each
+ * `timestamp` and bulk-indexes the given logs. Results keep the input
+ * order; invalid documents are reported with status 400 and never reach
+ * OpenSearch.
+ */
+export async function ingestLogEntries(
+  inputs: Array<Partial<LogEntry>>
+): Promise<IngestLogsResult> {
+  if (inputs.length > MAX_INGEST_BATCH) {
+    throw new Error(
+      `Cannot ingest more than ${MAX_INGEST_BATCH} logs in a single request`
+    );
+  }
+
+  const items: IngestResult[] = new Array(inputs.length);
+  const accepted: Array<{ position: number; log: LogEntry }> = [];
+
+  inputs.forEach((input, position) => {
+    const log = { ...input, id: input.id || randomUUID() } as LogEntry;
+    const issues = validateLogEntry(log);
+
+    if (issues.length > 0) {
+      items[position] = {
+        id: log.id,
+        index: null,
+        status: 400,
+        result: null,
+        success: false,
+        error: {
+          type: "validation_exception",
+          reason: formatValidationIssues(issues),
+        },
+      };
+      return;
+    }
+
+    if (log.request) {
+      log.request = {
+        ...log.request,
+        ua: parseUserAgent(log.request.user_agent),
+      };
+    }
+    accepted.push({ position, log });
+  });
+
+  if (accepted.length > 0) {
+    const batch = accepted.map(({ log }) => log);
+    const response = await opensearchClient.bulk({
+      body: serializeNdjsonBatch(batch, (doc) =>
+        resolveWriteIndex(doc.timestamp)
+      ) as any,
+      refresh: false,
+    });
+
+    response.body.items.forEach((item: any, itemIndex: number) => {
+      const { position, log } = accepted[itemIndex];
+      const outcome = item.index ?? {};
+      items[position] = {
+        id: log.id,
+        index: outcome._index ?? null,
+        status: outcome.status ?? 500,
+        result: outcome.result ?? null,
+        success: !outcome.error,
+        error: outcome.error
+          ? { type: outcome.error.type, reason: outcome.error.reason }
+          : null,
+      };
+    });
+  }
+
+  const succeeded = items.filter((item) => item.success).length;
+
+  return {
+    total: inputs.length,
+    succeeded,
+    failed: inputs.length - succeeded,
+    items,
+  };
+}
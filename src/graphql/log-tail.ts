@@ -0,0 +1,170 @@
+import { opensearchClient } from "../config/opensearch.config";
+import { resolveLogIndices } from "../opensearch/index-resolver";
+import { buildQuery, LogFilters } from "./query-builder";
+
+export interface LogTailOptions {
+  filters?: LogFilters;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  startFrom?: Date;
+  lookbackMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_BATCH_SIZE = 100;
+// Covers the refresh interval plus typical bulk latency
+const DEFAULT_LOOKBACK_MS = 5000;
+
+/**
+ * Pull-based tail over the log indices for a single subscriber.
+ * OpenSearch is only polled when the consumer asks for the next log and the
+ * local buffer is empty, so a slow subscriber never accumulates more than one
+ * batch in memory.
+ *
+ * Documents become searchable after a refresh and may carry a timestamp
+ * older than logs already delivered, so each poll pages with `search_after`
+ * on `timestamp` + `id` from `lookbackMs` before the newest delivered log
+ * and skips the ids it has already yielded. Late documents therefore arrive
+ * out of timestamp order; anything older than the lookback window when it
+ * becomes searchable is missed, so the tail stays best-effort.
+ */
+export class LogTailPoller implements AsyncIterableIterator<any> {
+  private readonly filters?: LogFilters;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly lookbackMs: number;
+  private readonly startTime: number;
+  // Newest timestamp delivered so far
+  private watermark: number;
+  // Ids delivered inside the lookback window, with their timestamps
+  private readonly delivered = new Map<string, number>();
+  private buffer: any[] = [];
+  private closed = false;
+  private wakeUp: (() => void) | null = null;
+  private sleepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: LogTailOptions = {}) {
+    this.filters = options.filters;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.lookbackMs = Math.max(options.lookbackMs ?? DEFAULT_LOOKBACK_MS, 0);
+    this.startTime = (options.startFrom ?? new Date()).getTime();
+    this.watermark = this.startTime;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<any> {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<any>> {
+    while (!this.closed) {
+      if (this.buffer.length > 0) {
+        return { value: this.buffer.shift(), done: false };
+      }
+
+      await this.poll();
+
+      if (this.buffer.length === 0) {
+        await this.sleep();
+      }
+    }
+
+    return { value: undefined, done: true };
+  }
+
+  async return(): Promise<IteratorResult<any>> {
+    this.closed = true;
+    this.buffer = [];
+    this.delivered.clear();
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = null;
+    }
+    this.wakeUp?.();
+    return { value: undefined, done: true };
+  }
+
+  private async poll(): Promise<void> {
+    const lowerBound = this.resolveLowerBound();
+    const since = new Date(lowerBound).toISOString();
+    let searchAfter: Array<string | number> = [lowerBound, ""];
+
+    try {
+      // Pages past logs already delivered until new ones show up or the
+      // window is exhausted
+      while (!this.closed) {
+        const response = await opensearchClient.search({
+          index: resolveLogIndices({ startDate: since }),
+          ignore_unavailable: true,
+          allow_no_indices: true,
+          body: {
+            query: buildQuery({ ...this.filters, startDate: since }),
+            size: this.batchSize,
+            sort: [{ timestamp: { order: "asc" } }, { id: { order: "asc" } }],
+            search_after: searchAfter,
+          },
+        });
+
+        const hits = response.body.hits.hits;
+        if (this.closed) {
+          return;
+        }
+
+        const fresh = hits.filter((hit: any) => !this.delivered.has(hit._id));
+        for (const hit of fresh) {
+          const timestamp = Number(hit.sort?.[0]);
+          this.delivered.set(hit._id, timestamp);
+          this.watermark = Math.max(this.watermark, timestamp);
+        }
+        this.buffer.push(
+          ...fresh.map((hit: any) => ({ id: hit._id, ...hit._source }))
+        );
+
+        if (fresh.length > 0 || hits.length < this.batchSize) {
+          break;
+        }
+        searchAfter = hits[hits.length - 1].sort as Array<string | number>;
+      }
+
+      this.forgetExpired();
+    } catch (error) {
+      // Transient failures keep the subscription alive; retry on the next cycle
+      console.error("Error polling log tail:", error);
+    }
+  }
+
+  // Logs that fell out of the window can no longer be returned by a poll
+  private forgetExpired(): void {
+    const lowerBound = this.resolveLowerBound();
+    for (const [id, timestamp] of this.delivered) {
+      if (timestamp < lowerBound) {
+        this.delivered.delete(id);
+      }
+    }
+  }
+
+  private resolveLowerBound(): number {
+    const filterTime = this.filters?.startDate
+      ? new Date(this.filters.startDate).getTime()
+      : NaN;
+
+    return Math.max(
+      this.watermark - this.lookbackMs,
+      this.startTime,
+      Number.isNaN(filterTime) ? this.startTime : filterTime
+    );
+  }
+
+  private sleep(): Promise<void> {
+    if (this.closed) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      this.wakeUp = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = null;
+        this.wakeUp = null;
+        resolve();
+      }, this.pollIntervalMs);
+    });
+  }
+}
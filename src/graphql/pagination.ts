@@ -0,0 +1,36 @@
+export const PIT_KEEP_ALIVE = "5m";
+export const MAX_PAGE_SIZE = 1000;
+// Mirrors index.max_result_window in LOG_INDEX_TEMPLATE
+export const MAX_RESULT_WINDOW = 10000;
+
+/**
+ * Opaque position in a point-in-time result set: the PIT the page was read
+ * from plus the sort values of the hit, fed back as `search_after`.
+ */
+export interface LogCursor {
+  pitId: string;
+  sort: Array<string | number>;
+}
+
+export function encodeCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+export function decodeCursor(value: string): LogCursor {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (
+    typeof decoded?.pitId !== "string" ||
+    !Array.isArray(decoded.sort) ||
+    decoded.sort.length === 0
+  ) {
+    throw new Error("Invalid cursor");
+  }
+
+  return { pitId: decoded.pitId, sort: decoded.sort };
+}
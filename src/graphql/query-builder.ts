@@ -0,0 +1,105 @@
+export interface LogFilters {
+  levels?: string[];
+  services?: string[];
+  environments?: string[];
+  categories?: string[];
+  startDate?: string;
+  endDate?: string;
+  searchText?: string;
+  minResponseTime?: number;
+  maxResponseTime?: number;
+  hasError?: boolean;
+  browsers?: string[];
+  operatingSystems?: string[];
+  deviceTypes?: string[];
+  isBot?: boolean;
+}
+
+// Helper para construir query do OpenSearch
+export function buildQuery(filters?: LogFilters): any {
+  const must: any[] = [];
+  const filter: any[] = [];
+  const mustNot: any[] = [];
+
+  // Filtro de data
+  if (filters?.startDate || filters?.endDate) {
+    const range: Record<string, string | number> = {};
+    if (filters.startDate) range.gte = filters.startDate;
+    if (filters.endDate) range.lte = filters.endDate;
+    filter.push({ range: { timestamp: range } });
+  }
+
+  // Filtros de termos exatos
+  if (filters?.levels?.length) {
+    filter.push({ terms: { level: filters.levels } });
+  }
+
+  if (filters?.services?.length) {
+    filter.push({ terms: { "service.name": filters.services } });
+  }
+
+  if (filters?.environments?.length) {
+    filter.push({ terms: { "service.environment": filters.environments } });
+  }
+
+  if (filters?.categories?.length) {
+    filter.push({ terms: { category: filters.categories } });
+  }
+
+  // Filtros de user agent (request.ua)
+  if (filters?.browsers?.length) {
+    filter.push({ terms: { "request.ua.browser": filters.browsers } });
+  }
+
+  if (filters?.operatingSystems?.length) {
+    filter.push({ terms: { "request.ua.os": filters.operatingSystems } });
+  }
+
+  if (filters?.deviceTypes?.length) {
+    filter.push({ terms: { "request.ua.device_type": filters.deviceTypes } });
+  }
+
+  if (filters?.isBot !== undefined) {
+    filter.push({ term: { "request.ua.is_bot": filters.isBot } });
+  }
+
+  // Filtro de response time
+  if (filters?.minResponseTime || filters?.maxResponseTime) {
+    const range: Record<string, number> = {};
+    if (filters.minResponseTime) range.gte = filters.minResponseTime;
+    if (filters.maxResponseTime) range.lte = filters.maxResponseTime;
+    filter.push({ range: { "metrics.response_time_ms": range } });
+  }
+
+  // Filtro de erro
+  if (filters?.hasError !== undefined) {
+    if (filters.hasError) {
+      filter.push({ exists: { field: "error" } });
+    } else {
+      mustNot.push({ exists: { field: "error" } });
+    }
+  }
+
+  // Busca textual
+  if (filters?.searchText) {
+    must.push({
+      multi_match: {
+        query: filters.searchText,
+        fields: ["message", "error.message", "request.path"],
+        type: "best_fields",
+        fuzziness: "AUTO",
+      },
+    });
+  }
+
+  const boolQuery: Record<string, unknown> = {};
+  if (must.length > 0) boolQuery.must = must;
+  if (filter.length > 0) boolQuery.filter = filter;
+  if (mustNot.length > 0) boolQuery.must_not = mustNot;
+
+  if (Object.keys(boolQuery).length === 0) {
+    return { match_all: {} };
+  }
+
+  return { bool: boolQuery };
+}
@@ -1,4 +1,21 @@
 import { opensearchClient } from "../../config/opensearch.config";
+import {
+  logSearchTarget,
+  resolveLogIndices,
+} from "../../opensearch/index-resolver";
+import {
+  decodeCursor,
+  encodeCursor,
+  LogCursor,
+  MAX_PAGE_SIZE,
+  MAX_RESULT_WINDOW,
+  PIT_KEEP_ALIVE,
+} from "../pagination";
+import { buildQuery, LogFilters } from "../query-builder";
+import { LogTailPoller } from "../log-tail";
+import { ingestLogEntries } from "../log-ingestion";
+import { getExportJob, startExportJob } from "../log-export";
+import { LogEntry } from "../../types/log.types";
 
 function getTotalHits(
   total: number | { value: number; relation: string } | undefined
@@ -7,52 +24,49 @@ function getTotalHits(
   return typeof total === "number" ? total : total.value;
 }
 
-async function ensureIndexExists(indexName: string): Promise<void> {
-  try {
-    const exists = await opensearchClient.indices.exists({ index: indexName });
-    if (!exists.body) {
-      await opensearchClient.indices.create({ index: indexName });
-    }
-  } catch (error: any) {
-    if (
-      error.meta?.statusCode === 404 ||
-      error.meta?.body?.error?.type === "index_not_found_exception"
-    ) {
-      try {
-        await opensearchClient.indices.create({ index: indexName });
-      } catch (createError: any) {
-        if (
-          createError.meta?.body?.error?.type !==
-          "resource_already_exists_exception"
-        ) {
-          throw createError;
-        }
-      }
-    }
-  }
-}
+// Opções comuns para buscas que abrangem vários índices (padrões e datas)
+const MULTI_INDEX_OPTIONS = {
+  ignore_unavailable: true,
+  allow_no_indices: true,
+};
 
-interface LogFilters {
-  levels?: string[];
-  services?: string[];
-  environments?: string[];
-  categories?: string[];
-  startDate?: string;
-  endDate?: string;
-  searchText?: string;
-  minResponseTime?: number;
-  maxResponseTime?: number;
-  hasError?: boolean;
+// Localiza um documento pelo ID em qualquer índice de logs
+async function findLogById(id: string): Promise<any | null> {
+  const response = await opensearchClient.search({
+    index: logSearchTarget(),
+    ...MULTI_INDEX_OPTIONS,
+    body: {
+      query: {
+        bool: {
+          should: [{ ids: { values: [id] } }, { term: { id } }],
+          minimum_should_match: 1,
+        },
+      },
+      size: 1,
+    },
+  });
+
+  return response.body.hits.hits[0] ?? null;
 }
 
 interface LogsArgs {
   filters?: LogFilters;
   limit?: number;
   offset?: number;
+  first?: number;
+  after?: string;
+}
+
+interface HighlightOptions {
+  preTags?: string[];
+  postTags?: string[];
+  fragmentSize?: number;
+  numberOfFragments?: number;
 }
 
 interface SearchLogsArgs extends LogsArgs {
   query: string;
+  highlight?: HighlightOptions;
 }
 
 interface LogAggregationsArgs {
@@ -62,81 +76,136 @@ interface LogAggregationsArgs {
   };
 }
 
+interface LogTailArgs {
+  filters?: LogFilters;
+  pollIntervalMs?: number;
+}
+
+interface ExportLogsArgs {
+  filters?: LogFilters;
+  format?: string;
+  columns?: string[];
+}
+
 interface SimilarLogsArgs {
   logId: string;
   limit?: number;
 }
 
-// Helper para construir query do OpenSearch
-function buildQuery(filters?: LogFilters): any {
-  const must: any[] = [];
-  const filter: any[] = [];
-  const mustNot: any[] = [];
-
-  // Filtro de data
-  if (filters?.startDate || filters?.endDate) {
-    const range: Record<string, string | number> = {};
-    if (filters.startDate) range.gte = filters.startDate;
-    if (filters.endDate) range.lte = filters.endDate;
-    filter.push({ range: { timestamp: range } });
-  }
+// Campos destacados na busca textual
+const HIGHLIGHT_FIELDS = ["message", "error.message"];
 
-  // Filtros de termos exatos
-  if (filters?.levels?.length) {
-    filter.push({ terms: { level: filters.levels } });
+function buildHighlight(options?: HighlightOptions): any {
+  const highlight: Record<string, unknown> = {
+    fields: Object.fromEntries(HIGHLIGHT_FIELDS.map((field) => [field, {}])),
+  };
+  if (options?.preTags?.length) highlight.pre_tags = options.preTags;
+  if (options?.postTags?.length) highlight.post_tags = options.postTags;
+  if (options?.fragmentSize !== undefined) {
+    highlight.fragment_size = options.fragmentSize;
   }
-
-  if (filters?.services?.length) {
-    filter.push({ terms: { "service.name": filters.services } });
+  if (options?.numberOfFragments !== undefined) {
+    highlight.number_of_fragments = options.numberOfFragments;
   }
+  return highlight;
+}
 
-  if (filters?.environments?.length) {
-    filter.push({ terms: { "service.environment": filters.environments } });
-  }
+function toHighlights(highlight?: Record<string, string[]>) {
+  if (!highlight) return null;
+  return Object.entries(highlight).map(([field, fragments]) => ({
+    field,
+    fragments,
+  }));
+}
 
-  if (filters?.categories?.length) {
-    filter.push({ terms: { category: filters.categories } });
-  }
+function toLog(hit: any) {
+  return {
+    id: hit._id,
+    ...hit._source,
+  };
+}
 
-  // Filtro de response time
-  if (filters?.minResponseTime || filters?.maxResponseTime) {
-    const range: Record<string, number> = {};
-    if (filters.minResponseTime) range.gte = filters.minResponseTime;
-    if (filters.maxResponseTime) range.lte = filters.maxResponseTime;
-    filter.push({ range: { "metrics.response_time_ms": range } });
+// Paginação por offset não passa de index.max_result_window
+function assertWithinResultWindow(offset: number, limit: number): void {
+  if (offset + limit > MAX_RESULT_WINDOW) {
+    throw new Error(
+      `offset + limit cannot exceed ${MAX_RESULT_WINDOW}; use first/after for deep pagination`
+    );
   }
+}
 
-  // Filtro de erro
-  if (filters?.hasError !== undefined) {
-    if (filters.hasError) {
-      filter.push({ exists: { field: "error" } });
-    } else {
-      mustNot.push({ exists: { field: "error" } });
-    }
+async function closePit(pitId: string): Promise<void> {
+  try {
+    await opensearchClient.deletePit({ body: { pit_id: [pitId] } });
+  } catch (error) {
+    console.warn("Failed to delete point-in-time:", error);
   }
+}
 
-  // Busca textual
-  if (filters?.searchText) {
-    must.push({
-      multi_match: {
-        query: filters.searchText,
-        fields: ["message", "error.message", "request.path"],
-        type: "best_fields",
-        fuzziness: "AUTO",
-      },
+interface CursorPageParams {
+  indices: string[];
+  query: any;
+  sort: any[];
+  first?: number;
+  after?: LogCursor | null;
+  highlight?: any;
+}
+
+// Paginação por cursor: search_after sobre um point-in-time estável
+async function fetchCursorPage(params: CursorPageParams) {
+  const size = Math.min(Math.max(params.first ?? 20, 1), MAX_PAGE_SIZE);
+  const cursor = params.after ?? null;
+
+  let pitId = cursor?.pitId;
+  if (!pitId) {
+    const pit = await opensearchClient.createPit({
+      index: params.indices,
+      keep_alive: PIT_KEEP_ALIVE,
     });
+    pitId = pit.body.pit_id;
+    if (!pitId) {
+      throw new Error("OpenSearch did not return a point-in-time id");
+    }
   }
 
-  const boolQuery: Record<string, unknown> = {};
-  if (must.length > 0) boolQuery.must = must;
-  if (filter.length > 0) boolQuery.filter = filter;
-  if (mustNot.length > 0) boolQuery.must_not = mustNot;
+  const response = await opensearchClient.search({
+    body: {
+      pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE },
+      query: params.query,
+      // Um documento extra indica se existe próxima página
+      size: size + 1,
+      sort: params.sort,
+      track_total_hits: true,
+      ...(cursor ? { search_after: cursor.sort } : {}),
+      ...(params.highlight ? { highlight: params.highlight } : {}),
+    },
+  });
 
-  if (Object.keys(boolQuery).length === 0) {
-    return { match_all: {} };
+  const currentPitId = response.body.pit_id ?? pitId;
+  const hits = response.body.hits.hits.slice(0, size);
+  const hasNextPage = response.body.hits.hits.length > size;
+
+  if (!hasNextPage) {
+    await closePit(currentPitId);
   }
 
-  return { bool: boolQuery };
+  const cursorFor = (hit: any) =>
+    encodeCursor({ pitId: currentPitId, sort: hit.sort });
+
+  return {
+    hits,
+    total: getTotalHits(response.body.hits.total),
+    pageInfo: {
+      hasNextPage,
+      hasPreviousPage: cursor !== null,
+      startCursor: hits.length > 0 ? cursorFor(hits[0]) : null,
+      endCursor: hits.length > 0 ? cursorFor(hits[hits.length - 1]) : null,
+    },
+  };
+}
+
+function isCursorMode(args: LogsArgs): boolean {
+  return args.first !== undefined || args.after !== undefined;
 }
 
 export const logResolvers = {
@@ -145,15 +214,33 @@ export const logResolvers = {
     logs: async (_: any, args: LogsArgs) => {
       const { filters, limit = 20, offset = 0 } = args;
 
-      // Buscar no índice de hoje (pode expandir para múltiplos índices)
-      const today = new Date().toISOString().split("T")[0];
-      const indexName = `logs-${today}`;
+      // Buscar em todos os índices diários cobertos pelo intervalo de datas
+      const indices = resolveLogIndices(filters);
+      const cursor = args.after ? decodeCursor(args.after) : null;
+      if (!isCursorMode(args)) {
+        assertWithinResultWindow(offset, limit);
+      }
 
       try {
-        await ensureIndexExists(indexName);
+        if (isCursorMode(args)) {
+          const page = await fetchCursorPage({
+            indices,
+            query: buildQuery(filters),
+            sort: [{ timestamp: { order: "desc" } }, { id: { order: "asc" } }],
+            first: args.first,
+            after: cursor,
+          });
+
+          return {
+            logs: page.hits.map(toLog),
+            total: page.total,
+            pageInfo: page.pageInfo,
+          };
+        }
 
         const response = await opensearchClient.search({
-          index: indexName,
+          index: indices,
+          ...MULTI_INDEX_OPTIONS,
           body: {
             query: buildQuery(filters),
             from: offset,
@@ -162,10 +249,7 @@ export const logResolvers = {
           },
         });
 
-        const logs = response.body.hits.hits.map((hit: any) => ({
-          id: hit._id,
-          ...hit._source,
-        }));
+        const logs = response.body.hits.hits.map(toLog);
 
         const total = getTotalHits(response.body.hits.total);
 
@@ -175,6 +259,8 @@ export const logResolvers = {
           pageInfo: {
             hasNextPage: offset + limit < total,
             hasPreviousPage: offset > 0,
+            startCursor: null,
+            endCursor: null,
           },
         };
       } catch (error) {
@@ -185,25 +271,14 @@ export const logResolvers = {
 
     // Buscar log específico por ID
     log: async (_: any, { id }: { id: string }) => {
-      const today = new Date().toISOString().split("T")[0];
-      const indexName = `logs-${today}`;
-
       try {
-        await ensureIndexExists(indexName);
-
-        const response = await opensearchClient.get({
-          index: indexName,
-          id,
-        });
-
-        return {
-          id: response.body._id,
-          ...response.body._source,
-        };
-      } catch (error: any) {
-        if (error.meta?.body?.found === false) {
+        const hit = await findLogById(id);
+        if (!hit) {
           return null;
         }
+
+        return toLog(hit);
+      } catch (error) {
         console.error("Error fetching log:", error);
         throw new Error("Failed to fetch log");
       }
@@ -212,14 +287,12 @@ export const logResolvers = {
     // Agregações
     logAggregations: async (_: any, args: LogAggregationsArgs) => {
       const { filters, timeSeriesInterval } = args;
-      const today = new Date().toISOString().split("T")[0];
-      const indexName = `logs-${today}`;
+      const indices = resolveLogIndices(filters);
 
       try {
-        await ensureIndexExists(indexName);
-
         const response = await opensearchClient.search({
-          index: indexName,
+          index: indices,
+          ...MULTI_INDEX_OPTIONS,
           body: {
             query: buildQuery(filters),
             size: 0,
@@ -236,6 +309,24 @@ export const logResolvers = {
                   size: 20,
                 },
               },
+              by_browser: {
+                terms: {
+                  field: "request.ua.browser",
+                  size: 20,
+                },
+              },
+              by_os: {
+                terms: {
+                  field: "request.ua.os",
+                  size: 20,
+                },
+              },
+              by_device_type: {
+                terms: {
+                  field: "request.ua.device_type",
+                  size: 10,
+                },
+              },
               time_series: {
                 date_histogram: {
                   field: "timestamp",
@@ -251,6 +342,9 @@ export const logResolvers = {
           return {
             byLevel: { buckets: [] },
             byService: { buckets: [] },
+            byBrowser: { buckets: [] },
+            byOs: { buckets: [] },
+            byDeviceType: { buckets: [] },
             timeSeries: [],
             totalLogs: getTotalHits(response.body.hits.total),
           };
@@ -259,6 +353,11 @@ export const logResolvers = {
         const byLevel = aggs.by_level as any;
         const byService = aggs.by_service as any;
         const timeSeries = aggs.time_series as any;
+        const toBuckets = (agg: any) =>
+          (agg?.buckets || []).map((b: any) => ({
+            key: b.key,
+            count: b.doc_count,
+          }));
 
         return {
           byLevel: {
@@ -273,6 +372,9 @@ export const logResolvers = {
               count: b.doc_count,
             })),
           },
+          byBrowser: { buckets: toBuckets(aggs.by_browser) },
+          byOs: { buckets: toBuckets(aggs.by_os) },
+          byDeviceType: { buckets: toBuckets(aggs.by_device_type) },
           timeSeries: (timeSeries?.buckets || []).map((b: any) => ({
             timestamp: new Date(b.key).toISOString(),
             count: b.doc_count,
@@ -288,22 +390,24 @@ export const logResolvers = {
     // Busca por similaridade usando More Like This
     similarLogs: async (_: any, args: SimilarLogsArgs) => {
       const { logId, limit = 10 } = args;
-      const today = new Date().toISOString().split("T")[0];
-      const indexName = `logs-${today}`;
 
       try {
-        await ensureIndexExists(indexName);
+        const source = await findLogById(logId);
+        if (!source) {
+          return [];
+        }
 
         const response = await opensearchClient.search({
-          index: indexName,
+          index: logSearchTarget(),
+          ...MULTI_INDEX_OPTIONS,
           body: {
             query: {
               more_like_this: {
                 fields: ["message", "error.message", "error.type"],
                 like: [
                   {
-                    _index: indexName,
-                    _id: logId,
+                    _index: source._index,
+                    _id: source._id,
                   },
                 ],
                 min_term_freq: 1,
@@ -315,10 +419,7 @@ export const logResolvers = {
         });
 
         return response.body.hits.hits.map((hit: any) => ({
-          log: {
-            id: hit._id,
-            ...hit._source,
-          },
+          log: toLog(hit),
           score: hit._score,
         }));
       } catch (error) {
@@ -330,16 +431,43 @@ export const logResolvers = {
     // Busca textual avançada
     searchLogs: async (_: any, args: SearchLogsArgs) => {
       const { query, filters, limit = 20, offset = 0 } = args;
-      const today = new Date().toISOString().split("T")[0];
-      const indexName = `logs-${today}`;
+      const indices = resolveLogIndices(filters);
+      const cursor = args.after ? decodeCursor(args.after) : null;
+      if (!isCursorMode(args)) {
+        assertWithinResultWindow(offset, limit);
+      }
 
       try {
-        await ensureIndexExists(indexName);
-
         const searchQuery = buildQuery({ ...filters, searchText: query });
+        const highlight = buildHighlight(args.highlight);
+
+        if (isCursorMode(args)) {
+          const page = await fetchCursorPage({
+            indices,
+            query: searchQuery,
+            sort: [
+              { _score: { order: "desc" } },
+              { timestamp: { order: "desc" } },
+              { id: { order: "asc" } },
+            ],
+            first: args.first,
+            after: cursor,
+            highlight,
+          });
+
+          return {
+            logs: page.hits.map((hit: any) => ({
+              ...toLog(hit),
+              highlights: toHighlights(hit.highlight),
+            })),
+            total: page.total,
+            pageInfo: page.pageInfo,
+          };
+        }
 
         const response = await opensearchClient.search({
-          index: indexName,
+          index: indices,
+          ...MULTI_INDEX_OPTIONS,
           body: {
             query: searchQuery,
             from: offset,
@@ -348,19 +476,13 @@ export const logResolvers = {
               { _score: { order: "desc" } },
               { timestamp: { order: "desc" } },
             ],
-            highlight: {
-              fields: {
-                message: {},
-                "error.message": {},
-              },
-            },
+            highlight,
           },
         });
 
         const logs = response.body.hits.hits.map((hit: any) => ({
-          id: hit._id,
-          ...hit._source,
-          _highlight: hit.highlight, // Pode adicionar highlight no schema se quiser
+          ...toLog(hit),
+          highlights: toHighlights(hit.highlight),
         }));
 
         const total = getTotalHits(response.body.hits.total);
@@ -371,6 +493,8 @@ export const logResolvers = {
           pageInfo: {
             hasNextPage: offset + limit < total,
             hasPreviousPage: offset > 0,
+            startCursor: null,
+            endCursor: null,
           },
         };
       } catch (error) {
@@ -378,5 +502,59 @@ export const logResolvers = {
         throw new Error("Failed to search logs");
       }
     },
+
+    // Progresso de uma exportação em andamento ou concluída
+    exportJob: (_: any, { id }: { id: string }) => getExportJob(id),
+  },
+
+  Mutation: {
+    // Ingestão de um único log
+    ingestLog: async (_: any, { input }: { input: Partial<LogEntry> }) => {
+      try {
+        const result = await ingestLogEntries([input]);
+        return result.items[0];
+      } catch (error) {
+        console.error("Error ingesting log:", error);
+        throw new Error("Failed to ingest log");
+      }
+    },
+
+    // Ingestão em lote via bulk API
+    ingestLogs: async (_: any, { input }: { input: Partial<LogEntry>[] }) => {
+      try {
+        return await ingestLogEntries(input);
+      } catch (error) {
+        console.error("Error ingesting logs:", error);
+        throw new Error("Failed to ingest logs");
+      }
+    },
+
+    // Exportação em segundo plano; o arquivo é gerado no servidor
+    exportLogs: (_: any, args: ExportLogsArgs) => {
+      const format = (args.format ?? "ndjson").toLowerCase();
+      if (format !== "ndjson" && format !== "csv") {
+        throw new Error(
+          `Unsupported export format "${args.format}"; use ndjson or csv`
+        );
+      }
+
+      return startExportJob({
+        filters: args.filters,
+        format,
+        columns: args.columns,
+      });
+    },
+  },
+
+  Subscription: {
+    // Cada assinante recebe seu próprio poller e cursor
+    logTail: {
+      subscribe: (_: any, args: LogTailArgs) =>
+        new LogTailPoller({
+          filters: args.filters,
+          pollIntervalMs: Math.max(args.pollIntervalMs ?? 2000, 500),
+        }),
+      resolve: (log: any) => log,
+    },
   },
 };
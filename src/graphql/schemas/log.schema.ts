@@ -15,6 +15,14 @@ export const logTypeDefs = `#graphql
     code: String!
   }
 
+  type UserAgent {
+    browser: String!
+    browser_version: String!
+    os: String!
+    device_type: String! # desktop, mobile, tablet, bot ou unknown
+    is_bot: Boolean!
+  }
+
   type Request {
     id: String!
     method: String!
@@ -22,6 +30,8 @@ export const logTypeDefs = `#graphql
     user_id: String!
     ip: String!
     user_agent: String!
+    # Extraído de user_agent na ingestão
+    ua: UserAgent
     duration_ms: Int!
   }
 
@@ -63,6 +73,13 @@ export const logTypeDefs = `#graphql
     metrics: Metrics!
     tags: [String!]!
     geo: Geo!
+    # Preenchido apenas por searchLogs
+    highlights: [Highlight!]
+  }
+
+  type Highlight {
+    field: String!
+    fragments: [String!]!
   }
 
   type LogConnection {
@@ -74,6 +91,8 @@ export const logTypeDefs = `#graphql
   type PageInfo {
     hasNextPage: Boolean!
     hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
   }
 
   type AggregationBucket {
@@ -89,6 +108,10 @@ export const logTypeDefs = `#graphql
     buckets: [AggregationBucket!]!
   }
 
+  type UserAgentAggregation {
+    buckets: [AggregationBucket!]!
+  }
+
   type TimeSeriesBucket {
     timestamp: String!
     count: Int!
@@ -97,6 +120,9 @@ export const logTypeDefs = `#graphql
   type LogAggregations {
     byLevel: LogLevelAggregation!
     byService: ServiceAggregation!
+    byBrowser: UserAgentAggregation!
+    byOs: UserAgentAggregation!
+    byDeviceType: UserAgentAggregation!
     timeSeries: [TimeSeriesBucket!]!
     totalLogs: Int!
   }
@@ -117,6 +143,117 @@ export const logTypeDefs = `#graphql
     minResponseTime: Int
     maxResponseTime: Int
     hasError: Boolean
+    browsers: [String!]
+    operatingSystems: [String!]
+    deviceTypes: [String!]
+    isBot: Boolean
+  }
+
+  input HighlightOptions {
+    preTags: [String!]
+    postTags: [String!]
+    fragmentSize: Int
+    numberOfFragments: Int
+  }
+
+  input ServiceInput {
+    name: String!
+    version: String!
+    environment: String!
+    instance_id: String!
+    host: String!
+    region: String!
+  }
+
+  input ErrorInput {
+    type: String!
+    message: String!
+    stack_trace: String!
+    code: String!
+  }
+
+  input RequestInput {
+    id: String!
+    method: String!
+    path: String!
+    user_id: String!
+    ip: String!
+    user_agent: String!
+    duration_ms: Int!
+  }
+
+  input BusinessInput {
+    transaction_id: String!
+    amount: Float!
+    currency: String!
+    payment_method: String!
+  }
+
+  input MetricsInput {
+    cpu_usage: Float!
+    memory_mb: Int!
+    response_time_ms: Int!
+    db_query_time_ms: Int!
+  }
+
+  input GeoLocationInput {
+    lat: Float!
+    lon: Float!
+  }
+
+  input GeoInput {
+    country: String!
+    city: String!
+    location: GeoLocationInput!
+  }
+
+  input LogInput {
+    id: ID # Gerado quando omitido
+    timestamp: String!
+    service: ServiceInput!
+    level: String!
+    category: String!
+    message: String!
+    error: ErrorInput
+    request: RequestInput
+    business: BusinessInput
+    metrics: MetricsInput!
+    tags: [String!]!
+    geo: GeoInput!
+  }
+
+  type IngestError {
+    type: String!
+    reason: String!
+  }
+
+  type IngestResult {
+    id: ID!
+    index: String
+    status: Int!
+    result: String
+    success: Boolean!
+    error: IngestError
+  }
+
+  type IngestLogsResult {
+    total: Int!
+    succeeded: Int!
+    failed: Int!
+    items: [IngestResult!]!
+  }
+
+  # Exportação assíncrona para arquivo local (ndjson ou csv)
+  type ExportJob {
+    id: ID!
+    status: String! # "running", "completed" ou "failed"
+    format: String!
+    filePath: String!
+    exported: Int!
+    total: Int!
+    error: String
+    startedAt: String!
+    finishedAt: String
   }
 
   input TimeSeriesInterval {
@@ -125,10 +262,13 @@ export const logTypeDefs = `#graphql
 
   type Query {
     # Busca de logs com filtros e paginação
+    # (limit/offset ou cursor com first/after para paginação profunda)
     logs(
       filters: LogFilters
       limit: Int = 20
       offset: Int = 0
+      first: Int
+      after: String
     ): LogConnection!
 
     # Buscar log por ID
@@ -152,6 +292,31 @@ export const logTypeDefs = `#graphql
       filters: LogFilters
       limit: Int = 20
       offset: Int = 0
+      first: Int
+      after: String
+      highlight: HighlightOptions
     ): LogConnection!
+
+    # Estado de uma exportação iniciada por exportLogs
+    exportJob(id: ID!): ExportJob
+  }
+
+  type Mutation {
+    # Ingestão de logs no índice diário correspondente ao timestamp
+    ingestLog(input: LogInput!): IngestResult!
+    ingestLogs(input: [LogInput!]!): IngestLogsResult!
+
+    # Exporta todos os logs filtrados; acompanhe o progresso com exportJob
+    exportLogs(
+      filters: LogFilters
+      format: String = "ndjson"
+      columns: [String!]
+    ): ExportJob!
+  }
+
+  type Subscription {
+    # Novos logs em tempo real (polling com cursor próprio; logs atrasados
+    # só são entregues dentro de uma janela de 5s, então é best-effort)
+    logTail(filters: LogFilters, pollIntervalMs: Int = 2000): Log!
   }
 `;
@@ -0,0 +1,117 @@
+import { Router, Request, Response } from "express";
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { createGunzip } from "zlib";
+import {
+  isLogWriteTarget,
+  resolveWriteIndex,
+} from "../opensearch/index-resolver";
+import { BulkInsertTransform } from "../scripts/bulk-insert";
+import { NdjsonParseTransform } from "../scripts/transforms/ndjson-parser";
+import { LogMetricsCollector } from "../scripts/transforms/log-metrics-collector";
+import { ErrorLogger } from "../scripts/utils/error-logger";
+
+interface IngestRouterOptions {
+  batchSize?: number;
+  concurrency?: number;
+  errorLogger?: ErrorLogger;
+}
+
+const MAX_BATCH_SIZE = 10_000;
+
+function isGzip(req: Request): boolean {
+  const encoding = req.headers["content-encoding"];
+  return typeof encoding === "string" && encoding.toLowerCase() === "gzip";
+}
+
+function parseBatchSize(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return Math.min(parsed, MAX_BATCH_SIZE);
+}
+
+/**
+ * `POST /ingest` accepts NDJSON log entries (optionally gzip-encoded) and
+ * streams them through the same metrics and bulk insert stages used by the
+ * ingestion scripts. Without `?index=`, documents are routed to the write
+ * target of their `timestamp`; `?index=` only accepts the write alias or a
+ * concrete logs-* index, since the endpoint is not authenticated.
+ */
+export function createIngestRouter(options: IngestRouterOptions = {}): Router {
+  const router = Router();
+
+  router.post("/ingest", async (req: Request, res: Response) => {
+    const targetIndex =
+      typeof req.query.index === "string" && req.query.index.length > 0
+        ? req.query.index
+        : undefined;
+    if (targetIndex !== undefined && !isLogWriteTarget(targetIndex)) {
+      res.status(400).json({
+        error: `index must be logs-write or a logs-* index name, got ${targetIndex}`,
+      });
+      return;
+    }
+
+    const parser = new NdjsonParseTransform({
+      errorLogger: options.errorLogger,
+    });
+    const metricsCollector = new LogMetricsCollector();
+    const bulkInsertStream = new BulkInsertTransform({
+      indexName: targetIndex ?? resolveWriteIndex(new Date()),
+      resolveIndex: targetIndex
+        ? undefined
+        : (doc) => resolveWriteIndex(doc.timestamp),
+      batchSize: parseBatchSize(req.query.batchSize, options.batchSize ?? 1000),
+      concurrency: options.concurrency ?? 2,
+      errorLogger: options.errorLogger,
+    });
+    const sink = new Writable({
+      objectMode: true,
+      write(_chunk, _encoding, callback) {
+        callback();
+      },
+    });
+
+    const source: Readable[] = isGzip(req) ? [req, createGunzip()] : [req];
+
+    const summary = () => {
+      const bulkMetrics = bulkInsertStream.getMetrics();
+      return {
+        accepted: parser.getAcceptedCount(),
+        rejected: parser.getRejectedCount(),
+        failed: bulkMetrics.failedDocuments,
+        inserted: bulkMetrics.totalInserted,
+        rejections: parser.getRejectedSamples(),
+      };
+    };
+
+    try {
+      await pipeline([
+        ...source,
+        parser,
+        metricsCollector,
+        bulkInsertStream,
+        sink,
+      ]);
+
+      res.status(200).json(summary());
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      const isBadEncoding = err.code?.startsWith("Z_") ?? false;
+
+      console.error("Error ingesting NDJSON request:", err);
+      res.status(isBadEncoding ? 400 : 500).json({
+        error: isBadEncoding
+          ? "Invalid gzip request body"
+          : "Failed to ingest logs",
+        ...summary(),
+      });
+    } finally {
+      options.errorLogger?.flush();
+    }
+  });
+
+  return router;
+}
@@ -1,12 +1,25 @@
+import { createServer } from "http";
+import express from "express";
+import cors from "cors";
+import { WebSocketServer } from "ws";
+import { useServer } from "graphql-ws/lib/use/ws";
 import { ApolloServer } from "@apollo/server";
-import { startStandaloneServer } from "@apollo/server/standalone";
+import { expressMiddleware } from "@as-integrations/express5";
+import { ApolloServerPluginDrainHttpServer } from "@apollo/server/plugin/drainHttpServer";
+import { makeExecutableSchema } from "@graphql-tools/schema";
 import { logTypeDefs } from "./graphql/schemas/log.schema";
 import { logResolvers } from "./graphql/resolvers/log.resolvers";
 import { testConnection } from "./config/opensearch.config";
+import { getIndexLayout, LOGS_WRITE_ALIAS } from "./opensearch/index-resolver";
+import { bootstrapRolloverIndex } from "./opensearch/rollover";
+import { createIngestRouter } from "./http/ingest.routes";
+import { ErrorLogger } from "./scripts/utils/error-logger";
 import * as dotenv from "dotenv";
 
 dotenv.config();
 
+const GRAPHQL_PATH = "/graphql";
+
 async function startServer() {
   console.log("Testing OpenSearch connection...");
   const connected = await testConnection();
@@ -16,17 +29,70 @@ async function startServer() {
     process.exit(1);
   }
 
-  const server = new ApolloServer({
+  // Writing to the alias before it exists would auto-create a plain index
+  // named after it
+  if (getIndexLayout() === "rollover") {
+    const { index } = await bootstrapRolloverIndex();
+    console.log(`Writing logs through ${LOGS_WRITE_ALIAS} (${index})`);
+  }
+
+  const schema = makeExecutableSchema({
     typeDefs: logTypeDefs,
     resolvers: logResolvers,
   });
 
-  const { url } = await startStandaloneServer(server, {
-    listen: { port: parseInt(process.env.PORT || "4000") },
+  const app = express();
+  const httpServer = createServer(app);
+
+  // graphql-ws transport for subscriptions (logTail)
+  const wsServer = new WebSocketServer({
+    server: httpServer,
+    path: GRAPHQL_PATH,
+  });
+  const wsCleanup = useServer({ schema }, wsServer);
+
+  const server = new ApolloServer({
+    schema,
+    plugins: [
+      ApolloServerPluginDrainHttpServer({ httpServer }),
+      {
+        async serverWillStart() {
+          return {
+            async drainServer() {
+              await wsCleanup.dispose();
+            },
+          };
+        },
+      },
+    ],
   });
 
+  await server.start();
+
+  app.use(GRAPHQL_PATH, cors(), express.json(), expressMiddleware(server));
+
+  // NDJSON bulk ingestion; reads the raw (optionally gzipped) body as a stream
+  app.use(
+    createIngestRouter({
+      errorLogger: new ErrorLogger(
+        "./logs",
+        `errors-ingest-${Date.now()}.json`
+      ),
+    })
+  );
+
+  const port = parseInt(process.env.PORT || "4000");
+  await new Promise<void>((resolve) => httpServer.listen(port, resolve));
+
+  const url = `http://localhost:${port}${GRAPHQL_PATH}`;
   console.log(`\nServer ready at: ${url}`);
   console.log(`GraphQL Playground available at: ${url}`);
+  console.log(
+    `NDJSON ingestion available at: POST http://localhost:${port}/ingest`
+  );
+  console.log(
+    `Subscriptions available at: ws://localhost:${port}${GRAPHQL_PATH}`
+  );
 }
 
 startServer().catch((error) => {
@@ -0,0 +1,134 @@
+import { opensearchClient } from "../config/opensearch.config";
+import { LOG_DATA_STREAM_PATTERN } from "./index-resolver";
+
+export interface BackingIndexInfo {
+  index: string;
+  // The newest backing index receives all writes and cannot be deleted
+  write: boolean;
+  documents: number;
+  sizeBytes: number;
+  creationDate: Date | null;
+}
+
+export interface DataStreamInfo {
+  name: string;
+  status: string;
+  generation: number;
+  template: string;
+  timestampField: string;
+  maxTimestamp: Date | null;
+  documents: number;
+  sizeBytes: number;
+  backingIndices: BackingIndexInfo[];
+}
+
+async function getBackingIndexStats(
+  indices: string[]
+): Promise<Map<string, Omit<BackingIndexInfo, "index" | "write">>> {
+  const stats = new Map<string, Omit<BackingIndexInfo, "index" | "write">>();
+  if (indices.length === 0) return stats;
+
+  const response = await opensearchClient.cat.indices({
+    format: "json",
+    index: indices.join(","),
+    expand_wildcards: "all",
+    bytes: "b",
+    h: ["index", "docs.count", "store.size", "creation.date"],
+  });
+  for (const row of response.body as any[]) {
+    const created = Number(row["creation.date"]);
+    stats.set(row.index, {
+      documents: Number(row["docs.count"] ?? 0),
+      sizeBytes: Number(row["store.size"] ?? 0),
+      creationDate: Number.isFinite(created) ? new Date(created) : null,
+    });
+  }
+  return stats;
+}
+
+/**
+ * Data streams matching `pattern` with their backing indices, oldest index
+ * first. Streams are sorted by name.
+ */
+export async function listDataStreams(
+  pattern: string = LOG_DATA_STREAM_PATTERN
+): Promise<DataStreamInfo[]> {
+  let dataStreams;
+  try {
+    const response = await opensearchClient.indices.getDataStream({
+      name: pattern,
+    });
+    dataStreams = response.body.data_streams;
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) return [];
+    throw error;
+  }
+  if (dataStreams.length === 0) return [];
+
+  const [streamStats, indexStats] = await Promise.all([
+    opensearchClient.indices.dataStreamsStats({ name: pattern }),
+    getBackingIndexStats(
+      dataStreams.flatMap((stream) =>
+        stream.indices.map((index) => index.index_name)
+      )
+    ),
+  ]);
+  const statsByName = new Map(
+    streamStats.body.data_streams.map((stats) => [stats.data_stream, stats])
+  );
+
+  return dataStreams
+    .map((stream) => {
+      const backingIndices = stream.indices.map((index, position) => ({
+        index: index.index_name,
+        write: position === stream.indices.length - 1,
+        documents: 0,
+        sizeBytes: 0,
+        creationDate: null,
+        ...indexStats.get(index.index_name),
+      }));
+      const stats = statsByName.get(stream.name);
+
+      return {
+        name: stream.name,
+        status: String(stream.status).toLowerCase(),
+        generation: stream.generation,
+        template: stream.template,
+        timestampField: stream.timestamp_field.name,
+        maxTimestamp: stats?.maximum_timestamp
+          ? new Date(stats.maximum_timestamp)
+          : null,
+        documents: backingIndices.reduce(
+          (sum, index) => sum + index.documents,
+          0
+        ),
+        sizeBytes:
+          stats?.store_size_bytes ??
+          backingIndices.reduce((sum, index) => sum + index.sizeBytes, 0),
+        backingIndices,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Backing indices created before `olderThanDays` days ago. The write index
+ * is never included: a stream always needs one, roll it over first.
+ */
+export function filterOldBackingIndices(
+  stream: DataStreamInfo,
+  olderThanDays: number,
+  now: Date = new Date()
+): BackingIndexInfo[] {
+  const cutoff = now.getTime() - olderThanDays * 24 * 60 * 60 * 1000;
+  return stream.backingIndices.filter(
+    (index) =>
+      !index.write &&
+      index.creationDate !== null &&
+      index.creationDate.getTime() < cutoff
+  );
+}
+
+export async function deleteDataStream(name: string): Promise<void> {
+  await opensearchClient.indices.deleteDataStream({ name });
+}
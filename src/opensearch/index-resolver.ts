@@ -0,0 +1,162 @@
+export const LOG_INDEX_PATTERN = "logs-*";
+
+// Rollover layout: writes go through LOGS_WRITE_ALIAS to numbered backing
+// indices (logs-000001, logs-000002, ...), reads through LOGS_READ_ALIAS.
+export const LOGS_WRITE_ALIAS = "logs-write";
+export const LOGS_READ_ALIAS = "logs-read";
+export const ROLLOVER_INDEX_PATTERN = "logs-0*";
+export const FIRST_ROLLOVER_INDEX = "logs-000001";
+
+// Data streams (logs-ds-<name>) use the data stream template; their hidden
+// backing indices are named .ds-logs-ds-<name>-000001, ...
+export const LOG_DATA_STREAM_PATTERN = "logs-ds-*";
+export const LOG_DATA_STREAM_PREFIX = "logs-ds-";
+
+// Index setting read by the ISM rollover action
+export const ROLLOVER_ALIAS_SETTING =
+  "plugins.index_state_management.rollover_alias";
+
+export type IndexLayout = "daily" | "rollover";
+
+// Beyond this many days a wildcard over every log index is cheaper than
+// enumerating each day in the request URL.
+const MAX_DAILY_INDICES = 62;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IndexDateRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export function formatIndexDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function dailyIndexName(
+  timestamp: string | Date,
+  prefix = "logs"
+): string {
+  const date = typeof timestamp === "string" ? new Date(timestamp) : timestamp;
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp for index routing: ${timestamp}`);
+  }
+  return `${prefix}-${formatIndexDate(date)}`;
+}
+
+/**
+ * `LOG_INDEX_LAYOUT=rollover` switches to the alias-based layout; anything
+ * else keeps the date-named indices.
+ */
+export function getIndexLayout(
+  env: NodeJS.ProcessEnv = process.env
+): IndexLayout {
+  return env.LOG_INDEX_LAYOUT?.trim().toLowerCase() === "rollover"
+    ? "rollover"
+    : "daily";
+}
+
+/**
+ * Where a log with the given timestamp is written: the write alias in the
+ * rollover layout, its daily index otherwise.
+ */
+export function resolveWriteIndex(
+  timestamp: string | Date,
+  layout: IndexLayout = getIndexLayout()
+): string {
+  return layout === "rollover" ? LOGS_WRITE_ALIAS : dailyIndexName(timestamp);
+}
+
+// Log data streams are named logs-ds-<name>; everything else is an index or
+// alias
+export function isLogDataStream(target: string): boolean {
+  return target.startsWith(LOG_DATA_STREAM_PREFIX);
+}
+
+// Numbered backing indices of the rollover layout, i.e. what
+// ROLLOVER_INDEX_PATTERN (and so the rollover template and policy) matches
+export function isRolloverBackingIndex(index: string): boolean {
+  return index.startsWith(ROLLOVER_INDEX_PATTERN.slice(0, -1));
+}
+
+// Concrete log index names: no wildcards, lists or uppercase
+const LOG_INDEX_NAME = /^logs-[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Whether a caller-supplied index is a valid place to write logs: the write
+ * alias or a concrete logs-* index. The read alias, data streams (which
+ * need `create` actions), patterns and anything outside logs-* are refused.
+ */
+export function isLogWriteTarget(target: string): boolean {
+  if (target === LOGS_WRITE_ALIAS) return true;
+  return (
+    LOG_INDEX_NAME.test(target) &&
+    target !== LOGS_READ_ALIAS &&
+    !isLogDataStream(target)
+  );
+}
+
+// Target for searches that are not limited to a date range
+export function logSearchTarget(
+  layout: IndexLayout = getIndexLayout()
+): string {
+  return layout === "rollover" ? LOGS_READ_ALIAS : LOG_INDEX_PATTERN;
+}
+
+/**
+ * Resolves the indices that can hold logs for the given date range.
+ * Each day maps to `logs-*YYYY-MM-DD`, which covers the daily indices
+ * (`logs-2025-01-01`) as well as the stream and scenario ones
+ * (`logs-stream-2025-01-01`, `logs-massive-2025-01-01`). Data streams have
+ * no date in their name and are always included.
+ * Without a start date, or for very wide ranges, falls back to `logs-*`.
+ * Backing indices of the rollover layout carry no date, so that layout
+ * always reads the whole read alias and relies on the timestamp filter.
+ */
+export function resolveLogIndices(
+  range?: IndexDateRange,
+  now: Date = new Date(),
+  layout: IndexLayout = getIndexLayout()
+): string[] {
+  if (layout === "rollover") {
+    return [LOGS_READ_ALIAS];
+  }
+
+  if (!range?.startDate) {
+    return [LOG_INDEX_PATTERN];
+  }
+
+  const start = new Date(range.startDate);
+  const end = range.endDate ? new Date(range.endDate) : now;
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return [LOG_INDEX_PATTERN];
+  }
+
+  const firstDay = Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    start.getUTCDate()
+  );
+  const lastDay = Date.UTC(
+    end.getUTCFullYear(),
+    end.getUTCMonth(),
+    end.getUTCDate()
+  );
+
+  if (lastDay < firstDay) {
+    return [LOG_INDEX_PATTERN];
+  }
+
+  const days = Math.floor((lastDay - firstDay) / DAY_MS) + 1;
+  if (days > MAX_DAILY_INDICES) {
+    return [LOG_INDEX_PATTERN];
+  }
+
+  const indices: string[] = [];
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    indices.push(`logs-*${formatIndexDate(new Date(day))}`);
+  }
+  indices.push(LOG_DATA_STREAM_PATTERN);
+
+  return indices;
+}
@@ -1,5 +1,19 @@
+import {
+  LOG_DATA_STREAM_PATTERN,
+  LOGS_READ_ALIAS,
+  LOGS_WRITE_ALIAS,
+  ROLLOVER_ALIAS_SETTING,
+  ROLLOVER_INDEX_PATTERN,
+} from "./index-resolver";
+
+// Bumped with every mapping change (see LOG_TEMPLATE_MIGRATIONS). Stored as
+// the template version and in each index's mapping `_meta`, which is how
+// migrations tell which version an existing index was created with.
+export const LOG_TEMPLATE_VERSION = 2;
+
 export const LOG_INDEX_TEMPLATE = {
   index_patterns: ["logs-*"],
+  version: LOG_TEMPLATE_VERSION,
   template: {
     settings: {
       number_of_shards: 10,
@@ -20,6 +34,7 @@ export const LOG_INDEX_TEMPLATE = {
       },
     },
     mappings: {
+      _meta: { template_version: LOG_TEMPLATE_VERSION },
       properties: {
         id: { type: "keyword" },
         timestamp: {
@@ -75,6 +90,15 @@ export const LOG_INDEX_TEMPLATE = {
                 keyword: { type: "keyword", ignore_above: 256 },
               },
             },
+            ua: {
+              properties: {
+                browser: { type: "keyword" },
+                browser_version: { type: "keyword" },
+                os: { type: "keyword" },
+                device_type: { type: "keyword" },
+                is_bot: { type: "boolean" },
+              },
+            },
             duration_ms: { type: "integer" },
           },
         },
@@ -106,3 +130,49 @@ export const LOG_INDEX_TEMPLATE = {
     },
   },
 };
+
+/**
+ * Numbered backing indices of the rollover layout. Same mappings as the
+ * daily indices, but fewer shards since rollover caps the index size, and
+ * every new backing index joins the read alias on creation. The higher
+ * priority makes it win over LOG_INDEX_TEMPLATE, which also matches.
+ */
+export const LOG_ROLLOVER_INDEX_TEMPLATE = {
+  index_patterns: [ROLLOVER_INDEX_PATTERN],
+  priority: 200,
+  version: LOG_TEMPLATE_VERSION,
+  template: {
+    settings: {
+      ...LOG_INDEX_TEMPLATE.template.settings,
+      number_of_shards: 1,
+      [ROLLOVER_ALIAS_SETTING]: LOGS_WRITE_ALIAS,
+    },
+    mappings: LOG_INDEX_TEMPLATE.template.mappings,
+    aliases: {
+      [LOGS_READ_ALIAS]: {},
+    },
+  },
+};
+
+/**
+ * Data streams (`logs-ds-*`). Same settings and mappings as LOG_INDEX_TEMPLATE
+ * plus the `@timestamp` field data streams require; the bulk insert copies it
+ * from `timestamp`. The priority keeps it ahead of LOG_INDEX_TEMPLATE, which
+ * also matches the stream names.
+ */
+export const LOG_DATA_STREAM_TEMPLATE = {
+  index_patterns: [LOG_DATA_STREAM_PATTERN],
+  priority: 300,
+  version: LOG_TEMPLATE_VERSION,
+  data_stream: {},
+  template: {
+    settings: LOG_INDEX_TEMPLATE.template.settings,
+    mappings: {
+      _meta: LOG_INDEX_TEMPLATE.template.mappings._meta,
+      properties: {
+        "@timestamp": LOG_INDEX_TEMPLATE.template.mappings.properties.timestamp,
+        ...LOG_INDEX_TEMPLATE.template.mappings.properties,
+      },
+    },
+  },
+};
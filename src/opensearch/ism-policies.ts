@@ -0,0 +1,312 @@
+import { opensearchClient } from "../config/opensearch.config";
+import {
+  ROLLOVER_ALIAS_SETTING,
+  ROLLOVER_INDEX_PATTERN,
+} from "./index-resolver";
+
+export const LOGS_ROLLOVER_POLICY_ID = "logs-rollover-policy";
+export const LOGS_RETENTION_POLICY_ID = "logs-retention-policy";
+
+/**
+ * Thresholds for the hot → warm → delete lifecycle. Ages use OpenSearch
+ * time units (`12h`, `7d`), sizes byte units (`50gb`).
+ */
+export interface LifecycleOptions {
+  // Rollover happens when any of the three is reached
+  rolloverMinSize: string;
+  rolloverMinDocs: number;
+  rolloverMinAge: string;
+  warmAfter: string;
+  warmReplicas: number;
+  forceMergeSegments: number;
+  deleteAfter: string;
+  // Indices picked up automatically by each policy
+  rolloverPatterns: string[];
+  retentionPatterns: string[];
+}
+
+export const DEFAULT_LIFECYCLE_OPTIONS: LifecycleOptions = {
+  rolloverMinSize: "30gb",
+  rolloverMinDocs: 50_000_000,
+  rolloverMinAge: "1d",
+  warmAfter: "2d",
+  warmReplicas: 0,
+  forceMergeSegments: 1,
+  deleteAfter: "30d",
+  rolloverPatterns: [ROLLOVER_INDEX_PATTERN],
+  retentionPatterns: ["logs-*"],
+};
+
+export interface IsmPolicy {
+  description: string;
+  default_state: string;
+  states: Array<{
+    name: string;
+    actions: Array<Record<string, unknown>>;
+    transitions: Array<{
+      state_name: string;
+      conditions?: Record<string, unknown>;
+    }>;
+  }>;
+  ism_template: Array<{ index_patterns: string[]; priority: number }>;
+}
+
+export interface IndexLifecycleState {
+  index: string;
+  policyId: string | null;
+  state: string | null;
+  action: string | null;
+  step: string | null;
+  stepStatus: string | null;
+  failed: boolean;
+  info: string | null;
+  enabled: boolean | null;
+}
+
+export interface PolicyChangeResult {
+  updated: number;
+  failures: Array<{ index: string; reason: string }>;
+}
+
+const TIME_VALUE = /^\d+(d|h|m|s|ms|micros|nanos)$/;
+const BYTE_VALUE = /^\d+(b|kb|mb|gb|tb|pb)$/i;
+
+function validateLifecycleOptions(options: LifecycleOptions): void {
+  const times: Array<[string, string]> = [
+    ["rolloverMinAge", options.rolloverMinAge],
+    ["warmAfter", options.warmAfter],
+    ["deleteAfter", options.deleteAfter],
+  ];
+  for (const [name, value] of times) {
+    if (!TIME_VALUE.test(value)) {
+      throw new Error(`${name} must be a time value like 7d or 12h: ${value}`);
+    }
+  }
+  if (!BYTE_VALUE.test(options.rolloverMinSize)) {
+    throw new Error(
+      `rolloverMinSize must be a byte value like 50gb: ${options.rolloverMinSize}`
+    );
+  }
+
+  const counts: Array<[string, number, number]> = [
+    ["rolloverMinDocs", options.rolloverMinDocs, 1],
+    ["warmReplicas", options.warmReplicas, 0],
+    ["forceMergeSegments", options.forceMergeSegments, 1],
+  ];
+  for (const [name, value, min] of counts) {
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(`${name} must be an integer >= ${min}: ${value}`);
+    }
+  }
+}
+
+function warmAndDeleteStates(
+  options: LifecycleOptions,
+  ageCondition: "min_index_age" | "min_rollover_age"
+): IsmPolicy["states"] {
+  return [
+    {
+      name: "warm",
+      actions: [
+        { replica_count: { number_of_replicas: options.warmReplicas } },
+        { force_merge: { max_num_segments: options.forceMergeSegments } },
+      ],
+      transitions: [
+        {
+          state_name: "delete",
+          conditions: { [ageCondition]: options.deleteAfter },
+        },
+      ],
+    },
+    {
+      name: "delete",
+      actions: [{ delete: {} }],
+      transitions: [],
+    },
+  ];
+}
+
+/**
+ * For indices written through a rollover alias. Warm and delete are timed
+ * from the rollover (`min_rollover_age`), i.e. from when the index stopped
+ * receiving writes, rather than from its creation.
+ */
+export function buildRolloverPolicy(
+  overrides: Partial<LifecycleOptions> = {}
+): IsmPolicy {
+  const options = { ...DEFAULT_LIFECYCLE_OPTIONS, ...overrides };
+  validateLifecycleOptions(options);
+
+  return {
+    description: `Log indices behind a write alias: rollover at ${options.rolloverMinSize} / ${options.rolloverMinDocs} docs / ${options.rolloverMinAge}, warm ${options.warmAfter} and delete ${options.deleteAfter} after rollover`,
+    default_state: "hot",
+    states: [
+      {
+        name: "hot",
+        actions: [
+          {
+            rollover: {
+              min_size: options.rolloverMinSize,
+              min_doc_count: options.rolloverMinDocs,
+              min_index_age: options.rolloverMinAge,
+            },
+          },
+        ],
+        transitions: [
+          {
+            state_name: "warm",
+            conditions: { min_rollover_age: options.warmAfter },
+          },
+        ],
+      },
+      ...warmAndDeleteStates(options, "min_rollover_age"),
+    ],
+    // Wins over the retention policy for indices matching both
+    ism_template: [{ index_patterns: options.rolloverPatterns, priority: 200 }],
+  };
+}
+
+/**
+ * For the date-named indices (`logs-2025-01-01`, `logs-stream-...`), which
+ * have no write alias to roll over. Ages count from index creation. There
+ * is no shrink in warm: ISM's shrink writes a copy next to the source, which
+ * doubles storage until deletion and matches `logs-*` again.
+ */
+export function buildRetentionPolicy(
+  overrides: Partial<LifecycleOptions> = {}
+): IsmPolicy {
+  const options = { ...DEFAULT_LIFECYCLE_OPTIONS, ...overrides };
+  validateLifecycleOptions(options);
+
+  return {
+    description: `Date-named log indices: warm after ${options.warmAfter}, delete after ${options.deleteAfter}`,
+    default_state: "hot",
+    states: [
+      {
+        name: "hot",
+        actions: [],
+        transitions: [
+          {
+            state_name: "warm",
+            conditions: { min_index_age: options.warmAfter },
+          },
+        ],
+      },
+      ...warmAndDeleteStates(options, "min_index_age"),
+    ],
+    ism_template: [
+      { index_patterns: options.retentionPatterns, priority: 100 },
+    ],
+  };
+}
+
+export function buildLogPolicies(
+  overrides: Partial<LifecycleOptions> = {}
+): Record<string, IsmPolicy> {
+  return {
+    [LOGS_ROLLOVER_POLICY_ID]: buildRolloverPolicy(overrides),
+    [LOGS_RETENTION_POLICY_ID]: buildRetentionPolicy(overrides),
+  };
+}
+
+/**
+ * Creates or updates the log policies. Updating needs the current sequence
+ * number, so existing policies are fetched first. ISM templates only apply
+ * to indices created afterwards; existing ones need `attachPolicy`.
+ */
+export async function installIsmPolicies(
+  overrides: Partial<LifecycleOptions> = {}
+): Promise<Array<{ policyId: string; created: boolean }>> {
+  const results: Array<{ policyId: string; created: boolean }> = [];
+
+  for (const [policyId, policy] of Object.entries(
+    buildLogPolicies(overrides)
+  )) {
+    const exists = await opensearchClient.ism.existsPolicy({
+      policy_id: policyId,
+    });
+    const current = exists.body
+      ? (await opensearchClient.ism.getPolicy({ policy_id: policyId })).body
+      : null;
+
+    await opensearchClient.ism.putPolicy({
+      policy_id: policyId,
+      if_seq_no: current?._seq_no,
+      if_primary_term: current?._primary_term,
+      body: { policy },
+    });
+    results.push({ policyId, created: !current });
+  }
+
+  return results;
+}
+
+function toChangeResult(body: {
+  updated_indices?: number;
+  failed_indices?: Array<{ index_name?: string; reason?: string }>;
+}): PolicyChangeResult {
+  return {
+    updated: body.updated_indices ?? 0,
+    failures: (body.failed_indices ?? []).map((failure) => ({
+      index: failure.index_name ?? "",
+      reason: failure.reason ?? "",
+    })),
+  };
+}
+
+/**
+ * Attaches a policy to existing indices (names or patterns). With a
+ * `rolloverAlias`, the alias setting the rollover action needs is set first.
+ */
+export async function attachPolicy(
+  index: string,
+  policyId: string,
+  rolloverAlias?: string
+): Promise<PolicyChangeResult> {
+  if (rolloverAlias) {
+    await opensearchClient.indices.putSettings({
+      index,
+      body: { [ROLLOVER_ALIAS_SETTING]: rolloverAlias },
+    });
+  }
+
+  const response = await opensearchClient.ism.addPolicy({
+    index,
+    body: { policy_id: policyId },
+  });
+  return toChangeResult(response.body);
+}
+
+export async function removePolicy(index: string): Promise<PolicyChangeResult> {
+  const response = await opensearchClient.ism.removePolicy({ index });
+  return toChangeResult(response.body);
+}
+
+/**
+ * Current ISM state of each index matching `index`, unmanaged ones included
+ * (with a null `policyId`).
+ */
+export async function explainLifecycle(
+  index: string
+): Promise<IndexLifecycleState[]> {
+  const response = await opensearchClient.ism.explainPolicy({ index });
+  const { total_managed_indices: _total, ...indices } = response.body;
+
+  return Object.entries(indices)
+    .map(([name, explain]: [string, any]) => ({
+      index: name,
+      policyId:
+        explain.policy_id ??
+        explain["index.plugins.index_state_management.policy_id"] ??
+        explain["index.opendistro.index_state_management.policy_id"] ??
+        null,
+      state: explain.state?.name ?? null,
+      action: explain.action?.name ?? null,
+      step: explain.step?.name ?? null,
+      stepStatus: explain.step?.step_status ?? null,
+      failed: Boolean(explain.action?.failed || explain.retry_info?.failed),
+      info: explain.info?.message ?? null,
+      enabled: explain.enabled ?? null,
+    }))
+    .sort((a, b) => a.index.localeCompare(b.index));
+}
@@ -0,0 +1,281 @@
+import { opensearchClient } from "../config/opensearch.config";
+import type { Indices_PutIndexTemplate_RequestBody } from "@opensearch-project/opensearch/api/indices/putIndexTemplate";
+import {
+  FIRST_ROLLOVER_INDEX,
+  LOGS_READ_ALIAS,
+  LOGS_WRITE_ALIAS,
+} from "./index-resolver";
+import { LOG_ROLLOVER_INDEX_TEMPLATE } from "./index-template";
+import { waitForReindexTask } from "./tasks";
+
+export const LOG_ROLLOVER_TEMPLATE_NAME = "logs-rollover-template";
+
+// Date-named indices written by the daily layout (not logs-stream-*, etc.)
+const DAILY_INDEX_NAME = /^logs-\d{4}-\d{2}-\d{2}$/;
+
+export interface RolloverConditions {
+  max_age?: string;
+  max_docs?: number;
+  max_size?: string;
+}
+
+export interface RolloverResult {
+  oldIndex: string;
+  newIndex: string;
+  rolledOver: boolean;
+  conditions: Record<string, boolean>;
+}
+
+export interface AliasMembership {
+  index: string;
+  read: boolean;
+  write: boolean;
+}
+
+export interface DailyIndex {
+  index: string;
+  docs: number;
+  size: string;
+}
+
+export interface MigrationOptions {
+  // "reindex" copies documents into the write alias, "alias" only adds the
+  // daily indices to the read alias and leaves the data where it is
+  mode: "reindex" | "alias";
+  deleteSource: boolean;
+  pollIntervalMs: number;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export interface MigrationProgress {
+  index: string;
+  total: number;
+  created: number;
+  conflicts: number;
+}
+
+export interface MigrationResult {
+  index: string;
+  mode: MigrationOptions["mode"];
+  docs: number;
+  created: number;
+  conflicts: number;
+  failures: string[];
+  deleted: boolean;
+  durationMs: number;
+}
+
+export async function setupRolloverTemplate() {
+  try {
+    return await opensearchClient.indices.putIndexTemplate({
+      name: LOG_ROLLOVER_TEMPLATE_NAME,
+      body: LOG_ROLLOVER_INDEX_TEMPLATE as Indices_PutIndexTemplate_RequestBody,
+    });
+  } catch (error: any) {
+    console.error(
+      "Error creating rollover index template:",
+      error.meta?.body || error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Installs the rollover template and creates the first backing index with
+ * the write alias. Idempotent: when the write alias already exists, returns
+ * its current write index instead.
+ */
+export async function bootstrapRolloverIndex(): Promise<{
+  index: string;
+  created: boolean;
+}> {
+  await setupRolloverTemplate();
+
+  const aliasExists = await opensearchClient.indices.existsAlias({
+    name: LOGS_WRITE_ALIAS,
+  });
+  if (aliasExists.body) {
+    const writeIndex = (await getAliasMembership()).find(
+      (membership) => membership.write
+    );
+    if (!writeIndex) {
+      throw new Error(`Alias ${LOGS_WRITE_ALIAS} has no write index`);
+    }
+    return { index: writeIndex.index, created: false };
+  }
+
+  // The read alias comes from the template
+  await opensearchClient.indices.create({
+    index: FIRST_ROLLOVER_INDEX,
+    body: { aliases: { [LOGS_WRITE_ALIAS]: { is_write_index: true } } },
+  });
+  return { index: FIRST_ROLLOVER_INDEX, created: true };
+}
+
+/**
+ * Rolls the write alias over to a new backing index. Without conditions the
+ * rollover is unconditional; with them it only happens when one is met.
+ */
+export async function rolloverWriteAlias(
+  conditions?: RolloverConditions,
+  dryRun = false
+): Promise<RolloverResult> {
+  const response = await opensearchClient.indices.rollover({
+    alias: LOGS_WRITE_ALIAS,
+    dry_run: dryRun,
+    body: conditions ? { conditions } : undefined,
+  });
+
+  return {
+    oldIndex: response.body.old_index,
+    newIndex: response.body.new_index,
+    rolledOver: response.body.rolled_over,
+    conditions: response.body.conditions ?? {},
+  };
+}
+
+/**
+ * Indices behind the read and write aliases, sorted by name.
+ */
+export async function getAliasMembership(): Promise<AliasMembership[]> {
+  let body: Record<string, { aliases?: Record<string, any> }>;
+  try {
+    const response = await opensearchClient.indices.getAlias({
+      name: `${LOGS_WRITE_ALIAS},${LOGS_READ_ALIAS}`,
+    });
+    body = response.body as typeof body;
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) return [];
+    throw error;
+  }
+
+  return Object.entries(body)
+    .map(([index, { aliases = {} }]) => ({
+      index,
+      read: LOGS_READ_ALIAS in aliases,
+      write: aliases[LOGS_WRITE_ALIAS]?.is_write_index === true,
+    }))
+    .sort((a, b) => a.index.localeCompare(b.index));
+}
+
+/**
+ * Indices matching `pattern` that are the write index of some alias, such as
+ * the current `logs-write` backing index. Deleting one leaves its alias with
+ * nowhere to write.
+ */
+export async function findWriteIndices(pattern: string): Promise<string[]> {
+  let body: Record<string, { aliases?: Record<string, any> }>;
+  try {
+    const response = await opensearchClient.indices.getAlias({
+      index: pattern,
+    });
+    body = response.body as typeof body;
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) return [];
+    throw error;
+  }
+
+  return Object.entries(body)
+    .filter(([, { aliases = {} }]) =>
+      Object.values(aliases).some((alias) => alias?.is_write_index === true)
+    )
+    .map(([index]) => index)
+    .sort();
+}
+
+/**
+ * Date-named indices of the daily layout, oldest first.
+ */
+export async function findDailyIndices(): Promise<DailyIndex[]> {
+  const response = await opensearchClient.cat.indices({
+    format: "json",
+    index: "logs-*",
+  });
+
+  return (response.body as any[])
+    .filter((row) => DAILY_INDEX_NAME.test(row.index))
+    .map((row) => ({
+      index: row.index as string,
+      docs: Number(row["docs.count"] ?? 0),
+      size: (row["store.size"] as string) ?? "0b",
+    }))
+    .sort((a, b) => a.index.localeCompare(b.index));
+}
+
+/**
+ * Moves one daily index into the rollover layout. Reindexing uses
+ * `op_type: create` and proceeds on conflicts, so an interrupted migration
+ * can simply be run again. The source is only deleted when every document
+ * made it across.
+ */
+export async function migrateDailyIndex(
+  source: DailyIndex,
+  options: MigrationOptions
+): Promise<MigrationResult> {
+  const startTime = Date.now();
+  const result: MigrationResult = {
+    index: source.index,
+    mode: options.mode,
+    docs: source.docs,
+    created: 0,
+    conflicts: 0,
+    failures: [],
+    deleted: false,
+    durationMs: 0,
+  };
+
+  if (options.mode === "alias") {
+    await opensearchClient.indices.updateAliases({
+      body: {
+        actions: [{ add: { index: source.index, alias: LOGS_READ_ALIAS } }],
+      },
+    });
+  } else {
+    const { body } = await opensearchClient.reindex({
+      wait_for_completion: false,
+      refresh: true,
+      body: {
+        conflicts: "proceed",
+        source: { index: source.index },
+        dest: { index: LOGS_WRITE_ALIAS, op_type: "create" },
+      },
+    });
+    // With wait_for_completion=false the body only carries the task id
+    const response = await waitForReindexTask(
+      String((body as any).task),
+      source.index,
+      {
+        pollIntervalMs: options.pollIntervalMs,
+        onProgress: (progress) =>
+          options.onProgress?.({
+            index: source.index,
+            total: progress.total,
+            created: progress.created,
+            conflicts: progress.conflicts,
+          }),
+      }
+    );
+
+    result.created = response.created ?? 0;
+    result.conflicts = response.version_conflicts ?? 0;
+    result.failures = (response.failures ?? []).map(
+      (failure: any) =>
+        `${failure.id ?? "?"}: ${failure.cause?.reason ?? "unknown"}`
+    );
+
+    const copied = result.created + result.conflicts;
+    if (options.deleteSource && result.failures.length === 0) {
+      if (copied < source.docs) {
+        result.failures.push(
+          `only ${copied} of ${source.docs} documents copied, source kept`
+        );
+      } else {
+        await opensearchClient.indices.delete({ index: source.index });
+        result.deleted = true;
+      }
+    }
+  }
+
+  result.durationMs = Date.now() - startTime;
+  return result;
+}
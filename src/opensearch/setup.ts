@@ -1,13 +1,33 @@
 import { opensearchClient } from "../config/opensearch.config";
-import { LOG_INDEX_TEMPLATE } from "./index-template";
+import { LOG_DATA_STREAM_TEMPLATE, LOG_INDEX_TEMPLATE } from "./index-template";
+import {
+  getIndexLayout,
+  LOG_DATA_STREAM_PREFIX,
+  isLogDataStream,
+  LOGS_WRITE_ALIAS,
+} from "./index-resolver";
+import { bootstrapRolloverIndex } from "./rollover";
 import type { Indices_PutIndexTemplate_RequestBody } from "@opensearch-project/opensearch/api/indices/putIndexTemplate";
 
-export async function setupIndexTemplate() {
+export const LOG_DATA_STREAM_TEMPLATE_NAME = "logs-ds-template";
+
+/**
+ * Installs the log index template. With `dataStream`, installs the data
+ * stream variant (`logs-ds-*`, with `@timestamp`) instead.
+ */
+export async function setupIndexTemplate(options?: { dataStream?: boolean }) {
   try {
-    const response = await opensearchClient.indices.putIndexTemplate({
-      name: "logs-template",
-      body: LOG_INDEX_TEMPLATE as Indices_PutIndexTemplate_RequestBody,
-    });
+    const response = await opensearchClient.indices.putIndexTemplate(
+      options?.dataStream
+        ? {
+            name: LOG_DATA_STREAM_TEMPLATE_NAME,
+            body: LOG_DATA_STREAM_TEMPLATE as Indices_PutIndexTemplate_RequestBody,
+          }
+        : {
+            name: "logs-template",
+            body: LOG_INDEX_TEMPLATE as Indices_PutIndexTemplate_RequestBody,
+          }
+    );
     return response;
   } catch (error: any) {
     console.error("Error creating index template:", error.meta?.body || error);
@@ -38,6 +58,35 @@ export async function createTodayIndex() {
   }
 }
 
+export async function createDataStream(name: string) {
+  if (!isLogDataStream(name)) {
+    throw new Error(
+      `Data stream ${name} must start with ${LOG_DATA_STREAM_PREFIX} to use the log template`
+    );
+  }
+
+  try {
+    const existing = await opensearchClient.indices.getDataStream({
+      name,
+    });
+    if (existing.body.data_streams.length > 0) {
+      console.log(`Data stream ${name} already exists`);
+      return name;
+    }
+  } catch (error: any) {
+    if (error.meta?.statusCode !== 404) throw error;
+  }
+
+  try {
+    console.log(`Creating data stream: ${name}`);
+    await opensearchClient.indices.createDataStream({ name });
+    return name;
+  } catch (error: any) {
+    console.error("Error creating data stream:", error.meta?.body || error);
+    throw error;
+  }
+}
+
 /**
  * Creates an index optimized for bulk loading operations.
  * This function temporarily disables refresh and reduces replicas for faster ingestion.
@@ -121,6 +170,17 @@ export async function optimizeIndexForSearch(
 
 export async function setupOpenSearch() {
   await setupIndexTemplate();
+
+  if (getIndexLayout() === "rollover") {
+    const { index, created } = await bootstrapRolloverIndex();
+    console.log(
+      created
+        ? `Index ${index} created behind ${LOGS_WRITE_ALIAS}`
+        : `Alias ${LOGS_WRITE_ALIAS} already points to ${index}`
+    );
+    return LOGS_WRITE_ALIAS;
+  }
+
   const indexName = await createTodayIndex();
   return indexName;
 }
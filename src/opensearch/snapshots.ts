@@ -0,0 +1,213 @@
+import { opensearchClient } from "../config/opensearch.config";
+import { LOG_INDEX_PATTERN } from "./index-resolver";
+
+export const DEFAULT_SNAPSHOT_REPOSITORY = "logs-backups";
+// Must be listed in the node's path.repo (see docker-compose.yml)
+export const DEFAULT_SNAPSHOT_LOCATION = "/usr/share/opensearch/snapshots";
+
+export interface SnapshotRepositoryConfig {
+  name: string;
+  location: string;
+}
+
+export interface SnapshotInfo {
+  name: string;
+  state: string;
+  indices: string[];
+  dataStreams: string[];
+  startTime: Date | null;
+  durationMs: number;
+  shards: { total: number; successful: number; failed: number };
+  failures: string[];
+}
+
+export interface CreateSnapshotOptions {
+  // Generated from the current time when omitted
+  name?: string;
+  now?: Date;
+}
+
+export interface RestoreSnapshotOptions {
+  // Snapshot contents when omitted
+  indices?: string[];
+  // Restore as `<renamePrefix><index>` next to the live indices
+  renamePrefix?: string;
+}
+
+export interface RestoreSnapshotResult {
+  snapshot: string;
+  indices: string[];
+  shards: { total: number; successful: number; failed: number };
+}
+
+/**
+ * `SNAPSHOT_REPOSITORY` and `SNAPSHOT_LOCATION` override the filesystem
+ * repository used by the snapshot commands.
+ */
+export function getSnapshotRepository(
+  env: NodeJS.ProcessEnv = process.env
+): SnapshotRepositoryConfig {
+  return {
+    name: env.SNAPSHOT_REPOSITORY?.trim() || DEFAULT_SNAPSHOT_REPOSITORY,
+    location: env.SNAPSHOT_LOCATION?.trim() || DEFAULT_SNAPSHOT_LOCATION,
+  };
+}
+
+/**
+ * Snapshot names must be lowercase; the timestamp keeps them sortable,
+ * e.g. logs-2024.03.01-120000.
+ */
+export function snapshotName(now: Date = new Date(), prefix = "logs"): string {
+  const iso = now.toISOString();
+  const date = iso.slice(0, 10).replace(/-/g, ".");
+  const time = iso.slice(11, 19).replace(/:/g, "");
+  return `${prefix}-${date}-${time}`.toLowerCase();
+}
+
+function toSnapshotInfo(snapshot: any): SnapshotInfo {
+  return {
+    name: snapshot.snapshot,
+    state: String(snapshot.state ?? "unknown").toLowerCase(),
+    indices: [...(snapshot.indices ?? [])].sort(),
+    dataStreams: [...(snapshot.data_streams ?? [])].sort(),
+    startTime: snapshot.start_time_in_millis
+      ? new Date(snapshot.start_time_in_millis)
+      : null,
+    durationMs: Number(snapshot.duration_in_millis ?? 0),
+    shards: {
+      total: snapshot.shards?.total ?? 0,
+      successful: snapshot.shards?.successful ?? 0,
+      failed: snapshot.shards?.failed ?? 0,
+    },
+    failures: (snapshot.failures ?? []).map(
+      (failure: any) =>
+        `${failure.index}[${failure.shard_id}]: ${failure.reason}`
+    ),
+  };
+}
+
+/**
+ * Registers (or updates) the filesystem repository. OpenSearch verifies the
+ * location on every node, so this fails when it is missing from path.repo.
+ */
+export async function registerSnapshotRepository(
+  repository: SnapshotRepositoryConfig = getSnapshotRepository()
+): Promise<void> {
+  await opensearchClient.snapshot.createRepository({
+    repository: repository.name,
+    body: {
+      type: "fs",
+      settings: { location: repository.location, compress: "true" },
+    },
+  });
+}
+
+/**
+ * Snapshots the given indices (or patterns) and waits for it to finish.
+ * Cluster state is left out so a restore only brings back log data.
+ * Anything short of a complete snapshot is an error.
+ */
+export async function createSnapshot(
+  indices: string[] = [LOG_INDEX_PATTERN],
+  options: CreateSnapshotOptions = {},
+  repository: SnapshotRepositoryConfig = getSnapshotRepository()
+): Promise<SnapshotInfo> {
+  const name = options.name ?? snapshotName(options.now);
+  const response = await opensearchClient.snapshot.create({
+    repository: repository.name,
+    snapshot: name,
+    wait_for_completion: true,
+    body: {
+      indices: indices.join(","),
+      ignore_unavailable: true,
+      include_global_state: false,
+    },
+  });
+
+  const snapshot = toSnapshotInfo(response.body.snapshot ?? { snapshot: name });
+  if (snapshot.state !== "success") {
+    throw new Error(
+      `Snapshot ${name} finished ${snapshot.state}${
+        snapshot.failures.length > 0 ? `: ${snapshot.failures[0]}` : ""
+      }`
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshots in the repository, oldest first. An unregistered repository
+ * has none.
+ */
+export async function listSnapshots(
+  repository: SnapshotRepositoryConfig = getSnapshotRepository()
+): Promise<SnapshotInfo[]> {
+  try {
+    const response = await opensearchClient.snapshot.get({
+      repository: repository.name,
+      snapshot: "_all",
+    });
+    return response.body.snapshots
+      .map(toSnapshotInfo)
+      .sort(
+        (a, b) => (a.startTime?.getTime() ?? 0) - (b.startTime?.getTime() ?? 0)
+      );
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) return [];
+    throw error;
+  }
+}
+
+/**
+ * Restores indices from a snapshot and waits for the recovery. Without a
+ * rename prefix the restored indices replace live ones of the same name,
+ * which must be closed or deleted first. Renamed copies are restored
+ * without their aliases so they stay out of logs-read and logs-write.
+ */
+export async function restoreSnapshot(
+  name: string,
+  options: RestoreSnapshotOptions = {},
+  repository: SnapshotRepositoryConfig = getSnapshotRepository()
+): Promise<RestoreSnapshotResult> {
+  const rename = options.renamePrefix
+    ? {
+        rename_pattern: "(.+)",
+        rename_replacement: `${options.renamePrefix}$1`,
+      }
+    : {};
+
+  const response = await opensearchClient.snapshot.restore({
+    repository: repository.name,
+    snapshot: name,
+    wait_for_completion: true,
+    body: {
+      ...(options.indices?.length
+        ? { indices: options.indices.join(",") }
+        : {}),
+      include_global_state: false,
+      include_aliases: !options.renamePrefix,
+      ...rename,
+    },
+  });
+
+  const restored = response.body.snapshot as any;
+  return {
+    snapshot: name,
+    indices: [...(restored?.indices ?? [])].sort(),
+    shards: {
+      total: restored?.shards?.total ?? 0,
+      successful: restored?.shards?.successful ?? 0,
+      failed: restored?.shards?.failed ?? 0,
+    },
+  };
+}
+
+export async function deleteSnapshot(
+  name: string,
+  repository: SnapshotRepositoryConfig = getSnapshotRepository()
+): Promise<void> {
+  await opensearchClient.snapshot.delete({
+    repository: repository.name,
+    snapshot: name,
+  });
+}
@@ -0,0 +1,45 @@
+import { opensearchClient } from "../config/opensearch.config";
+
+export interface ReindexTaskProgress {
+  total: number;
+  created: number;
+  updated: number;
+  conflicts: number;
+}
+
+export interface WaitForTaskOptions {
+  pollIntervalMs: number;
+  onProgress?: (progress: ReindexTaskProgress) => void;
+}
+
+/**
+ * Polls a reindex started with `wait_for_completion: false` through the
+ * tasks API until it completes, reporting its status on every poll.
+ * Resolves with the reindex response (created, version_conflicts, failures).
+ */
+export async function waitForReindexTask(
+  taskId: string,
+  label: string,
+  options: WaitForTaskOptions
+): Promise<any> {
+  for (;;) {
+    const { body } = await opensearchClient.tasks.get({ task_id: taskId });
+    const status: any = body.task?.status ?? {};
+    options.onProgress?.({
+      total: status.total ?? 0,
+      created: status.created ?? 0,
+      updated: status.updated ?? 0,
+      conflicts: status.version_conflicts ?? 0,
+    });
+
+    if (body.completed) {
+      if (body.error) {
+        throw new Error(
+          `Reindex of ${label} failed: ${body.error.reason ?? body.error.type}`
+        );
+      }
+      return body.response ?? {};
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs));
+  }
+}
@@ -0,0 +1,343 @@
+import { opensearchClient } from "../config/opensearch.config";
+import { isRolloverBackingIndex } from "./index-resolver";
+import { LOG_INDEX_TEMPLATE, LOG_TEMPLATE_VERSION } from "./index-template";
+import { ReindexTaskProgress, waitForReindexTask } from "./tasks";
+
+export interface TemplateMigration {
+  version: number;
+  description: string;
+  // Painless script run on each document when reindexing an index created
+  // with an older version
+  script?: string;
+}
+
+/**
+ * Every version of LOG_INDEX_TEMPLATE, oldest first. Indices without a
+ * version in their mapping `_meta` predate version tracking and count as
+ * version 1.
+ */
+export const LOG_TEMPLATE_MIGRATIONS: TemplateMigration[] = [
+  { version: 1, description: "Initial log mappings" },
+  {
+    version: 2,
+    description:
+      "Template version in _meta; request.ua (browser, os, device_type, is_bot)",
+  },
+];
+
+type MappingProperties = Record<string, any>;
+
+export interface MappingChange {
+  path: string;
+  // Relative to the index: "added" fields are only in the template
+  change: "added" | "removed" | "changed";
+  from?: string;
+  to?: string;
+}
+
+export interface IndexMigrationStatus {
+  index: string;
+  version: number;
+  outdated: boolean;
+  changes: MappingChange[];
+  aliases: string[];
+  // Write index of an alias (rollover layout); cannot be swapped safely
+  writeIndex: boolean;
+}
+
+export interface IndexMigrationPlan {
+  source: string;
+  target: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: MappingChange[];
+  script?: string;
+  // Point at the target after the swap; includes the source name so
+  // existing references keep working
+  aliases: string[];
+}
+
+export interface IndexMigrationResult {
+  source: string;
+  target: string;
+  sourceDocs: number;
+  targetDocs: number;
+  created: number;
+  conflicts: number;
+  // Documents a script skipped (`ctx.op = 'noop'`)
+  noops: number;
+  durationMs: number;
+}
+
+export interface MigrateIndexOptions {
+  pollIntervalMs: number;
+  onProgress?: (progress: ReindexTaskProgress) => void;
+}
+
+const VERSION_SUFFIX = /-v\d+$/;
+
+function describeField(definition: Record<string, any>): string {
+  const { properties, type, ...params } = definition;
+  const name = type ?? "object";
+  const keys = Object.keys(params).sort();
+  if (keys.length === 0) return name;
+  const sorted = Object.fromEntries(keys.map((key) => [key, params[key]]));
+  return `${name} ${JSON.stringify(sorted)}`;
+}
+
+/**
+ * Field-level differences between two mappings (`properties` objects),
+ * walking object fields recursively. Paths use dot notation.
+ */
+export function diffMappings(
+  from: MappingProperties = {},
+  to: MappingProperties = {},
+  prefix = ""
+): MappingChange[] {
+  const changes: MappingChange[] = [];
+  const fields = [
+    ...new Set([...Object.keys(from), ...Object.keys(to)]),
+  ].sort();
+
+  for (const field of fields) {
+    const path = prefix ? `${prefix}.${field}` : field;
+    const before = from[field];
+    const after = to[field];
+
+    if (before === undefined) {
+      changes.push({ path, change: "added", to: describeField(after) });
+    } else if (after === undefined) {
+      changes.push({ path, change: "removed", from: describeField(before) });
+    } else if (before.properties && after.properties) {
+      if (describeField(before) !== describeField(after)) {
+        changes.push({
+          path,
+          change: "changed",
+          from: describeField(before),
+          to: describeField(after),
+        });
+      }
+      changes.push(...diffMappings(before.properties, after.properties, path));
+    } else if (describeField(before) !== describeField(after)) {
+      changes.push({
+        path,
+        change: "changed",
+        from: describeField(before),
+        to: describeField(after),
+      });
+    }
+  }
+
+  return changes;
+}
+
+export function getTemplateVersion(mapping?: {
+  _meta?: Record<string, unknown>;
+}): number {
+  const version = Number(mapping?._meta?.template_version);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * Painless scripts of every migration after `fromVersion`, followed by an
+ * optional extra script, joined into one. Undefined when there is none.
+ */
+export function buildMigrationScript(
+  fromVersion: number,
+  extraScript?: string,
+  toVersion: number = LOG_TEMPLATE_VERSION
+): string | undefined {
+  const scripts = LOG_TEMPLATE_MIGRATIONS.filter(
+    (migration) =>
+      migration.version > fromVersion && migration.version <= toVersion
+  )
+    .map((migration) => migration.script)
+    .concat(extraScript)
+    .filter((script): script is string => Boolean(script?.trim()));
+
+  return scripts.length > 0 ? scripts.join("\n") : undefined;
+}
+
+export function migrationTargetName(index: string, version: number): string {
+  return `${index.replace(VERSION_SUFFIX, "")}-v${version}`;
+}
+
+/**
+ * Template version, aliases and mapping differences of every index matching
+ * `pattern`, sorted by name.
+ */
+export async function getMigrationStatus(
+  pattern: string
+): Promise<IndexMigrationStatus[]> {
+  let mappings: Record<string, { mappings?: any }>;
+  let aliases: Record<string, { aliases?: Record<string, any> }>;
+  try {
+    const [mappingResponse, aliasResponse] = await Promise.all([
+      opensearchClient.indices.getMapping({ index: pattern }),
+      opensearchClient.indices.getAlias({ index: pattern }),
+    ]);
+    mappings = mappingResponse.body as typeof mappings;
+    aliases = aliasResponse.body as typeof aliases;
+  } catch (error: any) {
+    if (error.meta?.statusCode === 404) return [];
+    throw error;
+  }
+
+  const templateProperties = LOG_INDEX_TEMPLATE.template.mappings.properties;
+  return Object.entries(mappings)
+    .map(([index, { mappings: mapping }]) => {
+      const version = getTemplateVersion(mapping);
+      const indexAliases = aliases[index]?.aliases ?? {};
+      return {
+        index,
+        version,
+        outdated: version < LOG_TEMPLATE_VERSION,
+        changes: diffMappings(mapping?.properties, templateProperties),
+        aliases: Object.keys(indexAliases).sort(),
+        writeIndex: Object.values(indexAliases).some(
+          (alias) => alias?.is_write_index === true
+        ),
+      };
+    })
+    .sort((a, b) => a.index.localeCompare(b.index));
+}
+
+export function planIndexMigration(
+  status: IndexMigrationStatus,
+  extraScript?: string
+): IndexMigrationPlan {
+  if (status.writeIndex) {
+    throw new Error(
+      `${status.index} is the write index of an alias; roll it over before migrating`
+    );
+  }
+  // Its <index>-vN copy would match the rollover template and policy too:
+  // joining logs-read mid-copy and failing the rollover as a non-write index
+  if (isRolloverBackingIndex(status.index)) {
+    throw new Error(
+      `${status.index} is a rollover backing index; its copy would join logs-read and the rollover policy while being filled`
+    );
+  }
+
+  const aliases = VERSION_SUFFIX.test(status.index)
+    ? status.aliases
+    : [status.index, ...status.aliases];
+
+  return {
+    source: status.index,
+    target: migrationTargetName(status.index, LOG_TEMPLATE_VERSION),
+    fromVersion: status.version,
+    toVersion: LOG_TEMPLATE_VERSION,
+    changes: status.changes,
+    script: buildMigrationScript(status.version, extraScript),
+    aliases,
+  };
+}
+
+async function countDocuments(index: string): Promise<number> {
+  const response = await opensearchClient.count({ index });
+  return response.body.count;
+}
+
+async function setWriteBlock(index: string, blocked: boolean): Promise<void> {
+  await opensearchClient.indices.putSettings({
+    index,
+    body: { "index.blocks.write": blocked },
+  });
+}
+
+/**
+ * Reindexes `plan.source` into `plan.target` (created from the current
+ * template) and swaps the aliases over in one atomic request that also
+ * deletes the source. Writes to the source are blocked while copying so
+ * nothing is lost; on failure the block is lifted and the source kept.
+ * A leftover target from an interrupted run is reused.
+ */
+export async function migrateIndex(
+  plan: IndexMigrationPlan,
+  options: MigrateIndexOptions
+): Promise<IndexMigrationResult> {
+  const startTime = Date.now();
+  await setWriteBlock(plan.source, true);
+
+  try {
+    const exists = await opensearchClient.indices.exists({
+      index: plan.target,
+    });
+    if (!exists.body) {
+      await opensearchClient.indices.create({
+        index: plan.target,
+        body: {
+          settings: {
+            analysis: LOG_INDEX_TEMPLATE.template.settings.analysis as any,
+          },
+          mappings: LOG_INDEX_TEMPLATE.template.mappings as any,
+        },
+      });
+    }
+
+    const { body } = await opensearchClient.reindex({
+      wait_for_completion: false,
+      body: {
+        conflicts: "proceed",
+        source: { index: plan.source },
+        dest: { index: plan.target, op_type: "create" },
+        ...(plan.script
+          ? { script: { lang: "painless", source: plan.script } }
+          : {}),
+      },
+    });
+    // With wait_for_completion=false the body only carries the task id
+    const response = await waitForReindexTask(
+      String((body as any).task),
+      plan.source,
+      options
+    );
+
+    const failures: any[] = response.failures ?? [];
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length} documents failed, first: ${
+          failures[0].cause?.reason ?? "unknown"
+        }`
+      );
+    }
+
+    await opensearchClient.indices.refresh({ index: plan.target });
+    const [sourceDocs, targetDocs] = await Promise.all([
+      countDocuments(plan.source),
+      countDocuments(plan.target),
+    ]);
+    const noops = response.noops ?? 0;
+    if (targetDocs + noops < sourceDocs) {
+      throw new Error(
+        `only ${targetDocs} of ${sourceDocs} documents reached ${plan.target}`
+      );
+    }
+
+    await opensearchClient.indices.updateAliases({
+      body: {
+        actions: [
+          ...plan.aliases.map((alias) => ({
+            add: { index: plan.target, alias },
+          })),
+          { remove_index: { index: plan.source } },
+        ],
+      },
+    });
+
+    return {
+      source: plan.source,
+      target: plan.target,
+      sourceDocs,
+      targetDocs,
+      created: response.created ?? 0,
+      conflicts: response.version_conflicts ?? 0,
+      noops,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    await setWriteBlock(plan.source, false).catch(() => undefined);
+    throw error;
+  }
+}
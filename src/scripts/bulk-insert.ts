@@ -2,42 +2,151 @@ import { Transform } from "stream";
 import { opensearchClient } from "../config/opensearch.config";
 import { LogEntry } from "../types/log.types";
 import { ErrorLogger } from "./utils/error-logger";
+import { DeadLetterQueue } from "./utils/dead-letter-queue";
+import { RetryPolicy, RetryPolicyOptions, sleep } from "./utils/retry-policy";
+import {
+  AdaptiveController,
+  AdaptiveOptions,
+  AdaptiveSnapshot,
+} from "./utils/adaptive-controller";
 
 interface BulkInsertOptions {
   indexName: string;
+  // Per-document routing (e.g. daily index by timestamp); defaults to indexName
+  resolveIndex?: (doc: LogEntry) => string;
   batchSize: number;
+  // Flushes before the serialized NDJSON payload would exceed this size, so
+  // requests stay under the cluster's http.max_content_length
+  maxBatchBytes?: number;
   concurrency?: number;
   serialization?: "ndjson";
+  // Uses LogEntry.id as _id with the `create` op type so re-running an
+  // ingestion skips documents that are already indexed
+  idempotent?: boolean;
+  // Target is a data stream: documents are sent with `create` (the only op
+  // type streams accept) and get `@timestamp` from their timestamp. A
+  // predicate decides per target index when they are mixed (replays)
+  dataStream?: boolean | ((index: string) => boolean);
   errorLogger?: ErrorLogger;
+  deadLetterQueue?: DeadLetterQueue;
+  retry?: RetryPolicyOptions;
+  // Sizes batches by payload bytes and tunes in-flight requests from observed
+  // latency and throttling; batchSize and concurrency are ignored when set
+  adaptive?: AdaptiveOptions;
 }
 
-interface BulkInsertMetrics {
+interface BufferedDocument {
+  doc: LogEntry;
+  index: string;
+  // Action and source lines, newline-terminated
+  ndjson: string;
+  bytes: number;
+}
+
+interface BulkItemFailure {
+  entry: BufferedDocument;
+  result: any;
+}
+
+// Emitted as "batchAcknowledged" once every document of a batch was either
+// indexed or given up on (logged / dead-lettered)
+export interface BatchAcknowledgement {
+  batchIndex: number;
+  documents: number;
+  lastDocument: LogEntry;
+}
+
+export interface BulkInsertMetrics {
   batches: number;
   totalInserted: number;
   failedDocuments: number;
+  // Documents skipped in idempotent mode because their _id already existed
+  duplicates: number;
+  // Bulk requests re-sent after a transient failure
+  retries: number;
+  // Documents re-sent across all retries
+  retriedDocuments: number;
+  // Documents that still failed with a retryable error after the last attempt
+  retriesExhausted: number;
   averageBatchSize: number;
   totalDurationMs: number;
   averageBatchDurationMs: number;
   maxBatchDurationMs: number;
+  totalBytes: number;
+  averageBatchBytes: number;
+  largestBatchBytes: number;
+  // Payload bytes over the wall-clock time between the first request and the
+  // last response
+  throughputMBps: number;
+  adaptive?: AdaptiveSnapshot;
+}
+
+const VERSION_CONFLICT = "version_conflict_engine_exception";
+
+/**
+ * Serializes documents into a bulk request body: one action line plus one
+ * source line per document, newline-terminated.
+ */
+export function serializeNdjsonBatch(
+  batch: LogEntry[],
+  indexFor: (doc: LogEntry) => string,
+  idempotent: boolean = false,
+  dataStream: boolean = false
+): string {
+  return batch
+    .map((doc) =>
+      serializeNdjsonDocument(doc, indexFor(doc), idempotent, dataStream)
+    )
+    .join("");
+}
+
+function serializeNdjsonDocument(
+  doc: LogEntry,
+  index: string,
+  idempotent: boolean,
+  dataStream: boolean
+): string {
+  const action = idempotent
+    ? { create: { _index: index, _id: doc.id } }
+    : dataStream
+    ? { create: { _index: index } }
+    : { index: { _index: index } };
+  const source = dataStream ? { "@timestamp": doc.timestamp, ...doc } : doc;
+  return JSON.stringify(action) + "\n" + JSON.stringify(source) + "\n";
 }
 
 export class BulkInsertTransform extends Transform {
-  private buffer: LogEntry[] = [];
+  private buffer: BufferedDocument[] = [];
+  private bufferBytes = 0;
   private totalInserted = 0;
   private readonly options: BulkInsertOptions;
   private readonly concurrency: number;
   private readonly serializationMode: "ndjson";
   private readonly errorLogger?: ErrorLogger;
+  private readonly deadLetterQueue?: DeadLetterQueue;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly adaptive?: AdaptiveController;
   private pendingFlushes: Set<Promise<void>> = new Set();
   private flushError: Error | null = null;
   private batchIndex = 0;
-  private metrics: Omit<BulkInsertMetrics, "averageBatchSize"> = {
+  private firstRequestAt: number | null = null;
+  private lastResponseAt: number | null = null;
+  private metrics: Omit<
+    BulkInsertMetrics,
+    "averageBatchSize" | "averageBatchBytes" | "throughputMBps" | "adaptive"
+  > = {
     batches: 0,
     totalInserted: 0,
     failedDocuments: 0,
+    duplicates: 0,
+    retries: 0,
+    retriedDocuments: 0,
+    retriesExhausted: 0,
     totalDurationMs: 0,
     averageBatchDurationMs: 0,
     maxBatchDurationMs: 0,
+    totalBytes: 0,
+    largestBatchBytes: 0,
   };
 
   constructor(options: BulkInsertOptions) {
@@ -46,6 +155,11 @@ export class BulkInsertTransform extends Transform {
     this.concurrency = Math.max(1, options.concurrency ?? 1);
     this.serializationMode = options.serialization ?? "ndjson";
     this.errorLogger = options.errorLogger;
+    this.deadLetterQueue = options.deadLetterQueue;
+    this.retryPolicy = new RetryPolicy(options.retry);
+    this.adaptive = options.adaptive
+      ? new AdaptiveController(options.adaptive)
+      : undefined;
 
     this.on("error", (error) => {
       this.errorLogger?.logStreamError(
@@ -61,35 +175,50 @@ export class BulkInsertTransform extends Transform {
     encoding: string,
     callback: (error?: Error | null, data?: any) => void
   ): Promise<void> {
-    this.buffer.push(chunk);
+    let entry: BufferedDocument;
+    try {
+      entry = this.serialize(chunk);
+    } catch (error) {
+      const err = error as Error;
+      this.errorLogger?.logSerializationError(
+        "BulkInsertTransform",
+        `Failed to serialize document: ${err.message}`,
+        err,
+        { document: chunk }
+      );
+      callback(err);
+      return;
+    }
 
-    if (this.buffer.length >= this.options.batchSize) {
-      const batch = this.buffer;
-      this.buffer = [];
-      try {
-        this.scheduleFlush(batch);
-        await this.waitForAvailableSlot();
-        if (this.flushError) {
-          callback(this.flushError);
-          return;
-        }
-        callback();
-      } catch (error) {
-        callback(error as Error);
+    try {
+      if (this.wouldExceedMaxBytes(entry.bytes)) {
+        await this.flushBuffer();
+      }
+
+      this.buffer.push(entry);
+      this.bufferBytes += entry.bytes;
+
+      if (this.isBatchFull()) {
+        await this.flushBuffer();
+      }
+
+      if (this.flushError) {
+        callback(this.flushError);
+        return;
       }
-    } else {
       callback();
+    } catch (error) {
+      callback(error as Error);
     }
   }
 
   async _flush(callback: (error?: Error | null) => void): Promise<void> {
     try {
       if (this.buffer.length > 0) {
-        const batch = this.buffer;
-        this.buffer = [];
-        this.scheduleFlush(batch);
+        this.scheduleFlush(this.takeBuffer());
       }
       await Promise.all([...this.pendingFlushes]);
+      this.deadLetterQueue?.flush();
       if (this.flushError) {
         callback(this.flushError);
       } else {
@@ -106,11 +235,36 @@ export class BulkInsertTransform extends Transform {
   ): void {
     this.pendingFlushes.clear();
     this.buffer = [];
+    this.bufferBytes = 0;
     this.flushError = error || this.flushError;
     callback(this.flushError);
   }
 
-  private scheduleFlush(batch: LogEntry[]): void {
+  private serialize(doc: LogEntry): BufferedDocument {
+    const index = this.resolveIndexFor(doc);
+    const { dataStream = false } = this.options;
+    const ndjson = serializeNdjsonDocument(
+      doc,
+      index,
+      this.options.idempotent ?? false,
+      typeof dataStream === "function" ? dataStream(index) : dataStream
+    );
+    return { doc, index, ndjson, bytes: Buffer.byteLength(ndjson) };
+  }
+
+  private takeBuffer(): BufferedDocument[] {
+    const batch = this.buffer;
+    this.buffer = [];
+    this.bufferBytes = 0;
+    return batch;
+  }
+
+  private async flushBuffer(): Promise<void> {
+    this.scheduleFlush(this.takeBuffer());
+    await this.waitForAvailableSlot();
+  }
+
+  private scheduleFlush(batch: BufferedDocument[]): void {
     if (batch.length === 0) return;
 
     const promise = this.sendBatch(batch)
@@ -125,112 +279,253 @@ export class BulkInsertTransform extends Transform {
     this.pendingFlushes.add(promise);
   }
 
-  private waitForAvailableSlot(): Promise<void> | void {
-    if (this.pendingFlushes.size < this.concurrency) {
-      return;
-    }
+  private byteLimit(): number {
+    return Math.min(
+      this.options.maxBatchBytes ?? Infinity,
+      this.adaptive?.batchBytes ?? Infinity
+    );
+  }
 
-    return Promise.race(this.pendingFlushes);
+  private wouldExceedMaxBytes(bytes: number): boolean {
+    return (
+      this.buffer.length > 0 && this.bufferBytes + bytes > this.byteLimit()
+    );
   }
 
-  private async sendBatch(batch: LogEntry[]): Promise<void> {
-    const currentBatchIndex = this.batchIndex++;
-    let body: string;
+  // Whichever limit is hit first: document count (fixed mode) or bytes
+  private isBatchFull(): boolean {
+    if (!this.adaptive && this.buffer.length >= this.options.batchSize) {
+      return true;
+    }
+    return this.bufferBytes >= this.byteLimit();
+  }
 
-    try {
-      body = this.serializeNdjsonBatch(batch);
-    } catch (error) {
-      const err = error as Error;
-      this.errorLogger?.logSerializationError(
-        "BulkInsertTransform",
-        `Failed to serialize batch ${currentBatchIndex}: ${err.message}`,
-        err,
-        { document: batch[0] }
-      );
-      throw error;
+  private async waitForAvailableSlot(): Promise<void> {
+    // The adaptive limit can shrink below the number of requests in flight
+    while (
+      this.pendingFlushes.size >=
+      (this.adaptive ? this.adaptive.concurrency : this.concurrency)
+    ) {
+      await Promise.race(this.pendingFlushes);
     }
+  }
 
+  private async sendBatch(batch: BufferedDocument[]): Promise<void> {
+    const currentBatchIndex = this.batchIndex++;
     const start = Date.now();
-    try {
-      const response = await opensearchClient.bulk({
-        body: body as any,
-        refresh: false,
-        wait_for_active_shards: 1,
-      });
+    const batchBytes = batch.reduce((sum, entry) => sum + entry.bytes, 0);
+    this.firstRequestAt = this.firstRequestAt ?? start;
+    let pending = batch;
+    let successfulDocuments = 0;
 
-      const batchDuration = Date.now() - start;
-      this.metrics.batches += 1;
-      const errors = response.body.errors
-        ? response.body.items.filter((item: any) => item.index?.error)
-        : [];
-      const successfulDocuments = batch.length - errors.length;
-
-      this.metrics.totalInserted += successfulDocuments;
-      this.metrics.totalDurationMs += batchDuration;
-      this.metrics.maxBatchDurationMs = Math.max(
-        this.metrics.maxBatchDurationMs,
-        batchDuration
-      );
+    // Only the documents that failed with a retryable error are resubmitted
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      let failures: BulkItemFailure[];
+      const requestStart = Date.now();
+      try {
+        const result = await this.executeBulk(pending);
+        failures = result.failures;
+        this.adaptive?.record({
+          latencyMs: Date.now() - requestStart,
+          documents: pending.length,
+          bytes: result.bytes,
+          rejected: failures.filter((failure) =>
+            this.retryPolicy.isRetryableItem(
+              failure.result.status,
+              failure.result.error.type
+            )
+          ).length,
+        });
+      } catch (error) {
+        const err = error as Error;
+        if (
+          this.retryPolicy.canRetry(attempt) &&
+          this.retryPolicy.isRetryableRequestError(error)
+        ) {
+          this.adaptive?.record({
+            latencyMs: Date.now() - requestStart,
+            documents: pending.length,
+            bytes: 0,
+            rejected: pending.length,
+          });
+          console.warn(
+            `Bulk request for batch ${currentBatchIndex} failed (${
+              err.message
+            }), retrying (attempt ${attempt + 1}/${
+              this.retryPolicy.maxAttempts
+            })`
+          );
+          this.metrics.retries += 1;
+          this.metrics.retriedDocuments += pending.length;
+          await sleep(this.retryPolicy.delayFor(attempt));
+          continue;
+        }
 
-      if (errors.length > 0) {
-        this.metrics.failedDocuments += errors.length;
-        console.error(
-          `Errors in bulk insert: ${errors.length} documents failed in batch ${currentBatchIndex}`
+        this.errorLogger?.logConnectionError(
+          "BulkInsertTransform",
+          `Bulk insert request failed for batch ${currentBatchIndex}: ${err.message}`,
+          err
         );
+        console.error("Bulk insert failed:", error);
+        throw error;
+      }
 
-        errors.forEach((errorItem: any, idx: number) => {
-          const itemIndex = response.body.items.findIndex(
-            (item: any) =>
-              item.index?.error &&
-              item.index.error.type === errorItem.index.error.type
-          );
-          const docIndex = itemIndex >= 0 ? itemIndex : idx;
-          const failedDoc = docIndex < batch.length ? batch[docIndex] : null;
-
-          this.errorLogger?.logInsertionError(
-            "BulkInsertTransform",
-            `Document insertion failed: ${errorItem.index.error.type} - ${errorItem.index.error.reason}`,
-            {
-              documentId: failedDoc?.id,
-              document: failedDoc,
-              batchIndex: currentBatchIndex,
-              opensearchError: {
-                type: errorItem.index.error.type,
-                reason: errorItem.index.error.reason,
-              },
-            }
-          );
+      // A conflicting `create` means a previous run already indexed the doc
+      const duplicates = this.options.idempotent
+        ? failures.filter(
+            (failure) => failure.result.error.type === VERSION_CONFLICT
+          ).length
+        : 0;
+      if (duplicates > 0) {
+        failures = failures.filter(
+          (failure) => failure.result.error.type !== VERSION_CONFLICT
+        );
+        this.metrics.duplicates += duplicates;
+      }
 
-          if (idx < 5) {
-            console.error(
-              `  [${idx}] reason: ${errorItem.index.error.type} - ${errorItem.index.error.reason}`
-            );
-          }
-        });
+      successfulDocuments += pending.length - failures.length - duplicates;
 
-        if (errors.length > 5) {
-          console.error(
-            `  ...and ${
-              errors.length - 5
-            } more error entries (see error log file for details)`
-          );
+      const retryable: BulkItemFailure[] = [];
+      const terminal: BulkItemFailure[] = [];
+      for (const failure of failures) {
+        const isRetryable = this.retryPolicy.isRetryableItem(
+          failure.result.status,
+          failure.result.error.type
+        );
+        if (isRetryable && this.retryPolicy.canRetry(attempt)) {
+          retryable.push(failure);
+        } else {
+          if (isRetryable) this.metrics.retriesExhausted += 1;
+          terminal.push(failure);
         }
       }
 
-      this.totalInserted += successfulDocuments;
-      this.push({ inserted: successfulDocuments, total: this.totalInserted });
-    } catch (error) {
-      const err = error as Error;
-      this.errorLogger?.logConnectionError(
+      this.reportFailures(terminal, currentBatchIndex);
+
+      if (retryable.length > 0) {
+        this.metrics.retries += 1;
+        this.metrics.retriedDocuments += retryable.length;
+        await sleep(this.retryPolicy.delayFor(attempt));
+      }
+      pending = retryable.map((failure) => failure.entry);
+    }
+
+    this.lastResponseAt = Date.now();
+    const batchDuration = this.lastResponseAt - start;
+    this.metrics.batches += 1;
+    this.metrics.totalBytes += batchBytes;
+    this.metrics.largestBatchBytes = Math.max(
+      this.metrics.largestBatchBytes,
+      batchBytes
+    );
+    this.metrics.totalInserted += successfulDocuments;
+    this.metrics.totalDurationMs += batchDuration;
+    this.metrics.maxBatchDurationMs = Math.max(
+      this.metrics.maxBatchDurationMs,
+      batchDuration
+    );
+
+    this.totalInserted += successfulDocuments;
+    // Duplicates count towards progress: they are already in the index
+    this.push({
+      inserted: successfulDocuments,
+      total: this.totalInserted + this.metrics.duplicates,
+    });
+
+    const acknowledgement: BatchAcknowledgement = {
+      batchIndex: currentBatchIndex,
+      documents: batch.length,
+      lastDocument: batch[batch.length - 1].doc,
+    };
+    this.emit("batchAcknowledged", acknowledgement);
+  }
+
+  private async executeBulk(
+    batch: BufferedDocument[]
+  ): Promise<{ failures: BulkItemFailure[]; bytes: number }> {
+    const body = batch.map((entry) => entry.ndjson).join("");
+
+    const response = await opensearchClient.bulk({
+      body: body as any,
+      refresh: false,
+      wait_for_active_shards: 1,
+    });
+
+    // Bulk response items keep the order of the request, one per document
+    const failures: BulkItemFailure[] = response.body.errors
+      ? response.body.items.flatMap((item: any, position: number) =>
+          (item.index ?? item.create)?.error
+            ? [{ entry: batch[position], result: item.index ?? item.create }]
+            : []
+        )
+      : [];
+
+    return { failures, bytes: Buffer.byteLength(body) };
+  }
+
+  private reportFailures(
+    errors: BulkItemFailure[],
+    currentBatchIndex: number
+  ): void {
+    if (errors.length === 0) {
+      return;
+    }
+
+    this.metrics.failedDocuments += errors.length;
+    console.error(
+      `Errors in bulk insert: ${errors.length} documents failed in batch ${currentBatchIndex}`
+    );
+
+    errors.forEach(({ entry, result }, idx: number) => {
+      const doc = entry.doc;
+      const opensearchError = {
+        type: result.error.type,
+        reason: result.error.reason,
+      };
+
+      this.errorLogger?.logInsertionError(
         "BulkInsertTransform",
-        `Bulk insert request failed for batch ${currentBatchIndex}: ${err.message}`,
-        err
+        `Document insertion failed: ${opensearchError.type} - ${opensearchError.reason}`,
+        {
+          documentId: doc?.id,
+          document: doc,
+          batchIndex: currentBatchIndex,
+          opensearchError,
+        }
+      );
+
+      this.deadLetterQueue?.write({
+        source: "BulkInsertTransform",
+        stage: "insertion",
+        errors: [opensearchError],
+        // The logical target (alias or data stream), not the backing index
+        // in result._index, so replays go through the same write path
+        index: entry.index,
+        document: doc,
+      });
+
+      if (idx < 5) {
+        console.error(
+          `  [${idx}] reason: ${opensearchError.type} - ${opensearchError.reason}`
+        );
+      }
+    });
+
+    if (errors.length > 5) {
+      console.error(
+        `  ...and ${
+          errors.length - 5
+        } more error entries (see error log file for details)`
       );
-      console.error("Bulk insert failed:", error);
-      throw error;
     }
   }
 
+  private resolveIndexFor(doc: LogEntry): string {
+    return this.options.resolveIndex
+      ? this.options.resolveIndex(doc)
+      : this.options.indexName;
+  }
+
   getTotalInserted(): number {
     return this.totalInserted;
   }
@@ -240,6 +535,18 @@ export class BulkInsertTransform extends Transform {
       this.metrics.batches === 0
         ? 0
         : this.metrics.totalInserted / this.metrics.batches;
+    const averageBatchBytes =
+      this.metrics.batches === 0
+        ? 0
+        : this.metrics.totalBytes / this.metrics.batches;
+    const wallClockSeconds =
+      this.firstRequestAt !== null && this.lastResponseAt !== null
+        ? Math.max(1, this.lastResponseAt - this.firstRequestAt) / 1000
+        : 0;
+    const throughputMBps =
+      wallClockSeconds > 0
+        ? this.metrics.totalBytes / 1024 / 1024 / wallClockSeconds
+        : 0;
     const averageBatchDurationMs =
       this.metrics.batches === 0
         ? 0
@@ -249,19 +556,19 @@ export class BulkInsertTransform extends Transform {
       batches: this.metrics.batches,
       totalInserted: this.metrics.totalInserted,
       failedDocuments: this.metrics.failedDocuments,
+      duplicates: this.metrics.duplicates,
+      retries: this.metrics.retries,
+      retriedDocuments: this.metrics.retriedDocuments,
+      retriesExhausted: this.metrics.retriesExhausted,
       averageBatchSize,
       totalDurationMs: this.metrics.totalDurationMs,
       averageBatchDurationMs,
       maxBatchDurationMs: this.metrics.maxBatchDurationMs,
+      totalBytes: this.metrics.totalBytes,
+      averageBatchBytes,
+      largestBatchBytes: this.metrics.largestBatchBytes,
+      throughputMBps,
+      adaptive: this.adaptive?.getSnapshot(),
     };
   }
-
-  private serializeNdjsonBatch(batch: LogEntry[]): string {
-    const lines: string[] = [];
-    for (const doc of batch) {
-      lines.push(JSON.stringify({ index: { _index: this.options.indexName } }));
-      lines.push(JSON.stringify(doc));
-    }
-    return lines.join("\n") + "\n";
-  }
 }
@@ -0,0 +1,265 @@
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import * as fs from "fs";
+import { BulkInsertTransform } from "./bulk-insert";
+import { ProgressTracker } from "./progress-tracker";
+import { LogEntry } from "../types/log.types";
+import { ErrorLogger } from "./utils/error-logger";
+import {
+  DeadLetterFilter,
+  DeadLetterQueue,
+  DeadLetterStage,
+  readDeadLetterRecords,
+  resolveReplayTarget,
+} from "./utils/dead-letter-queue";
+import { testConnection, closeClient } from "../config/opensearch.config";
+import {
+  isLogDataStream,
+  resolveWriteIndex,
+} from "../opensearch/index-resolver";
+
+interface ReplayOptions {
+  file?: string;
+  errorTypes: string[];
+  stage?: DeadLetterStage;
+  indexName?: string;
+  batchSize: number;
+  concurrency: number;
+  idempotent: boolean;
+  dryRun: boolean;
+}
+
+interface ReplaySummary {
+  total: number;
+  byErrorType: Record<string, number>;
+  byIndex: Record<string, number>;
+}
+
+function parseArgs(): ReplayOptions {
+  const args = process.argv.slice(2);
+  const options: ReplayOptions = {
+    errorTypes: [],
+    batchSize: 1000,
+    concurrency: 1,
+    idempotent: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      options.file = arg;
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--file":
+        if (value) options.file = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--error-type":
+      case "--error-types":
+        if (value) {
+          options.errorTypes = value.split(",").map((s) => s.trim());
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--stage":
+        if (value === "validation" || value === "insertion") {
+          options.stage = value;
+        } else {
+          console.warn(`Stage must be "validation" or "insertion". Ignored.`);
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--index":
+        if (value) options.indexName = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--batch":
+      case "--batch-size":
+        if (value) options.batchSize = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--concurrency":
+        if (value) options.concurrency = Math.max(1, Number(value));
+        if (!arg.includes("=")) i++;
+        break;
+      case "--idempotent":
+        options.idempotent = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+async function summarize(
+  file: string,
+  filter: DeadLetterFilter
+): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { total: 0, byErrorType: {}, byIndex: {} };
+
+  for await (const record of readDeadLetterRecords(file, filter)) {
+    summary.total++;
+    record.errors.forEach((error) => {
+      summary.byErrorType[error.type] =
+        (summary.byErrorType[error.type] || 0) + 1;
+    });
+    const index = record.index ?? "(unknown)";
+    summary.byIndex[index] = (summary.byIndex[index] || 0) + 1;
+  }
+
+  return summary;
+}
+
+async function runReplay(): Promise<void> {
+  const options = parseArgs();
+
+  if (!options.file || !fs.existsSync(options.file)) {
+    console.error(
+      "Usage: npm run dlq:replay -- --file=<dead-letter.ndjson> [--error-type=a,b] [--stage=insertion] [--index=name] [--dry-run]"
+    );
+    process.exit(1);
+    return;
+  }
+
+  const filter: DeadLetterFilter = {
+    errorTypes: options.errorTypes,
+    stage: options.stage,
+  };
+  const summary = await summarize(options.file, filter);
+
+  console.log(
+    `\nDead-letter replay: ${summary.total.toLocaleString()} documents from ${
+      options.file
+    }`
+  );
+  console.log("\nBy error type:");
+  console.table(summary.byErrorType);
+  console.log("By index:");
+  console.table(summary.byIndex);
+
+  if (options.dryRun || summary.total === 0) {
+    if (options.dryRun) {
+      console.log("Dry run: nothing was ingested.");
+    }
+    process.exit(0);
+    return;
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  const errorLogger = new ErrorLogger(
+    "./logs",
+    `errors-dlq-replay-${Date.now()}.json`
+  );
+  const deadLetterQueue = new DeadLetterQueue(
+    "./logs/dead-letter",
+    `dlq-replay-${Date.now()}.ndjson`
+  );
+
+  // Documents go back to the index they were originally bound for (see
+  // resolveReplayTarget); those without a routable target are dead-lettered
+  // again instead of aborting the replay
+  const targets = new WeakMap<LogEntry, string>();
+  let unroutable = 0;
+
+  async function* documents(): AsyncGenerator<LogEntry> {
+    for await (const record of readDeadLetterRecords(options.file!, filter)) {
+      const document = record.document as LogEntry;
+      const target = resolveReplayTarget(record, options.indexName);
+      if (!target) {
+        unroutable++;
+        deadLetterQueue.write({
+          source: "dlq-replay",
+          stage: record.stage,
+          errors: [
+            ...record.errors,
+            {
+              type: "unroutable",
+              reason: "no index and no valid timestamp; replay with --index",
+            },
+          ],
+          document,
+        });
+        continue;
+      }
+      targets.set(document, target);
+      yield document;
+    }
+  }
+
+  const bulkInsertStream = new BulkInsertTransform({
+    indexName: options.indexName ?? resolveWriteIndex(new Date()),
+    resolveIndex: (doc) => targets.get(doc)!,
+    batchSize: options.batchSize,
+    concurrency: options.concurrency,
+    idempotent: options.idempotent,
+    // Data streams only accept `create` with an @timestamp
+    dataStream: isLogDataStream,
+    errorLogger,
+    deadLetterQueue,
+  });
+
+  const startTime = Date.now();
+  try {
+    await pipeline([
+      Readable.from(documents()),
+      bulkInsertStream,
+      new ProgressTracker(summary.total),
+    ]);
+  } catch (error) {
+    console.error("Replay failed:", error);
+    errorLogger.flush();
+    deadLetterQueue.flush();
+    await closeClient();
+    process.exit(1);
+    return;
+  }
+
+  const metrics = bulkInsertStream.getMetrics();
+  const totalTime = (Date.now() - startTime) / 1000;
+
+  console.log(
+    `\nReplayed: ${metrics.totalInserted.toLocaleString()}/${summary.total.toLocaleString()} documents in ${totalTime.toFixed(
+      2
+    )}s`
+  );
+
+  if (metrics.failedDocuments > 0) {
+    console.log(
+      `Failed again: ${metrics.failedDocuments.toLocaleString()} documents (${deadLetterQueue.getFilePath()})`
+    );
+  }
+  if (unroutable > 0) {
+    console.log(
+      `Skipped: ${unroutable.toLocaleString()} documents without an index or valid timestamp (${deadLetterQueue.getFilePath()})`
+    );
+  }
+
+  errorLogger.flush();
+  deadLetterQueue.flush();
+  await closeClient();
+  process.exit(metrics.failedDocuments > 0 || unroutable > 0 ? 1 : 0);
+}
+
+runReplay().catch(async (error) => {
+  console.error("Fatal error:", error);
+  await closeClient();
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+import { exportLogs, ExportFormat } from "../graphql/log-export";
+import { LogFilters } from "../graphql/query-builder";
+import { testConnection, closeClient } from "../config/opensearch.config";
+
+interface ExportOptions {
+  format: ExportFormat;
+  columns?: string[];
+  outputPath?: string;
+  batchSize?: number;
+  filters: LogFilters;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseArgs(): ExportOptions {
+  const args = process.argv.slice(2);
+  const options: ExportOptions = { format: "ndjson", filters: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      options.outputPath = arg;
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--format":
+        if (value === "ndjson" || value === "csv") {
+          options.format = value;
+        } else {
+          console.warn(`Format must be "ndjson" or "csv". Using ndjson.`);
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--columns":
+        if (value) options.columns = parseList(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--output":
+        if (value) options.outputPath = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--batch":
+      case "--batch-size":
+        if (value) options.batchSize = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--level":
+      case "--levels":
+        if (value) options.filters.levels = parseList(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--service":
+      case "--services":
+        if (value) options.filters.services = parseList(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--environment":
+      case "--environments":
+        if (value) options.filters.environments = parseList(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--category":
+      case "--categories":
+        if (value) options.filters.categories = parseList(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--start":
+      case "--start-date":
+        if (value) options.filters.startDate = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--end":
+      case "--end-date":
+        if (value) options.filters.endDate = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--search":
+        if (value) options.filters.searchText = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--min-response-time":
+        if (value) options.filters.minResponseTime = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--max-response-time":
+        if (value) options.filters.maxResponseTime = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--has-error":
+        options.filters.hasError = true;
+        break;
+      case "--no-error":
+        options.filters.hasError = false;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+async function runExport(): Promise<void> {
+  const options = parseArgs();
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  console.log(`\nExporting logs as ${options.format}`);
+  console.table(options.filters);
+
+  const startTime = Date.now();
+  const result = await exportLogs({
+    filters: options.filters,
+    format: options.format,
+    columns: options.columns,
+    outputPath: options.outputPath,
+    batchSize: options.batchSize,
+    onProgress: (exported, total) => {
+      const percentage =
+        total > 0 ? ((exported / total) * 100).toFixed(2) : "100.00";
+      console.log(
+        `Progress: ${exported.toLocaleString()}/${total.toLocaleString()} (${percentage}%)`
+      );
+    },
+  });
+  const totalTime = (Date.now() - startTime) / 1000;
+
+  console.log(
+    `\nExported: ${result.exported.toLocaleString()} logs in ${totalTime.toFixed(
+      2
+    )}s → ${result.filePath}`
+  );
+  if (result.columns) {
+    console.log(`Columns: ${result.columns.join(", ")}`);
+  }
+
+  await closeClient();
+  process.exit(0);
+}
+
+runExport().catch(async (error) => {
+  console.error("Fatal error:", error);
+  await closeClient();
+  process.exit(1);
+});
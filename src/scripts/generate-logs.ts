@@ -1,7 +1,12 @@
 import { Readable, pipeline } from "stream";
 import { promisify } from "util";
+import { faker } from "@faker-js/faker";
 import { generateLog } from "./generators/log-generator";
-import { BulkInsertTransform } from "./bulk-insert";
+import {
+  BatchAcknowledgement,
+  BulkInsertMetrics,
+  BulkInsertTransform,
+} from "./bulk-insert";
 import { ProgressTracker } from "./progress-tracker";
 import { LogEntry } from "../types/log.types";
 import {
@@ -9,7 +14,35 @@ import {
   LogMetricsSnapshot,
 } from "./transforms/log-metrics-collector";
 import { ErrorLogger } from "./utils/error-logger";
+import {
+  LogValidationStats,
+  LogValidationTransform,
+  ValidationMode,
+} from "./transforms/log-validation";
+import {
+  EnrichmentConfig,
+  EnrichmentStats,
+  LogEnrichmentTransform,
+} from "./transforms/log-enrichment";
+import {
+  GeoIpEnrichmentOptions,
+  GeoIpEnrichmentTransform,
+} from "./transforms/geoip-enrichment";
+import { UserAgentEnrichmentTransform } from "./transforms/user-agent-enrichment";
+import {
+  PiiRedactionConfig,
+  PiiRedactionTransform,
+} from "./transforms/pii-redaction";
+import { DeadLetterQueue } from "./utils/dead-letter-queue";
+import { RetryPolicyOptions } from "./utils/retry-policy";
+import { AdaptiveOptions } from "./utils/adaptive-controller";
+import { CheckpointTracker } from "./utils/checkpoint";
 import { testConnection } from "../config/opensearch.config";
+import {
+  LOGS_WRITE_ALIAS,
+  resolveWriteIndex,
+} from "../opensearch/index-resolver";
+import { bootstrapRolloverIndex } from "../opensearch/rollover";
 
 const pipelineAsync = promisify(pipeline);
 const DEFAULT_CHUNK_SIZE = 100;
@@ -18,27 +51,44 @@ interface GenerateLogsOptions {
   totalLogs: number;
   indexName: string;
   batchSize?: number;
+  maxBatchBytes?: number;
   concurrency?: number;
   baseDate?: Date;
+  // Seeds faker per document ([seed, index]) so every log is reproducible
+  seed?: number;
+  // Skips the first documents of the sequence, e.g. when resuming
+  startIndex?: number;
+  checkpoint?: CheckpointTracker;
   generator?: (context: { index: number; baseDate: Date }) => LogEntry;
   serialization?: "ndjson";
+  idempotent?: boolean;
+  // indexName is a data stream; documents are sent with `create`
+  dataStream?: boolean;
   errorLogger?: ErrorLogger;
+  deadLetterQueue?: DeadLetterQueue;
+  retry?: RetryPolicyOptions;
+  adaptive?: AdaptiveOptions;
+  // Applied to each generated document before validation
+  enrichment?: EnrichmentConfig;
+  // Resolves `geo` from `request.ip`, after enrichment and before validation
+  geoip?: GeoIpEnrichmentOptions;
+  // Adds request.ua (browser, OS, device type, bot flag) from request.user_agent
+  parseUserAgent?: boolean;
+  // Applied after validation, right before documents are counted and indexed
+  redaction?: PiiRedactionConfig;
+  validation?: {
+    mode: ValidationMode;
+  };
 }
 
 export interface GenerateLogsResult {
   totalInserted: number;
   totalTimeSeconds: number;
   averageRatePerSecond: number;
-  bulkMetrics: {
-    batches: number;
-    totalInserted: number;
-    failedDocuments: number;
-    averageBatchSize: number;
-    totalDurationMs: number;
-    averageBatchDurationMs: number;
-    maxBatchDurationMs: number;
-  };
+  bulkMetrics: BulkInsertMetrics;
   logMetrics: LogMetricsSnapshot;
+  enrichment?: EnrichmentStats;
+  validation?: LogValidationStats;
 }
 
 class LogGeneratorStream extends Readable {
@@ -53,9 +103,11 @@ class LogGeneratorStream extends Readable {
   constructor(
     total: number,
     baseDate: Date = new Date(),
-    generatorFn: (context: { index: number; baseDate: Date }) => LogEntry
+    generatorFn: (context: { index: number; baseDate: Date }) => LogEntry,
+    startIndex: number = 0
   ) {
     super({ objectMode: true });
+    this.generated = startIndex;
     this.total = total;
     this.baseDate = baseDate;
     this.generatorFn = generatorFn;
@@ -93,31 +145,86 @@ export async function generateLogs(
     baseDate = new Date(),
     generator,
     serialization = "ndjson",
+    seed,
+    startIndex = 0,
+    checkpoint,
   } = options;
+  const logsToGenerate = Math.max(0, totalLogs - startIndex);
 
   console.log(
-    `\nGenerating ${totalLogs.toLocaleString()} logs to index: ${indexName}`
+    `\nGenerating ${logsToGenerate.toLocaleString()} logs to index: ${indexName}${
+      startIndex > 0 ? ` (resuming at ${startIndex.toLocaleString()})` : ""
+    }`
   );
 
   const startTime = Date.now();
 
+  const generatorFn =
+    generator ??
+    (({ baseDate: date }) => {
+      return generateLog(date);
+    });
   const generatorStream = new LogGeneratorStream(
     totalLogs,
     baseDate,
-    generator ??
-      (({ baseDate: date }) => {
-        return generateLog(date);
-      })
+    (context) => {
+      if (seed !== undefined) {
+        faker.seed([seed, context.index]);
+      }
+      const log = generatorFn(context);
+      checkpoint?.register(log, context.index);
+      return log;
+    },
+    startIndex
   );
-  const metricsCollector = new LogMetricsCollector();
+  const enrichmentStream = options.enrichment
+    ? new LogEnrichmentTransform(options.enrichment)
+    : null;
+  const geoipStream = options.geoip
+    ? new GeoIpEnrichmentTransform(options.geoip)
+    : null;
+  const userAgentStream = options.parseUserAgent
+    ? new UserAgentEnrichmentTransform()
+    : null;
+  const redactionStream = options.redaction
+    ? new PiiRedactionTransform(options.redaction)
+    : null;
+  const validationStream = options.validation
+    ? new LogValidationTransform({
+        mode: options.validation.mode,
+        deadLetterQueue: options.deadLetterQueue,
+        redaction: redactionStream ?? undefined,
+      })
+    : null;
+  const metricsCollector = new LogMetricsCollector({
+    redaction: redactionStream ?? undefined,
+    geoip: geoipStream ?? undefined,
+  });
   const bulkInsertStream = new BulkInsertTransform({
     indexName,
     batchSize,
+    maxBatchBytes: options.maxBatchBytes,
     concurrency,
     serialization,
+    idempotent: options.idempotent,
+    dataStream: options.dataStream,
     errorLogger: options.errorLogger,
+    deadLetterQueue: options.deadLetterQueue,
+    retry: options.retry,
+    adaptive: options.adaptive,
   });
-  const progressTracker = new ProgressTracker(totalLogs);
+  const progressTracker = new ProgressTracker(logsToGenerate);
+
+  if (checkpoint) {
+    validationStream?.on(
+      "documentReplaced",
+      (original: LogEntry, replacement: LogEntry) =>
+        checkpoint.replace(original, replacement)
+    );
+    bulkInsertStream.on("batchAcknowledged", (ack: BatchAcknowledgement) => {
+      checkpoint.acknowledge(ack.batchIndex, ack.lastDocument);
+    });
+  }
 
   generatorStream.on("error", (error) => {
     options.errorLogger?.logStreamError(
@@ -127,6 +234,46 @@ export async function generateLogs(
     );
   });
 
+  enrichmentStream?.on("error", (error) => {
+    options.errorLogger?.logStreamError(
+      "LogEnrichmentTransform",
+      `Error enriching log: ${error.message}`,
+      error
+    );
+  });
+
+  geoipStream?.on("error", (error) => {
+    options.errorLogger?.logStreamError(
+      "GeoIpEnrichmentTransform",
+      `Error resolving GeoIP: ${error.message}`,
+      error
+    );
+  });
+
+  userAgentStream?.on("error", (error) => {
+    options.errorLogger?.logStreamError(
+      "UserAgentEnrichmentTransform",
+      `Error parsing user agent: ${error.message}`,
+      error
+    );
+  });
+
+  validationStream?.on("error", (error) => {
+    options.errorLogger?.logStreamError(
+      "LogValidationTransform",
+      `Error validating log: ${error.message}`,
+      error
+    );
+  });
+
+  redactionStream?.on("error", (error) => {
+    options.errorLogger?.logStreamError(
+      "PiiRedactionTransform",
+      `Error redacting log: ${error.message}`,
+      error
+    );
+  });
+
   metricsCollector.on("error", (error) => {
     options.errorLogger?.logStreamError(
       "LogMetricsCollector",
@@ -144,16 +291,36 @@ export async function generateLogs(
   });
 
   try {
-    await pipelineAsync(
+    await pipelineAsync([
       generatorStream,
+      ...(enrichmentStream ? [enrichmentStream] : []),
+      ...(geoipStream ? [geoipStream] : []),
+      ...(userAgentStream ? [userAgentStream] : []),
+      ...(validationStream ? [validationStream] : []),
+      ...(redactionStream ? [redactionStream] : []),
       metricsCollector,
       bulkInsertStream,
-      progressTracker
-    );
+      progressTracker,
+    ]);
 
     if (!generatorStream.destroyed) {
       generatorStream.destroy();
     }
+    if (enrichmentStream && !enrichmentStream.destroyed) {
+      enrichmentStream.destroy();
+    }
+    if (geoipStream && !geoipStream.destroyed) {
+      geoipStream.destroy();
+    }
+    if (userAgentStream && !userAgentStream.destroyed) {
+      userAgentStream.destroy();
+    }
+    if (validationStream && !validationStream.destroyed) {
+      validationStream.destroy();
+    }
+    if (redactionStream && !redactionStream.destroyed) {
+      redactionStream.destroy();
+    }
     if (!metricsCollector.destroyed) {
       metricsCollector.destroy();
     }
@@ -166,9 +333,11 @@ export async function generateLogs(
 
     const endTime = Date.now();
     const totalTime = (endTime - startTime) / 1000;
-    const avgRate = totalLogs / totalTime;
+    const avgRate = logsToGenerate / totalTime;
     const bulkMetrics = bulkInsertStream.getMetrics();
     const logMetrics = metricsCollector.getSnapshot();
+    const enrichment = enrichmentStream?.getStats();
+    const validation = validationStream?.getStats();
 
     console.log(
       `\nCompleted: ${bulkInsertStream
@@ -178,13 +347,84 @@ export async function generateLogs(
       )} logs/sec)`
     );
 
+    console.log(
+      `Payload: ${(bulkMetrics.totalBytes / 1024 / 1024).toFixed(1)} MB (avg ${(
+        bulkMetrics.averageBatchBytes / 1024
+      ).toFixed(0)} KB/batch, largest ${(
+        bulkMetrics.largestBatchBytes / 1024
+      ).toFixed(0)} KB, ${bulkMetrics.throughputMBps.toFixed(2)} MB/s)`
+    );
+
+    if (bulkMetrics.duplicates > 0) {
+      console.log(
+        `Duplicates: ${bulkMetrics.duplicates.toLocaleString()} documents already indexed (skipped)`
+      );
+    }
+
     if (bulkMetrics.failedDocuments > 0) {
       console.log(
         `Failed: ${bulkMetrics.failedDocuments.toLocaleString()} documents`
       );
     }
 
+    if (bulkMetrics.retries > 0) {
+      console.log(
+        `Retries: ${bulkMetrics.retries.toLocaleString()} requests (${bulkMetrics.retriedDocuments.toLocaleString()} documents re-sent, ${bulkMetrics.retriesExhausted.toLocaleString()} exhausted)`
+      );
+    }
+
+    if (bulkMetrics.adaptive) {
+      console.log(
+        `Adaptive: settled at ${(
+          bulkMetrics.adaptive.batchBytes /
+          1024 /
+          1024
+        ).toFixed(1)} MB batches x ${
+          bulkMetrics.adaptive.concurrency
+        } in flight (${bulkMetrics.adaptive.increases} increases, ${
+          bulkMetrics.adaptive.decreases
+        } decreases)`
+      );
+    }
+
+    if (enrichment) {
+      console.log(
+        `Enrichment: ${enrichment.renamed.toLocaleString()} renamed, ${enrichment.defaulted.toLocaleString()} defaulted, ${enrichment.levelsDerived.toLocaleString()} levels derived, ${enrichment.tagged.toLocaleString()} tagged, ${enrichment.masked.toLocaleString()} masked, ${enrichment.dropped.toLocaleString()} dropped`
+      );
+    }
+
+    if (geoipStream) {
+      const { geoip } = logMetrics;
+      console.log(
+        `GeoIP: ${(geoip.hitRate * 100).toFixed(
+          1
+        )}% hit rate (${geoip.hits.toLocaleString()}/${geoip.lookups.toLocaleString()} lookups, ${geoip.private.toLocaleString()} private, ${geoip.cacheHits.toLocaleString()} from cache)`
+      );
+    }
+
+    if (userAgentStream) {
+      const userAgents = userAgentStream.getStats();
+      console.log(
+        `User agents: ${userAgents.parsed.toLocaleString()} parsed (${userAgents.bots.toLocaleString()} bots, ${userAgents.cacheHits.toLocaleString()} from cache)`
+      );
+    }
+
+    if (redactionStream) {
+      console.log(
+        `Redacted: ${logMetrics.redactions.total.toLocaleString()} values in ${logMetrics.redactions.documents.toLocaleString()} documents`
+      );
+    }
+
+    if (validation && validation.invalid > 0) {
+      console.log(
+        `Invalid: ${validation.invalid.toLocaleString()} documents (${
+          validation.mode
+        } validation)`
+      );
+    }
+
     options.errorLogger?.flush();
+    checkpoint?.complete();
 
     return {
       totalInserted: bulkInsertStream.getTotalInserted(),
@@ -192,6 +432,8 @@ export async function generateLogs(
       averageRatePerSecond: avgRate,
       bulkMetrics,
       logMetrics,
+      enrichment,
+      validation,
     };
   } catch (error) {
     const err = error as Error;
@@ -201,6 +443,7 @@ export async function generateLogs(
       err
     );
     options.errorLogger?.flush();
+    options.deadLetterQueue?.flush();
     console.error(`Error generating logs:`, error);
     throw error;
   }
@@ -210,7 +453,7 @@ if (require.main === module) {
   const args = process.argv.slice(2);
   const totalLogs = parseInt(args[0]) || 200_000;
   const indexDate = args[1] || new Date().toISOString().split("T")[0];
-  const indexName = `logs-${indexDate}`;
+  const indexName = resolveWriteIndex(new Date(indexDate));
 
   (async () => {
     const connected = await testConnection();
@@ -218,6 +461,9 @@ if (require.main === module) {
       console.error("Cannot connect to OpenSearch");
       process.exit(1);
     }
+    if (indexName === LOGS_WRITE_ALIAS) {
+      await bootstrapRolloverIndex();
+    }
 
     await generateLogs({
       totalLogs,
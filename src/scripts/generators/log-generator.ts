@@ -59,15 +59,21 @@ const PAYMENT_METHODS = [
 
 const CURRENCIES = ["USD", "EUR", "GBP", "BRL", "INR"];
 
+// Draws from faker's generator (instead of Math.random) so a `faker.seed()`
+// makes the generated logs reproducible
+export function random(): number {
+  return faker.number.float();
+}
+
 function weightedRandom<T>(
   items: readonly { weight: number; [key: string]: any }[]
 ): T {
   const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   for (const item of items) {
-    random -= item.weight;
-    if (random <= 0) {
+    remaining -= item.weight;
+    if (remaining <= 0) {
       return item as T;
     }
   }
@@ -76,18 +82,18 @@ function weightedRandom<T>(
 }
 
 function generateTimestamp(baseDate: Date): string {
-  const hour = Math.floor(Math.random() * 24);
+  const hour = Math.floor(random() * 24);
 
   let hourToUse = hour;
-  if (Math.random() < 0.6) {
-    hourToUse = 10 + Math.floor(Math.random() * 8);
+  if (random() < 0.6) {
+    hourToUse = 10 + Math.floor(random() * 8);
   }
 
   const date = new Date(baseDate);
   date.setUTCHours(hourToUse);
-  date.setUTCMinutes(Math.floor(Math.random() * 60));
-  date.setUTCSeconds(Math.floor(Math.random() * 60));
-  date.setUTCMilliseconds(Math.floor(Math.random() * 1000));
+  date.setUTCMinutes(Math.floor(random() * 60));
+  date.setUTCSeconds(Math.floor(random() * 60));
+  date.setUTCMilliseconds(Math.floor(random() * 1000));
 
   return date.toISOString();
 }
@@ -126,7 +132,7 @@ export function generateLog(baseDate: Date = new Date()): LogEntry {
     category: faker.helpers.arrayElement(CATEGORIES),
     message: generateMessage(service.name, level),
     metrics: {
-      cpu_usage: parseFloat((Math.random() * 100).toFixed(2)),
+      cpu_usage: parseFloat((random() * 100).toFixed(2)),
       memory_mb: faker.number.int({ min: 128, max: 2048 }),
       response_time_ms: faker.number.int({ min: 10, max: 5000 }),
       db_query_time_ms: faker.number.int({ min: 5, max: 500 }),
@@ -155,7 +161,7 @@ export function generateLog(baseDate: Date = new Date()): LogEntry {
     };
   }
 
-  if (Math.random() < 0.8) {
+  if (random() < 0.8) {
     log.request = {
       id: `req-${faker.string.alphanumeric(10)}`,
       method: faker.helpers.arrayElement(HTTP_METHODS),
@@ -167,10 +173,10 @@ export function generateLog(baseDate: Date = new Date()): LogEntry {
     };
   }
 
-  if (isPaymentService && Math.random() < 0.7) {
+  if (isPaymentService && random() < 0.7) {
     log.business = {
       transaction_id: `txn-${faker.string.alphanumeric(12)}`,
-      amount: parseFloat((Math.random() * 1000).toFixed(2)),
+      amount: parseFloat((random() * 1000).toFixed(2)),
       currency: faker.helpers.arrayElement(CURRENCIES),
       payment_method: faker.helpers.arrayElement(PAYMENT_METHODS),
     };
@@ -275,7 +281,7 @@ function generateTags(serviceName: string, level: string): string[] {
     baseTags.push("critical");
   }
 
-  if (Math.random() < 0.3) {
+  if (random() < 0.3) {
     baseTags.push(
       faker.helpers.arrayElement(["monitoring", "alert", "performance"])
     );
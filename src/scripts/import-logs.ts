@@ -0,0 +1,453 @@
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { createGunzip } from "zlib";
+import * as fs from "fs";
+import * as path from "path";
+import { BulkInsertMetrics, BulkInsertTransform } from "./bulk-insert";
+import { ProgressTracker } from "./progress-tracker";
+import { LogMetricsCollector } from "./transforms/log-metrics-collector";
+import { NdjsonParseTransform } from "./transforms/ndjson-parser";
+import { JsonArrayParseTransform } from "./transforms/json-array-parser";
+import { LogLineParseTransform } from "./transforms/log-line-parser";
+import { defaultParserContext, ParserContext } from "./parsers/log-parser";
+import {
+  getLogParser,
+  LOG_LINE_FORMATS,
+  LogLineFormat,
+} from "./parsers/registry";
+import { GeoIpEnrichmentTransform } from "./transforms/geoip-enrichment";
+import { UserAgentEnrichmentTransform } from "./transforms/user-agent-enrichment";
+import {
+  GeoInfo,
+  loadGeoIpDatabase,
+  parseGeoInfo,
+} from "./utils/geoip-database";
+import {
+  loadRedactionConfig,
+  PiiRedactionTransform,
+} from "./transforms/pii-redaction";
+import { ErrorLogger } from "./utils/error-logger";
+import { DeadLetterQueue } from "./utils/dead-letter-queue";
+import {
+  dailyIndexName,
+  getIndexLayout,
+  LOGS_WRITE_ALIAS,
+} from "../opensearch/index-resolver";
+import { setupIndexTemplate } from "../opensearch/setup";
+import { bootstrapRolloverIndex } from "../opensearch/rollover";
+import { testConnection, closeClient } from "../config/opensearch.config";
+
+// "ndjson" and "json" carry LogEntry documents; the other formats go
+// through a LogLineParser
+type ImportFormat = "ndjson" | "json" | LogLineFormat;
+
+const IMPORT_FORMATS: readonly ImportFormat[] = [
+  "ndjson",
+  "json",
+  ...LOG_LINE_FORMATS,
+];
+
+interface ImportOptions {
+  file?: string;
+  format?: ImportFormat;
+  context: Partial<ParserContext>;
+  indexName?: string;
+  // Explicit --route-by-date; also the default without --index
+  routeByDate: boolean;
+  indexPrefix: string;
+  batchSize: number;
+  concurrency: number;
+  idempotent: boolean;
+  geoipDatabase?: string;
+  geoipCacheSize?: number;
+  geoipPrivate?: GeoInfo;
+  parseUserAgent: boolean;
+  redact: boolean;
+  redactionFile?: string;
+}
+
+interface ImportSummary {
+  accepted: number;
+  rejected: number;
+  bytesRead: number;
+  bulkMetrics: BulkInsertMetrics;
+}
+
+function parseArgs(): ImportOptions {
+  const args = process.argv.slice(2);
+  const options: ImportOptions = {
+    context: {},
+    redact: false,
+    parseUserAgent: false,
+    routeByDate: false,
+    indexPrefix: "logs",
+    batchSize: 2000,
+    concurrency: 2,
+    idempotent: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      options.file = arg;
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--file":
+        if (value) options.file = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--format":
+        if (value && IMPORT_FORMATS.includes(value as ImportFormat)) {
+          options.format = value as ImportFormat;
+        } else {
+          console.warn(
+            `Format must be one of: ${IMPORT_FORMATS.join(
+              ", "
+            )}. Detecting from file name.`
+          );
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--service":
+        if (value) options.context.service = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--environment":
+        if (
+          value === "production" ||
+          value === "staging" ||
+          value === "development"
+        ) {
+          options.context.environment = value;
+        } else {
+          console.warn(
+            `Environment must be production, staging or development. Ignored.`
+          );
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--host":
+        if (value) options.context.host = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--region":
+        if (value) options.context.region = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--year":
+        if (value) options.context.year = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--index":
+        if (value) options.indexName = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--route-by-date":
+        options.routeByDate = true;
+        break;
+      case "--prefix":
+        if (value) options.indexPrefix = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--batch":
+      case "--batch-size":
+        if (value) options.batchSize = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--concurrency":
+        if (value) options.concurrency = Math.max(1, Number(value));
+        if (!arg.includes("=")) i++;
+        break;
+      case "--idempotent":
+        options.idempotent = true;
+        break;
+      case "--geoip":
+        if (value) options.geoipDatabase = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--geoip-cache":
+        if (value) options.geoipCacheSize = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--geoip-private":
+        if (value) {
+          const fallback = parseGeoInfo(value);
+          if (fallback) {
+            options.geoipPrivate = fallback;
+          } else {
+            console.warn(
+              `Invalid --geoip-private "${value}" (expected country,city,lat,lon). Using the default.`
+            );
+          }
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--parse-ua":
+        options.parseUserAgent = true;
+        break;
+      // `--redact` uses the built-in rules, `--redact=<file>` a config
+      case "--redact":
+        options.redact = true;
+        if (arg.includes("=")) options.redactionFile = value;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function isGzipFile(file: string): boolean {
+  return file.toLowerCase().endsWith(".gz");
+}
+
+function detectFormat(file: string): ImportFormat {
+  const name = file.toLowerCase().replace(/\.gz$/, "");
+  return path.extname(name) === ".json" ? "json" : "ndjson";
+}
+
+function createParser(
+  format: ImportFormat,
+  context: Partial<ParserContext>,
+  errorLogger: ErrorLogger,
+  redaction?: PiiRedactionTransform
+): NdjsonParseTransform {
+  if (format === "json") {
+    return new JsonArrayParseTransform({ errorLogger, redaction });
+  }
+
+  const parser = getLogParser(format);
+  if (parser) {
+    return new LogLineParseTransform({
+      parser,
+      context: defaultParserContext(context),
+      errorLogger,
+      redaction,
+    });
+  }
+
+  return new NdjsonParseTransform({ errorLogger, redaction });
+}
+
+async function runImport(): Promise<void> {
+  const options = parseArgs();
+
+  if (!options.file || !fs.existsSync(options.file)) {
+    console.error(
+      `Usage: npm run import:logs -- --file=<logs.ndjson|logs.ndjson.gz|logs.json> [--index=name | --route-by-date (default)] [--format=${IMPORT_FORMATS.join(
+        "|"
+      )}] [--service=name]`
+    );
+    process.exit(1);
+    return;
+  }
+
+  // Backing indices of the rollover layout are not date-named, so the
+  // default target is the write alias and date routing does not apply
+  const rollover = getIndexLayout() === "rollover";
+  if (options.routeByDate && rollover) {
+    console.warn(
+      `--route-by-date is ignored with LOG_INDEX_LAYOUT=rollover; writing to ${LOGS_WRITE_ALIAS}.`
+    );
+    options.routeByDate = false;
+  }
+  if (options.indexName && options.routeByDate) {
+    console.warn("--route-by-date overrides --index.");
+  }
+  // In the daily layout each document goes to the index of its own
+  // timestamp unless --index names one, so imported history stays visible
+  // to date-filtered queries
+  const routeByDate = !rollover && (options.routeByDate || !options.indexName);
+
+  const file = options.file;
+  const format = options.format ?? detectFormat(file);
+  const totalBytes = fs.statSync(file).size;
+  const targetIndex = routeByDate
+    ? undefined
+    : options.indexName ?? LOGS_WRITE_ALIAS;
+
+  console.log(
+    `\nImporting ${file} (${format}${isGzipFile(file) ? ", gzip" : ""}, ${(
+      totalBytes /
+      1024 /
+      1024
+    ).toFixed(1)} MB) → ${targetIndex ?? `${options.indexPrefix}-YYYY-MM-DD`}`
+  );
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  await setupIndexTemplate();
+  if (targetIndex === LOGS_WRITE_ALIAS) {
+    await bootstrapRolloverIndex();
+  }
+
+  const errorLogger = new ErrorLogger(
+    "./logs",
+    `errors-import-${Date.now()}.json`
+  );
+  const deadLetterQueue = new DeadLetterQueue(
+    "./logs/dead-letter",
+    `dlq-import-${Date.now()}.ndjson`
+  );
+
+  // Counts raw (possibly compressed) bytes, matching the file size on disk
+  let bytesRead = 0;
+  const byteCounter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesRead += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  const geoipStream = options.geoipDatabase
+    ? new GeoIpEnrichmentTransform({
+        database: loadGeoIpDatabase(options.geoipDatabase),
+        cacheSize: options.geoipCacheSize,
+        privateFallback: options.geoipPrivate,
+      })
+    : null;
+  const userAgentStream = options.parseUserAgent
+    ? new UserAgentEnrichmentTransform()
+    : null;
+  const redactionStream = options.redact
+    ? new PiiRedactionTransform(loadRedactionConfig(options.redactionFile))
+    : null;
+  const parser = createParser(
+    format,
+    // The file name (not its path or compression) keeps parsed ids stable
+    // across re-imports of the same file
+    { ...options.context, source: path.basename(file).replace(/\.gz$/i, "") },
+    errorLogger,
+    redactionStream ?? undefined
+  );
+  const metricsCollector = new LogMetricsCollector({
+    redaction: redactionStream ?? undefined,
+    geoip: geoipStream ?? undefined,
+  });
+  const bulkInsertStream = new BulkInsertTransform({
+    indexName: targetIndex ?? dailyIndexName(new Date(), options.indexPrefix),
+    // Imports are not validated, so a document without a usable timestamp
+    // goes to today's index rather than aborting the import
+    resolveIndex: targetIndex
+      ? undefined
+      : (doc) => {
+          try {
+            return dailyIndexName(doc.timestamp, options.indexPrefix);
+          } catch {
+            return dailyIndexName(new Date(), options.indexPrefix);
+          }
+        },
+    batchSize: options.batchSize,
+    concurrency: options.concurrency,
+    idempotent: options.idempotent,
+    errorLogger,
+    deadLetterQueue,
+  });
+  const progressTracker = new ProgressTracker(0, {
+    totalBytes,
+    bytesRead: () => bytesRead,
+  });
+
+  const startTime = Date.now();
+  try {
+    await pipeline([
+      fs.createReadStream(file),
+      byteCounter,
+      ...(isGzipFile(file) ? [createGunzip()] : []),
+      parser,
+      ...(geoipStream ? [geoipStream] : []),
+      ...(userAgentStream ? [userAgentStream] : []),
+      ...(redactionStream ? [redactionStream] : []),
+      metricsCollector,
+      bulkInsertStream,
+      progressTracker,
+    ]);
+  } catch (error) {
+    console.error("Import failed:", error);
+    errorLogger.flush();
+    deadLetterQueue.flush();
+    await closeClient();
+    process.exit(1);
+    return;
+  }
+
+  const summary: ImportSummary = {
+    accepted: parser.getAcceptedCount(),
+    rejected: parser.getRejectedCount(),
+    bytesRead,
+    bulkMetrics: bulkInsertStream.getMetrics(),
+  };
+  const totalTime = (Date.now() - startTime) / 1000;
+
+  console.log(
+    `\nImported: ${summary.bulkMetrics.totalInserted.toLocaleString()} logs in ${totalTime.toFixed(
+      2
+    )}s (${Math.round(
+      summary.bulkMetrics.totalInserted / totalTime
+    )} logs/sec, ${summary.bulkMetrics.throughputMBps.toFixed(2)} MB/s)`
+  );
+
+  if (summary.rejected > 0) {
+    console.log(
+      `Rejected: ${summary.rejected.toLocaleString()} records (first ones below, details in ${errorLogger.getLogFilePath()})`
+    );
+    console.table(parser.getRejectedSamples().slice(0, 5));
+  }
+
+  if (geoipStream) {
+    const { geoip } = metricsCollector.getSnapshot();
+    console.log(
+      `GeoIP: ${(geoip.hitRate * 100).toFixed(
+        1
+      )}% hit rate (${geoip.hits.toLocaleString()}/${geoip.lookups.toLocaleString()} lookups, ${geoip.private.toLocaleString()} private, ${geoip.cacheHits.toLocaleString()} from cache)`
+    );
+  }
+
+  if (userAgentStream) {
+    const userAgents = userAgentStream.getStats();
+    console.log(
+      `User agents: ${userAgents.parsed.toLocaleString()} parsed (${userAgents.bots.toLocaleString()} bots)`
+    );
+  }
+
+  if (redactionStream) {
+    const { redactions } = metricsCollector.getSnapshot();
+    console.log(
+      `Redacted: ${redactions.total.toLocaleString()} values in ${redactions.documents.toLocaleString()} documents`
+    );
+  }
+
+  if (summary.bulkMetrics.duplicates > 0) {
+    console.log(
+      `Duplicates: ${summary.bulkMetrics.duplicates.toLocaleString()} documents already indexed`
+    );
+  }
+
+  if (summary.bulkMetrics.failedDocuments > 0) {
+    console.log(
+      `Failed: ${summary.bulkMetrics.failedDocuments.toLocaleString()} documents (${deadLetterQueue.getFilePath()})`
+    );
+  }
+
+  errorLogger.flush();
+  await closeClient();
+  process.exit(summary.bulkMetrics.failedDocuments > 0 ? 1 : 0);
+}
+
+runImport().catch(async (error) => {
+  console.error("Fatal error:", error);
+  await closeClient();
+  process.exit(1);
+});
@@ -3,6 +3,17 @@ import {
   testConnection,
   closeClient,
 } from "../config/opensearch.config";
+import {
+  deleteDataStream,
+  filterOldBackingIndices,
+  listDataStreams,
+} from "../opensearch/data-streams";
+import { findWriteIndices } from "../opensearch/rollover";
+import {
+  createSnapshot,
+  getSnapshotRepository,
+  registerSnapshotRepository,
+} from "../opensearch/snapshots";
 
 interface CleanupOptions {
   pattern?: string;
@@ -11,6 +22,12 @@ interface CleanupOptions {
   dryRun?: boolean;
   force?: boolean;
   all?: boolean;
+  // Operate on data streams matching the pattern instead of plain indices
+  dataStreams?: boolean;
+  // Snapshot everything that is about to be deleted first, and abort the
+  // deletion if the snapshot fails
+  snapshotBeforeDelete?: boolean;
+  snapshotName?: string;
 }
 
 function parseArgs(): CleanupOptions {
@@ -60,6 +77,13 @@ function parseArgs(): CleanupOptions {
         options.all = true;
         options.pattern = "*";
         break;
+      case "--data-streams":
+        options.dataStreams = true;
+        break;
+      case "--snapshot-before-delete":
+        options.snapshotBeforeDelete = true;
+        if (arg.includes("=") && value) options.snapshotName = value;
+        break;
       default:
         console.warn(`Unknown flag ignored: ${flag}`);
     }
@@ -234,6 +258,145 @@ async function confirmDeletion(
   });
 }
 
+/**
+ * Snapshots `targets` (indices or data streams) into the configured
+ * repository. Returns false when the snapshot failed and nothing should be
+ * deleted.
+ */
+async function snapshotBeforeDelete(
+  targets: string[],
+  options: CleanupOptions
+): Promise<boolean> {
+  const repository = getSnapshotRepository();
+  if (options.dryRun) {
+    console.log(
+      `\n💾 DRY RUN - Would snapshot ${targets.length} targets into ${repository.name} first`
+    );
+    return true;
+  }
+
+  console.log(
+    `\n💾 Snapshotting ${targets.length} targets into ${repository.name}...`
+  );
+  try {
+    await registerSnapshotRepository(repository);
+    const snapshot = await createSnapshot(
+      targets,
+      { name: options.snapshotName },
+      repository
+    );
+    console.log(
+      `  ✅ Snapshot ${snapshot.name} (${snapshot.indices.length} indices); restore with npm run snapshot:restore -- ${snapshot.name}`
+    );
+    return true;
+  } catch (error: any) {
+    console.error(
+      "  ❌ Snapshot failed, nothing was deleted:",
+      error.meta?.body?.error?.reason ?? error.message
+    );
+    process.exitCode = 1;
+    return false;
+  }
+}
+
+/**
+ * Deletes whole data streams matching the pattern or, with --older-than,
+ * only their backing indices created before the cutoff (never the write
+ * index, which a stream cannot exist without).
+ */
+async function cleanupDataStreams(options: CleanupOptions): Promise<void> {
+  console.log(`\n🔍 Finding data streams matching pattern: ${options.pattern}`);
+  const dataStreams = await listDataStreams(options.pattern);
+  if (dataStreams.length === 0) {
+    console.log("No data streams found.");
+    return;
+  }
+
+  const byAge = options.olderThanDays !== undefined;
+  const targets = dataStreams
+    .map((stream) => ({
+      stream,
+      indices: byAge
+        ? filterOldBackingIndices(stream, options.olderThanDays!)
+        : stream.backingIndices,
+    }))
+    .filter((target) => target.indices.length > 0);
+
+  if (targets.length === 0) {
+    console.log("No backing indices match the deletion criteria.");
+    return;
+  }
+
+  console.log(
+    byAge
+      ? `\n📋 Backing indices older than ${options.olderThanDays} days (write indices are kept):`
+      : "\n📋 Data streams to be deleted (with all backing indices):"
+  );
+  for (const { stream, indices } of targets) {
+    console.log(`  ${stream.name}`);
+    indices.forEach((index) =>
+      console.log(
+        "    " +
+          index.index.padEnd(38) +
+          index.documents.toLocaleString().padStart(15) +
+          formatBytes(index.sizeBytes).padStart(12)
+      )
+    );
+  }
+
+  const allIndices = targets.flatMap((target) => target.indices);
+  // Whole streams are snapshotted as data streams so a restore recreates them
+  const snapshotTargets = byAge
+    ? allIndices.map((index) => index.index)
+    : targets.map((target) => target.stream.name);
+  if (options.dryRun) {
+    if (options.snapshotBeforeDelete) {
+      await snapshotBeforeDelete(snapshotTargets, options);
+    }
+    console.log("\n🔍 DRY RUN - nothing was deleted.");
+    return;
+  }
+  if (!options.force) {
+    const confirmed = await confirmDeletion(
+      allIndices.map((index) => index.index),
+      formatBytes(allIndices.reduce((sum, index) => sum + index.sizeBytes, 0)),
+      allIndices.reduce((sum, index) => sum + index.documents, 0)
+    );
+    if (!confirmed) {
+      console.log("\n❌ Deletion cancelled.");
+      return;
+    }
+  }
+  if (
+    options.snapshotBeforeDelete &&
+    !(await snapshotBeforeDelete(snapshotTargets, options))
+  ) {
+    return;
+  }
+
+  if (byAge) {
+    await deleteIndices(
+      allIndices.map((index) => index.index),
+      false
+    );
+    return;
+  }
+
+  let deleted = 0;
+  let failed = 0;
+  for (const { stream } of targets) {
+    try {
+      await deleteDataStream(stream.name);
+      console.log(`  ✅ Deleted data stream: ${stream.name}`);
+      deleted++;
+    } catch (error: any) {
+      console.error(`  ❌ Failed to delete ${stream.name}:`, error.message);
+      failed++;
+    }
+  }
+  console.log(`\n📊 Summary: ${deleted} deleted, ${failed} failed`);
+}
+
 async function main(): Promise<void> {
   const options = parseArgs();
 
@@ -246,6 +409,11 @@ async function main(): Promise<void> {
   }
 
   try {
+    if (options.dataStreams) {
+      await cleanupDataStreams(options);
+      return;
+    }
+
     let allIndices: string[] = [];
 
     if (options.indices && options.indices.length > 0) {
@@ -280,6 +448,27 @@ async function main(): Promise<void> {
       indicesToDelete = oldIndices;
     }
 
+    // The write index behind an alias (logs-write in the rollover layout) is
+    // never deleted, even when named: the alias would be left without one
+    const writeIndices = new Set(
+      await findWriteIndices(
+        options.indices && options.indices.length > 0
+          ? options.indices.join(",")
+          : options.pattern!
+      )
+    );
+    const keptWriteIndices = indicesToDelete.filter((index) =>
+      writeIndices.has(index)
+    );
+    if (keptWriteIndices.length > 0) {
+      console.log(
+        `\n✋ Keeping write indices of aliases: ${keptWriteIndices.join(", ")}`
+      );
+      indicesToDelete = indicesToDelete.filter(
+        (index) => !writeIndices.has(index)
+      );
+    }
+
     if (indicesToDelete.length === 0) {
       console.log("No indices match the deletion criteria.");
       await closeClient();
@@ -342,6 +531,13 @@ async function main(): Promise<void> {
       }
     }
 
+    if (
+      options.snapshotBeforeDelete &&
+      !(await snapshotBeforeDelete(indicesToDelete, options))
+    ) {
+      return;
+    }
+
     // Delete indices
     await deleteIndices(indicesToDelete, options.dryRun || false);
 
@@ -0,0 +1,257 @@
+import { testConnection, closeClient } from "../config/opensearch.config";
+import {
+  attachPolicy,
+  buildLogPolicies,
+  explainLifecycle,
+  installIsmPolicies,
+  LifecycleOptions,
+  LOGS_RETENTION_POLICY_ID,
+  LOGS_ROLLOVER_POLICY_ID,
+  PolicyChangeResult,
+  removePolicy,
+} from "../opensearch/ism-policies";
+
+const COMMANDS = ["install", "attach", "explain", "remove"] as const;
+type IsmCommand = (typeof COMMANDS)[number];
+
+interface IsmOptions {
+  command?: IsmCommand;
+  index?: string;
+  policyId?: string;
+  rolloverAlias?: string;
+  lifecycle: Partial<LifecycleOptions>;
+  dryRun: boolean;
+}
+
+function parseArgs(): IsmOptions {
+  const args = process.argv.slice(2);
+  const options: IsmOptions = { lifecycle: {}, dryRun: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      if (!options.command) {
+        if (!COMMANDS.includes(arg as IsmCommand)) {
+          console.warn(`Unknown command ignored: ${arg}`);
+          continue;
+        }
+        options.command = arg as IsmCommand;
+      } else {
+        options.index = arg;
+      }
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--index":
+        if (value) options.index = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--policy":
+        if (value) options.policyId = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--rollover-alias":
+        if (value) options.rolloverAlias = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--rollover-size":
+        if (value) options.lifecycle.rolloverMinSize = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--rollover-docs":
+        if (value) options.lifecycle.rolloverMinDocs = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--rollover-age":
+        if (value) options.lifecycle.rolloverMinAge = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--warm-after":
+        if (value) options.lifecycle.warmAfter = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--warm-replicas":
+        if (value) options.lifecycle.warmReplicas = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--merge-segments":
+        if (value) options.lifecycle.forceMergeSegments = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--delete-after":
+        if (value) options.lifecycle.deleteAfter = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run opensearch:ism -- <command> [options]
+
+Commands:
+  install [--dry-run]   Create or update ${LOGS_ROLLOVER_POLICY_ID} and ${LOGS_RETENTION_POLICY_ID}
+    --rollover-size=30gb --rollover-docs=50000000 --rollover-age=1d
+    --warm-after=2d --warm-replicas=0 --merge-segments=1 --delete-after=30d
+  attach <index>        Attach a policy to existing indices (names or patterns)
+    --policy=<id>         (default: rollover policy with --rollover-alias, retention otherwise)
+    --rollover-alias=<alias>
+  explain [index]       Show the policy, state and action of each index (default logs-*)
+  remove <index>        Detach the policy from indices`);
+}
+
+function printChangeResult(verb: string, result: PolicyChangeResult): void {
+  console.log(`${verb} ${result.updated} indices`);
+  result.failures.forEach((failure) =>
+    console.warn(`  ❌ ${failure.index}: ${failure.reason}`)
+  );
+}
+
+async function runInstall(options: IsmOptions): Promise<void> {
+  if (options.dryRun) {
+    console.log(JSON.stringify(buildLogPolicies(options.lifecycle), null, 2));
+    return;
+  }
+
+  const results = await installIsmPolicies(options.lifecycle);
+  results.forEach(({ policyId, created }) =>
+    console.log(`✅ ${created ? "Created" : "Updated"} policy ${policyId}`)
+  );
+  console.log(
+    "Policies apply to indices created from now on; use `attach` for existing ones."
+  );
+}
+
+async function runAttach(options: IsmOptions): Promise<void> {
+  const policyId =
+    options.policyId ??
+    (options.rolloverAlias
+      ? LOGS_ROLLOVER_POLICY_ID
+      : LOGS_RETENTION_POLICY_ID);
+  const result = await attachPolicy(
+    options.index!,
+    policyId,
+    options.rolloverAlias
+  );
+  printChangeResult(`Attached ${policyId} to`, result);
+}
+
+async function runExplain(options: IsmOptions): Promise<void> {
+  const states = await explainLifecycle(options.index ?? "logs-*");
+  if (states.length === 0) {
+    console.log("No indices found.");
+    return;
+  }
+
+  console.log(
+    "Index".padEnd(36) +
+      "Policy".padEnd(24) +
+      "State".padEnd(10) +
+      "Action".padEnd(16) +
+      "Status"
+  );
+  console.log("-".repeat(96));
+  for (const state of states) {
+    const status = state.failed
+      ? `FAILED: ${state.info ?? "see explain API"}`
+      : state.stepStatus ?? state.info ?? "";
+    console.log(
+      state.index.padEnd(36) +
+        (state.policyId ?? "-").padEnd(24) +
+        (state.state ?? "-").padEnd(10) +
+        (state.action ?? "-").padEnd(16) +
+        status
+    );
+  }
+
+  const failed = states.filter((state) => state.failed).length;
+  const managed = states.filter((state) => state.policyId).length;
+  console.log(
+    `\n${managed}/${states.length} indices managed${
+      failed > 0 ? `, ${failed} failed` : ""
+    }`
+  );
+}
+
+async function runIsm(): Promise<void> {
+  const options = parseArgs();
+  if (!options.command) {
+    printUsage();
+    process.exit(1);
+    return;
+  }
+  if (
+    (options.command === "attach" || options.command === "remove") &&
+    !options.index
+  ) {
+    console.error(`The ${options.command} command needs an index or pattern.`);
+    process.exit(1);
+    return;
+  }
+
+  if (options.command === "install") {
+    try {
+      buildLogPolicies(options.lifecycle);
+    } catch (error) {
+      console.error("Invalid lifecycle options:", (error as Error).message);
+      process.exit(1);
+      return;
+    }
+    if (options.dryRun) {
+      await runInstall(options);
+      return;
+    }
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  try {
+    switch (options.command) {
+      case "install":
+        await runInstall(options);
+        break;
+      case "attach":
+        await runAttach(options);
+        break;
+      case "explain":
+        await runExplain(options);
+        break;
+      case "remove":
+        printChangeResult(
+          "Removed policy from",
+          await removePolicy(options.index!)
+        );
+        break;
+    }
+  } catch (error: any) {
+    console.error(
+      `ISM ${options.command} failed:`,
+      error.meta?.body?.error?.reason ?? error.message
+    );
+    process.exitCode = 1;
+  } finally {
+    await closeClient();
+  }
+}
+
+runIsm().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
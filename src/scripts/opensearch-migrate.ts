@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import { testConnection, closeClient } from "../config/opensearch.config";
+import { LOG_TEMPLATE_VERSION } from "../opensearch/index-template";
+import { setupIndexTemplate } from "../opensearch/setup";
+import {
+  getMigrationStatus,
+  IndexMigrationPlan,
+  IndexMigrationStatus,
+  LOG_TEMPLATE_MIGRATIONS,
+  MappingChange,
+  migrateIndex,
+  planIndexMigration,
+} from "../opensearch/template-migrations";
+
+const COMMANDS = ["status", "diff", "run"] as const;
+type MigrateCommand = (typeof COMMANDS)[number];
+
+interface MigrateOptions {
+  command?: MigrateCommand;
+  pattern: string;
+  scriptFile?: string;
+  // Also reindex indices already on the current version (e.g. to apply a
+  // script)
+  includeCurrent: boolean;
+  pollIntervalMs: number;
+  dryRun: boolean;
+}
+
+function parseArgs(): MigrateOptions {
+  const args = process.argv.slice(2);
+  const options: MigrateOptions = {
+    pattern: "logs-*",
+    includeCurrent: false,
+    pollIntervalMs: 2000,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      if (!options.command) {
+        if (!COMMANDS.includes(arg as MigrateCommand)) {
+          console.warn(`Unknown command ignored: ${arg}`);
+          continue;
+        }
+        options.command = arg as MigrateCommand;
+      } else {
+        options.pattern = arg;
+      }
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--script":
+        if (value) options.scriptFile = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--poll":
+        if (value) options.pollIntervalMs = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--include-current":
+        options.includeCurrent = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run opensearch:migrate -- <command> [index or pattern] [options]
+
+Template version ${LOG_TEMPLATE_VERSION}:
+${LOG_TEMPLATE_MIGRATIONS.map(
+  (migration) => `  v${migration.version}  ${migration.description}`
+).join("\n")}
+
+Commands:
+  status [pattern]      Template version and mapping drift of each index (default logs-*)
+  diff <index>          Field-level diff between an index mapping and the current template
+  run [pattern]         Reindex outdated indices into <index>-v${LOG_TEMPLATE_VERSION} and swap aliases
+    --script=<file>       Painless script applied to every document (after the built-in ones)
+    --include-current     Also reindex indices already on v${LOG_TEMPLATE_VERSION}
+    --poll=2000           Task polling interval in ms
+    --dry-run             Print the plan without changing anything`);
+}
+
+function formatChange(change: MappingChange): string {
+  switch (change.change) {
+    case "added":
+      return `+ ${change.path}: ${change.to}`;
+    case "removed":
+      return `- ${change.path}: ${change.from}`;
+    case "changed":
+      return `~ ${change.path}: ${change.from} → ${change.to}`;
+  }
+}
+
+function runStatus(statuses: IndexMigrationStatus[]): void {
+  console.log(
+    "Index".padEnd(36) + "Version".padEnd(10) + "Drift".padEnd(8) + "Aliases"
+  );
+  console.log("-".repeat(80));
+  for (const status of statuses) {
+    const version = `v${status.version}${status.outdated ? " *" : ""}`;
+    console.log(
+      status.index.padEnd(36) +
+        version.padEnd(10) +
+        String(status.changes.length).padEnd(8) +
+        (status.aliases.join(", ") || "-") +
+        (status.writeIndex ? " (write)" : "")
+    );
+  }
+
+  const outdated = statuses.filter((status) => status.outdated).length;
+  console.log(
+    `\n${outdated}/${statuses.length} indices behind template v${LOG_TEMPLATE_VERSION}`
+  );
+}
+
+function runDiff(statuses: IndexMigrationStatus[]): void {
+  for (const status of statuses) {
+    console.log(
+      `${status.index} (v${status.version} → template v${LOG_TEMPLATE_VERSION})`
+    );
+    if (status.changes.length === 0) {
+      console.log("  No mapping differences");
+    }
+    status.changes.forEach((change) =>
+      console.log(`  ${formatChange(change)}`)
+    );
+  }
+}
+
+function printPlan(plan: IndexMigrationPlan): void {
+  console.log(
+    `${plan.source} (v${plan.fromVersion}) → ${plan.target} (v${plan.toVersion})`
+  );
+  console.log(`  aliases after swap: ${plan.aliases.join(", ") || "-"}`);
+  console.log(`  mapping changes: ${plan.changes.length}`);
+  plan.changes
+    .slice(0, 10)
+    .forEach((change) => console.log(`    ${formatChange(change)}`));
+  if (plan.changes.length > 10) {
+    console.log(`    ... ${plan.changes.length - 10} more`);
+  }
+  if (plan.script) {
+    console.log(`  script:\n${plan.script.replace(/^/gm, "    ")}`);
+  }
+}
+
+async function runMigrations(
+  statuses: IndexMigrationStatus[],
+  options: MigrateOptions,
+  extraScript?: string
+): Promise<void> {
+  const plans: IndexMigrationPlan[] = [];
+  for (const status of statuses) {
+    if (!status.outdated && !options.includeCurrent) continue;
+    try {
+      plans.push(planIndexMigration(status, extraScript));
+    } catch (error) {
+      console.warn(`Skipping ${status.index}: ${(error as Error).message}`);
+    }
+  }
+
+  if (plans.length === 0) {
+    console.log(`All indices are on template v${LOG_TEMPLATE_VERSION}.`);
+    return;
+  }
+
+  plans.forEach(printPlan);
+  if (options.dryRun) {
+    console.log(`\nDry run: ${plans.length} indices would be migrated.`);
+    return;
+  }
+
+  await setupIndexTemplate();
+
+  let failed = 0;
+  for (const plan of plans) {
+    try {
+      const result = await migrateIndex(plan, {
+        pollIntervalMs: options.pollIntervalMs,
+        onProgress: ({ total, created, conflicts }) => {
+          if (total > 0) {
+            process.stdout.write(
+              `\r  ${plan.source}: ${(
+                created + conflicts
+              ).toLocaleString()}/${total.toLocaleString()}`
+            );
+          }
+        },
+      });
+      process.stdout.write("\n");
+      console.log(
+        `✅ ${result.source} → ${
+          result.target
+        }: ${result.targetDocs.toLocaleString()} docs${
+          result.noops > 0 ? `, ${result.noops} skipped by script` : ""
+        } in ${(result.durationMs / 1000).toFixed(1)}s`
+      );
+    } catch (error: any) {
+      process.stdout.write("\n");
+      console.error(
+        `❌ ${plan.source}: ${
+          error.meta?.body?.error?.reason ?? error.message
+        } (source kept, write block lifted)`
+      );
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    console.warn(`\n${failed}/${plans.length} migrations failed.`);
+    process.exitCode = 1;
+  }
+}
+
+async function runMigrate(): Promise<void> {
+  const options = parseArgs();
+  if (!options.command) {
+    printUsage();
+    process.exit(1);
+    return;
+  }
+  if (!Number.isInteger(options.pollIntervalMs) || options.pollIntervalMs < 1) {
+    console.error(`Invalid --poll value: ${options.pollIntervalMs}`);
+    process.exit(1);
+    return;
+  }
+
+  let extraScript: string | undefined;
+  if (options.scriptFile) {
+    try {
+      extraScript = fs.readFileSync(options.scriptFile, "utf8");
+    } catch (error) {
+      console.error(
+        `Cannot read script ${options.scriptFile}:`,
+        (error as Error).message
+      );
+      process.exit(1);
+      return;
+    }
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  try {
+    const statuses = await getMigrationStatus(options.pattern);
+    if (statuses.length === 0) {
+      console.log(`No indices match ${options.pattern}.`);
+      return;
+    }
+
+    switch (options.command) {
+      case "status":
+        runStatus(statuses);
+        break;
+      case "diff":
+        runDiff(statuses);
+        break;
+      case "run":
+        await runMigrations(statuses, options, extraScript);
+        break;
+    }
+  } catch (error: any) {
+    console.error(
+      `Migration ${options.command} failed:`,
+      error.meta?.body?.error?.reason ?? error.message
+    );
+    process.exitCode = 1;
+  } finally {
+    await closeClient();
+  }
+}
+
+runMigrate().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
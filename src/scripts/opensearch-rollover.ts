@@ -0,0 +1,303 @@
+import { testConnection, closeClient } from "../config/opensearch.config";
+import {
+  getIndexLayout,
+  LOGS_READ_ALIAS,
+  LOGS_WRITE_ALIAS,
+} from "../opensearch/index-resolver";
+import {
+  bootstrapRolloverIndex,
+  findDailyIndices,
+  getAliasMembership,
+  migrateDailyIndex,
+  MigrationOptions,
+  MigrationResult,
+  rolloverWriteAlias,
+  RolloverConditions,
+} from "../opensearch/rollover";
+
+const COMMANDS = ["bootstrap", "rollover", "status", "migrate"] as const;
+type RolloverCommand = (typeof COMMANDS)[number];
+
+interface RolloverOptions {
+  command?: RolloverCommand;
+  conditions: RolloverConditions;
+  aliasOnly: boolean;
+  deleteSource: boolean;
+  pollIntervalMs: number;
+  dryRun: boolean;
+}
+
+function parseArgs(): RolloverOptions {
+  const args = process.argv.slice(2);
+  const options: RolloverOptions = {
+    conditions: {},
+    aliasOnly: false,
+    deleteSource: false,
+    pollIntervalMs: 2000,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      if (!options.command && COMMANDS.includes(arg as RolloverCommand)) {
+        options.command = arg as RolloverCommand;
+      } else {
+        console.warn(`Unknown command ignored: ${arg}`);
+      }
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--max-age":
+        if (value) options.conditions.max_age = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--max-docs":
+        if (value) options.conditions.max_docs = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--max-size":
+        if (value) options.conditions.max_size = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--poll":
+        if (value) options.pollIntervalMs = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--alias-only":
+        options.aliasOnly = true;
+        break;
+      case "--delete-source":
+        options.deleteSource = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run opensearch:rollover -- <command> [options]
+
+Commands:
+  bootstrap             Install the rollover template and create logs-000001 behind ${LOGS_WRITE_ALIAS}
+  rollover [--dry-run]  Roll ${LOGS_WRITE_ALIAS} over to a new backing index
+    --max-age=1d --max-docs=50000000 --max-size=30gb   (only roll over when one is met)
+  status                Show the indices behind ${LOGS_WRITE_ALIAS} and ${LOGS_READ_ALIAS}
+  migrate [--dry-run]   Move the logs-YYYY-MM-DD indices into the rollover layout
+    --alias-only          Add them to ${LOGS_READ_ALIAS} instead of reindexing
+    --delete-source       Delete each daily index once fully reindexed
+    --poll=2000           Task polling interval in ms`);
+}
+
+async function runStatus(): Promise<void> {
+  const membership = await getAliasMembership();
+  if (membership.length === 0) {
+    console.log(
+      `No indices behind ${LOGS_WRITE_ALIAS} or ${LOGS_READ_ALIAS}; run bootstrap first.`
+    );
+  } else {
+    console.log("Index".padEnd(36) + "Read".padEnd(8) + "Write");
+    console.log("-".repeat(50));
+    for (const { index, read, write } of membership) {
+      console.log(
+        index.padEnd(36) +
+          (read ? "yes" : "-").padEnd(8) +
+          (write ? "yes" : "-")
+      );
+    }
+  }
+
+  const daily = await findDailyIndices();
+  if (daily.length > 0) {
+    console.log(
+      `\n${daily.length} daily indices not migrated yet (${daily[0].index} … ${
+        daily[daily.length - 1].index
+      })`
+    );
+  }
+  console.log(`\nLOG_INDEX_LAYOUT: ${getIndexLayout()}`);
+}
+
+async function runRollover(options: RolloverOptions): Promise<void> {
+  const hasConditions = Object.keys(options.conditions).length > 0;
+  const result = await rolloverWriteAlias(
+    hasConditions ? options.conditions : undefined,
+    options.dryRun
+  );
+
+  const met = Object.entries(result.conditions)
+    .map(([condition, value]) => `${condition}=${value}`)
+    .join(", ");
+  if (result.rolledOver) {
+    console.log(
+      `✅ Rolled over ${result.oldIndex} → ${result.newIndex}${
+        met ? ` (${met})` : ""
+      }`
+    );
+  } else {
+    console.log(
+      `${options.dryRun ? "Dry run: would roll over" : "Not rolled over:"} ${
+        result.oldIndex
+      } → ${result.newIndex}${met ? ` (${met})` : ""}`
+    );
+  }
+}
+
+function printMigrationResult(result: MigrationResult): void {
+  const seconds = (result.durationMs / 1000).toFixed(1);
+  if (result.mode === "alias") {
+    console.log(`✅ ${result.index} added to ${LOGS_READ_ALIAS}`);
+    return;
+  }
+
+  const status = result.failures.length > 0 ? "⚠️ " : "✅";
+  console.log(
+    `${status} ${
+      result.index
+    }: ${result.created.toLocaleString()} created, ${result.conflicts.toLocaleString()} already present in ${seconds}s${
+      result.deleted ? ", source deleted" : ""
+    }`
+  );
+  result.failures
+    .slice(0, 5)
+    .forEach((failure) => console.warn(`  ❌ ${failure}`));
+  if (result.failures.length > 5) {
+    console.warn(`  ... ${result.failures.length - 5} more`);
+  }
+}
+
+async function runMigrate(options: RolloverOptions): Promise<void> {
+  const daily = await findDailyIndices();
+  if (daily.length === 0) {
+    console.log("No logs-YYYY-MM-DD indices to migrate.");
+    return;
+  }
+
+  const mode: MigrationOptions["mode"] = options.aliasOnly
+    ? "alias"
+    : "reindex";
+  const totalDocs = daily.reduce((sum, index) => sum + index.docs, 0);
+  console.log(
+    `${daily.length} daily indices (${totalDocs.toLocaleString()} docs) → ${
+      mode === "alias" ? LOGS_READ_ALIAS : LOGS_WRITE_ALIAS
+    }`
+  );
+
+  if (options.dryRun) {
+    daily.forEach(({ index, docs, size }) =>
+      console.log(
+        `  ${index.padEnd(24)} ${docs
+          .toLocaleString()
+          .padStart(14)} docs  ${size}`
+      )
+    );
+    console.log("Dry run: nothing was migrated.");
+    return;
+  }
+
+  const { index, created } = await bootstrapRolloverIndex();
+  if (created) console.log(`Created ${index} behind ${LOGS_WRITE_ALIAS}`);
+
+  let failed = 0;
+  for (const source of daily) {
+    const result = await migrateDailyIndex(source, {
+      mode,
+      deleteSource: options.deleteSource,
+      pollIntervalMs: options.pollIntervalMs,
+      onProgress: ({ index, total, created, conflicts }) => {
+        if (total > 0) {
+          process.stdout.write(
+            `\r  ${index}: ${(
+              created + conflicts
+            ).toLocaleString()}/${total.toLocaleString()}`
+          );
+        }
+      },
+    });
+    if (mode === "reindex") process.stdout.write("\n");
+    printMigrationResult(result);
+    if (result.failures.length > 0) failed++;
+  }
+
+  if (failed > 0) {
+    console.warn(
+      `\n${failed} indices had failures${
+        options.deleteSource ? " and were kept" : ""
+      }.`
+    );
+    process.exitCode = 1;
+  }
+  if (getIndexLayout() !== "rollover") {
+    console.log(
+      `\nSet LOG_INDEX_LAYOUT=rollover so ingestion writes to ${LOGS_WRITE_ALIAS} and queries read ${LOGS_READ_ALIAS}.`
+    );
+  }
+}
+
+async function runRolloverCommand(): Promise<void> {
+  const options = parseArgs();
+  if (!options.command) {
+    printUsage();
+    process.exit(1);
+    return;
+  }
+  if (!Number.isInteger(options.pollIntervalMs) || options.pollIntervalMs < 1) {
+    console.error(`Invalid --poll value: ${options.pollIntervalMs}`);
+    process.exit(1);
+    return;
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  try {
+    switch (options.command) {
+      case "bootstrap": {
+        const { index, created } = await bootstrapRolloverIndex();
+        console.log(
+          created
+            ? `✅ Created ${index} behind ${LOGS_WRITE_ALIAS} and ${LOGS_READ_ALIAS}`
+            : `${LOGS_WRITE_ALIAS} already points to ${index}`
+        );
+        break;
+      }
+      case "rollover":
+        await runRollover(options);
+        break;
+      case "status":
+        await runStatus();
+        break;
+      case "migrate":
+        await runMigrate(options);
+        break;
+    }
+  } catch (error: any) {
+    console.error(
+      `Rollover ${options.command} failed:`,
+      error.meta?.body?.error?.reason ?? error.message
+    );
+    process.exitCode = 1;
+  } finally {
+    await closeClient();
+  }
+}
+
+runRolloverCommand().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
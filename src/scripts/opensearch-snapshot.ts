@@ -0,0 +1,218 @@
+import { testConnection, closeClient } from "../config/opensearch.config";
+import { LOG_INDEX_PATTERN } from "../opensearch/index-resolver";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshotRepository,
+  listSnapshots,
+  registerSnapshotRepository,
+  restoreSnapshot,
+  SnapshotInfo,
+} from "../opensearch/snapshots";
+
+const COMMANDS = ["create", "list", "restore", "delete"] as const;
+type SnapshotCommand = (typeof COMMANDS)[number];
+
+interface SnapshotOptions {
+  command?: SnapshotCommand;
+  // Snapshot name for create (optional), restore and delete
+  name?: string;
+  indices: string[];
+  renamePrefix?: string;
+}
+
+function parseArgs(): SnapshotOptions {
+  const args = process.argv.slice(2);
+  const options: SnapshotOptions = { indices: [] };
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      if (!options.command) {
+        if (!COMMANDS.includes(arg as SnapshotCommand)) {
+          console.warn(`Unknown command ignored: ${arg}`);
+          continue;
+        }
+        options.command = arg as SnapshotCommand;
+      } else {
+        positional.push(arg);
+      }
+      continue;
+    }
+
+    const [flag, value] = arg.includes("=")
+      ? arg.split("=")
+      : [arg, args[i + 1]];
+
+    switch (flag) {
+      case "--name":
+        if (value) options.name = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--indices":
+        if (value) {
+          options.indices = value.split(",").map((s) => s.trim());
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--rename-prefix":
+        if (value) options.renamePrefix = value;
+        if (!arg.includes("=")) i++;
+        break;
+      default:
+        console.warn(`Unknown flag ignored: ${flag}`);
+    }
+  }
+
+  // create takes indices positionally; restore/delete take the snapshot
+  // name first
+  if (options.command === "create") {
+    options.indices.push(...positional);
+  } else if (positional.length > 0) {
+    options.name = positional[0];
+    options.indices.push(...positional.slice(1));
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  const repository = getSnapshotRepository();
+  console.log(`Usage: npm run snapshot:<command> -- [args] [options]
+
+Repository: ${repository.name} (fs, ${repository.location})
+  Override with SNAPSHOT_REPOSITORY / SNAPSHOT_LOCATION; the location must be
+  listed in the node's path.repo
+
+Commands:
+  create [indices...]          Snapshot indices or patterns (default ${LOG_INDEX_PATTERN})
+    --name=<snapshot>            Defaults to logs-YYYY.MM.DD-HHmmss
+  list                         Snapshots in the repository
+  restore <snapshot> [indices...]
+    --rename-prefix=restored-    Restore as restored-<index>, without aliases,
+                                 instead of replacing the live index
+  delete <snapshot>            Delete a snapshot`);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function printSnapshots(snapshots: SnapshotInfo[]): void {
+  if (snapshots.length === 0) {
+    console.log("No snapshots found.");
+    return;
+  }
+
+  console.log(
+    "Snapshot".padEnd(30) +
+      "State".padEnd(14) +
+      "Started".padEnd(22) +
+      "Duration".padStart(10) +
+      "Indices".padStart(10)
+  );
+  console.log("-".repeat(86));
+  for (const snapshot of snapshots) {
+    const started = snapshot.startTime
+      ? snapshot.startTime.toISOString().replace("T", " ").slice(0, 19)
+      : "-";
+    console.log(
+      snapshot.name.padEnd(30) +
+        snapshot.state.padEnd(14) +
+        started.padEnd(22) +
+        formatDuration(snapshot.durationMs).padStart(10) +
+        String(snapshot.indices.length).padStart(10)
+    );
+  }
+}
+
+async function runSnapshot(): Promise<void> {
+  const options = parseArgs();
+  if (!options.command) {
+    printUsage();
+    process.exit(1);
+    return;
+  }
+  if (
+    (options.command === "restore" || options.command === "delete") &&
+    !options.name
+  ) {
+    console.error(`${options.command} needs a snapshot name.`);
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Unable to connect to OpenSearch cluster. Aborting.");
+    process.exit(1);
+    return;
+  }
+
+  const repository = getSnapshotRepository();
+  try {
+    await registerSnapshotRepository(repository);
+
+    switch (options.command) {
+      case "create": {
+        const indices =
+          options.indices.length > 0 ? options.indices : [LOG_INDEX_PATTERN];
+        console.log(
+          `Snapshotting ${indices.join(", ")} into ${repository.name}...`
+        );
+        const snapshot = await createSnapshot(
+          indices,
+          { name: options.name },
+          repository
+        );
+        console.log(
+          `✅ Snapshot ${snapshot.name}: ${snapshot.indices.length} indices, ${
+            snapshot.shards.successful
+          } shards in ${formatDuration(snapshot.durationMs)}`
+        );
+        break;
+      }
+      case "list":
+        printSnapshots(await listSnapshots(repository));
+        break;
+      case "restore": {
+        const result = await restoreSnapshot(
+          options.name!,
+          {
+            indices: options.indices,
+            renamePrefix: options.renamePrefix,
+          },
+          repository
+        );
+        console.log(
+          `✅ Restored ${result.indices.length} indices from ${result.snapshot}`
+        );
+        result.indices.forEach((index) => console.log(`  - ${index}`));
+        if (result.shards.failed > 0) {
+          console.warn(`⚠️  ${result.shards.failed} shards failed to restore`);
+          process.exitCode = 1;
+        }
+        break;
+      }
+      case "delete":
+        await deleteSnapshot(options.name!, repository);
+        console.log(`✅ Deleted snapshot ${options.name}`);
+        break;
+    }
+  } catch (error: any) {
+    console.error(
+      `Snapshot ${options.command} failed:`,
+      error.meta?.body?.error?.reason ?? error.message
+    );
+    process.exitCode = 1;
+  } finally {
+    await closeClient();
+  }
+}
+
+runSnapshot().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
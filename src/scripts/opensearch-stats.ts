@@ -3,6 +3,7 @@ import {
   testConnection,
   closeClient,
 } from "../config/opensearch.config";
+import { DataStreamInfo, listDataStreams } from "../opensearch/data-streams";
 
 interface IndexStats {
   name: string;
@@ -25,15 +26,18 @@ interface ClusterStats {
   diskPercent: number;
 }
 
-function parseArgs(): { index?: string } {
+function parseArgs(): { index?: string; dataStream?: string } {
   const args = process.argv.slice(2);
-  const options: { index?: string } = {};
+  const options: { index?: string; dataStream?: string } = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "--index" && args[i + 1]) {
       options.index = args[i + 1];
       i++;
+    } else if (arg === "--data-stream" && args[i + 1]) {
+      options.dataStream = args[i + 1];
+      i++;
     }
   }
 
@@ -150,9 +154,41 @@ function formatBytes(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
 }
 
+function printDataStreams(dataStreams: DataStreamInfo[]): void {
+  console.log("\n🌊 Data Streams:");
+  for (const stream of dataStreams) {
+    const lastEvent = stream.maxTimestamp
+      ? stream.maxTimestamp.toISOString()
+      : "none";
+    console.log(
+      `  ${stream.name} (${stream.status}, generation ${
+        stream.generation
+      }, template ${
+        stream.template
+      }): ${stream.documents.toLocaleString()} docs, ${formatBytes(
+        stream.sizeBytes
+      )}, last ${stream.timestampField} ${lastEvent}`
+    );
+    for (const index of stream.backingIndices) {
+      const created = index.creationDate
+        ? index.creationDate.toISOString().split("T")[0]
+        : "unknown";
+      console.log(
+        "    " +
+          index.index.padEnd(38) +
+          index.documents.toLocaleString().padStart(15) +
+          formatBytes(index.sizeBytes).padStart(12) +
+          created.padStart(12) +
+          (index.write ? "  (write)" : "")
+      );
+    }
+  }
+}
+
 function printStats(
   clusterStats: ClusterStats,
-  indexStats: IndexStats[]
+  indexStats: IndexStats[],
+  dataStreams: DataStreamInfo[] = []
 ): void {
   console.log("\n" + "=".repeat(80));
   console.log("OpenSearch Cluster Statistics");
@@ -218,6 +254,10 @@ function printStats(
     }
   }
 
+  if (dataStreams.length > 0) {
+    printDataStreams(dataStreams);
+  }
+
   console.log("\n" + "=".repeat(80) + "\n");
 }
 
@@ -233,9 +273,20 @@ async function main(): Promise<void> {
   }
 
   try {
+    if (options.dataStream) {
+      const dataStreams = await listDataStreams(options.dataStream);
+      if (dataStreams.length === 0) {
+        console.log(`No data streams match ${options.dataStream}.`);
+      } else {
+        printDataStreams(dataStreams);
+      }
+      return;
+    }
+
     const clusterStats = await getClusterStats();
     const indexStats = await getIndexStats(options.index);
-    printStats(clusterStats, indexStats);
+    const dataStreams = options.index ? [] : await listDataStreams();
+    printStats(clusterStats, indexStats, dataStreams);
   } catch (error) {
     console.error("Error retrieving statistics:", error);
     process.exit(1);
@@ -0,0 +1,107 @@
+import { LogEntry } from "../../types/log.types";
+import {
+  buildLogEntry,
+  categoryFromStatus,
+  httpError,
+  levelFromStatus,
+  LogLineParser,
+  ParserContext,
+} from "./log-parser";
+
+// host ident authuser [time] "request" status bytes ["referer" "user-agent"]
+// [request_time], the last one being nginx's $request_time in seconds
+const COMBINED_LOG =
+  /^(\S+) (\S+) (\S+) \[([^\]]+)\] "((?:[^"\\]|\\.)*)" (\d{3}) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?(?: (\d+(?:\.\d+)?))?\s*$/;
+
+const MONTHS: Record<string, number> = {
+  Jan: 0,
+  Feb: 1,
+  Mar: 2,
+  Apr: 3,
+  May: 4,
+  Jun: 5,
+  Jul: 6,
+  Aug: 7,
+  Sep: 8,
+  Oct: 9,
+  Nov: 10,
+  Dec: 11,
+};
+
+// `10/Oct/2000:13:55:36 -0700`
+export function parseAccessLogTime(value: string): Date {
+  const match = value.match(
+    /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/
+  );
+  if (!match || MONTHS[match[2]] === undefined) {
+    throw new Error(`Invalid access log time "${value}"`);
+  }
+
+  const [, day, month, year, hour, minute, second, sign, offH, offM] = match;
+  const offsetMinutes =
+    (sign === "-" ? -1 : 1) * (Number(offH) * 60 + Number(offM));
+  const utc = Date.UTC(
+    Number(year),
+    MONTHS[month],
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  return new Date(utc - offsetMinutes * 60_000);
+}
+
+function unescape(value: string | undefined): string {
+  return (value ?? "").replace(/\\(.)/g, "$1");
+}
+
+function dash(value: string): string {
+  return value === "-" ? "" : value;
+}
+
+/**
+ * Apache and nginx "combined" access logs (the common format without
+ * referer and user agent is accepted too).
+ */
+export class AccessLogParser implements LogLineParser {
+  constructor(readonly format: string) {}
+
+  parse(line: string, context: ParserContext): LogEntry | null {
+    if (line.startsWith("#")) return null;
+
+    const match = line.match(COMBINED_LOG);
+    if (!match) {
+      throw new Error(`Not a ${this.format} combined log line`);
+    }
+
+    const [, ip, , user, time, request, statusText, , , agent, took] = match;
+    const status = Number(statusText);
+    const [method = "-", path = "-"] = unescape(request).split(" ");
+    const durationMs = took !== undefined ? Number(took) * 1000 : undefined;
+
+    return buildLogEntry(
+      {
+        line,
+        timestamp: parseAccessLogTime(time),
+        level: levelFromStatus(status),
+        category: categoryFromStatus(status),
+        message: `${method} ${path} ${status}`,
+        error: httpError(status),
+        request: {
+          method,
+          path,
+          user_id: dash(user),
+          ip,
+          user_agent: dash(unescape(agent)),
+          duration_ms: durationMs,
+        },
+        responseTimeMs: durationMs,
+        tags: [this.format, `status:${status}`],
+      },
+      context
+    );
+  }
+}
+
+export const apacheParser = new AccessLogParser("apache");
+export const nginxParser = new AccessLogParser("nginx");
@@ -0,0 +1,181 @@
+import { LogEntry } from "../../types/log.types";
+import { coerceLogLevel } from "../utils/log-validator";
+import {
+  buildLogEntry,
+  categoryFromStatus,
+  httpError,
+  levelFromStatus,
+  LogLineParser,
+  parseDurationMs,
+  ParserContext,
+} from "./log-parser";
+
+// pino and bunyan write numeric levels
+const NUMERIC_LEVELS: Array<[number, LogEntry["level"]]> = [
+  [60, "fatal"],
+  [50, "error"],
+  [40, "warn"],
+  [30, "info"],
+  [20, "debug"],
+  [10, "trace"],
+];
+
+type JsonRecord = Record<string, any>;
+
+/**
+ * Reads a dotted path from either nested objects (`{log: {level}}`) or a
+ * flattened key (`{"log.level": ...}`), as ECS loggers write both.
+ */
+function get(record: JsonRecord, path: string): any {
+  if (record[path] !== undefined) return record[path];
+  return path
+    .split(".")
+    .reduce<any>(
+      (value, key) =>
+        value && typeof value === "object" ? value[key] : undefined,
+      record
+    );
+}
+
+function first(record: JsonRecord, paths: string[]): any {
+  for (const path of paths) {
+    const value = get(record, path);
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (value === undefined || value === null || typeof value === "object") {
+    return undefined;
+  }
+  return typeof value === "string" ? value : String(value);
+}
+
+function toLevel(value: unknown): LogEntry["level"] | undefined {
+  if (typeof value === "number") {
+    return NUMERIC_LEVELS.find(([threshold]) => value >= threshold)?.[1];
+  }
+  return coerceLogLevel(value);
+}
+
+function toTimestamp(value: unknown): Date {
+  if (value === undefined) {
+    throw new Error("Missing time/timestamp field");
+  }
+  return new Date(value as string | number);
+}
+
+function toError(value: unknown, status?: number): LogEntry["error"] {
+  if (value && typeof value === "object") {
+    const err = value as JsonRecord;
+    return {
+      type: asString(err.type ?? err.name) ?? "Error",
+      message: asString(err.message) ?? "",
+      stack_trace: asString(err.stack ?? err.stack_trace) ?? "",
+      code: asString(err.code) ?? (status ? String(status) : ""),
+    };
+  }
+  return {
+    type: "Error",
+    message: asString(value) ?? "",
+    stack_trace: "",
+    code: status ? String(status) : "",
+  };
+}
+
+/**
+ * One JSON object per line as written by common logging frameworks:
+ * pino and bunyan (`msg`, numeric `level`, `time`, `req`/`res`), winston
+ * (`message`, `level`, `timestamp`) and ECS / Logstash (`@timestamp`,
+ * `log.level`, `http.*`, `url.path`, `client.ip`).
+ */
+export const jsonLinesParser: LogLineParser = {
+  format: "jsonl",
+  parse(line: string, context: ParserContext): LogEntry | null {
+    let record: JsonRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    if (!record || typeof record !== "object" || Array.isArray(record)) {
+      throw new Error("Expected a JSON object");
+    }
+
+    const status = Number(
+      first(record, [
+        "res.statusCode",
+        "http.response.status_code",
+        "statusCode",
+        "status",
+      ])
+    );
+    const hasStatus = Number.isInteger(status) && status > 0;
+    const method = asString(
+      first(record, ["req.method", "http.request.method", "method"])
+    );
+    const path = asString(
+      first(record, ["req.url", "url.path", "url.original", "path", "url"])
+    );
+    const durationMs = parseDurationMs(
+      first(record, ["responseTime", "duration_ms", "duration", "elapsed"])
+    );
+    const rawError = first(record, ["err", "error"]);
+    const host = asString(first(record, ["hostname", "host.name", "host"]));
+    const pid = asString(first(record, ["pid", "process.pid"]));
+
+    const level =
+      toLevel(first(record, ["level", "log.level", "severity"])) ??
+      (hasStatus ? levelFromStatus(status) : rawError ? "error" : "info");
+
+    return buildLogEntry(
+      {
+        line,
+        timestamp: toTimestamp(
+          first(record, ["@timestamp", "timestamp", "time", "ts"])
+        ),
+        level,
+        category: hasStatus ? categoryFromStatus(status) : undefined,
+        message:
+          asString(first(record, ["msg", "message"])) ??
+          (method && path ? `${method} ${path}` : ""),
+        service: asString(
+          first(record, ["service.name", "name", "app", "service"])
+        ),
+        host,
+        instanceId: pid ? `${host || context.host}:${pid}` : "",
+        error: rawError
+          ? toError(rawError, hasStatus ? status : undefined)
+          : hasStatus
+          ? httpError(status)
+          : undefined,
+        request:
+          method || path
+            ? {
+                id: asString(
+                  first(record, ["req.id", "reqId", "request_id", "trace.id"])
+                ),
+                method,
+                path,
+                user_id: asString(first(record, ["user.id", "userId"])),
+                ip: asString(
+                  first(record, ["req.remoteAddress", "client.ip", "ip"])
+                ),
+                user_agent: asString(
+                  first(record, [
+                    "req.headers.user-agent",
+                    "user_agent.original",
+                    "userAgent",
+                  ])
+                ),
+                duration_ms: durationMs,
+              }
+            : undefined,
+        responseTimeMs: durationMs,
+        tags: ["jsonl"],
+      },
+      context
+    );
+  },
+};
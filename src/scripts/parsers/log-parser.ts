@@ -0,0 +1,184 @@
+import { createHash, randomUUID } from "crypto";
+import { LogEntry } from "../../types/log.types";
+
+/**
+ * Values for the `LogEntry` fields a source format does not carry, such as
+ * the service version or region of an nginx host.
+ */
+export interface ParserContext {
+  service: string;
+  environment: LogEntry["service"]["environment"];
+  host: string;
+  region: string;
+  // Year for formats whose timestamps omit it (RFC 3164 syslog)
+  year: number;
+  // Input the line comes from (e.g. the file name) and its line number
+  source?: string;
+  lineNumber?: number;
+}
+
+/**
+ * Turns one line of a text log format into a `LogEntry`. Returns `null` for
+ * lines that carry no log (comments) and throws with the reason for lines
+ * that cannot be parsed.
+ */
+export interface LogLineParser {
+  readonly format: string;
+  parse(line: string, context: ParserContext): LogEntry | null;
+}
+
+export function defaultParserContext(
+  overrides: Partial<ParserContext> = {}
+): ParserContext {
+  return {
+    service: "imported",
+    environment: "production",
+    host: "unknown",
+    region: "unknown",
+    year: new Date().getUTCFullYear(),
+    ...overrides,
+  };
+}
+
+export interface ParsedFields {
+  // Raw input line, which determines the log id
+  line: string;
+  timestamp: Date;
+  level: LogEntry["level"];
+  category?: LogEntry["category"];
+  message: string;
+  service?: string;
+  host?: string;
+  instanceId?: string;
+  error?: LogEntry["error"];
+  request?: Partial<LogEntry["request"]>;
+  responseTimeMs?: number;
+  tags?: string[];
+}
+
+/**
+ * Ids are derived from the source, line number and text of a line, so
+ * importing the same input again with `--idempotent` yields the same ids
+ * and skips logs that are already indexed, while repeated identical lines
+ * stay distinct.
+ */
+export function logLineId(line: string, context: ParserContext): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([context.source ?? "", context.lineNumber ?? 0, line])
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Fills a `LogEntry` from the fields a parser extracted, using the context
+ * for everything the source does not provide.
+ */
+export function buildLogEntry(
+  fields: ParsedFields,
+  context: ParserContext
+): LogEntry {
+  if (Number.isNaN(fields.timestamp.getTime())) {
+    throw new Error("Invalid timestamp");
+  }
+
+  const host = fields.host || context.host;
+  const entry: LogEntry = {
+    id: logLineId(fields.line, context),
+    timestamp: fields.timestamp.toISOString(),
+    service: {
+      name: fields.service || context.service,
+      version: "unknown",
+      environment: context.environment,
+      instance_id: fields.instanceId || host,
+      host,
+      region: context.region,
+    },
+    level: fields.level,
+    category: fields.category ?? "application",
+    message: fields.message,
+    metrics: {
+      cpu_usage: 0,
+      memory_mb: 0,
+      response_time_ms: Math.round(fields.responseTimeMs ?? 0),
+      db_query_time_ms: 0,
+    },
+    tags: fields.tags ?? [],
+    geo: {
+      country: "unknown",
+      city: "unknown",
+      location: { lat: 0, lon: 0 },
+    },
+  };
+
+  if (fields.error) {
+    entry.error = fields.error;
+  }
+
+  if (fields.request) {
+    entry.request = {
+      id: fields.request.id || randomUUID(),
+      method: fields.request.method || "-",
+      path: fields.request.path || "-",
+      user_id: fields.request.user_id ?? "",
+      ip: fields.request.ip || "0.0.0.0",
+      user_agent: fields.request.user_agent ?? "",
+      duration_ms: Math.round(
+        fields.request.duration_ms ?? fields.responseTimeMs ?? 0
+      ),
+    };
+  }
+
+  return entry;
+}
+
+export function levelFromStatus(status: number): LogEntry["level"] {
+  if (status >= 500) return "error";
+  if (status >= 400) return "warn";
+  return "info";
+}
+
+export function categoryFromStatus(status: number): LogEntry["category"] {
+  return status === 401 || status === 403 ? "security" : "application";
+}
+
+// 5xx responses are recorded as errors so `hasError` filters find them
+export function httpError(status: number): LogEntry["error"] | undefined {
+  if (status < 500) return undefined;
+  return {
+    type: "HttpError",
+    message: `HTTP ${status}`,
+    stack_trace: "",
+    code: String(status),
+  };
+}
+
+/**
+ * Parses durations such as `250`, `250ms`, `1.5s` or `300us` into
+ * milliseconds; bare numbers are taken as milliseconds.
+ */
+export function parseDurationMs(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m)?$/);
+  if (!match) return undefined;
+
+  const amount = Number(match[1]);
+  switch (match[2]) {
+    case "ns":
+      return amount / 1_000_000;
+    case "us":
+    case "µs":
+      return amount / 1000;
+    case "s":
+      return amount * 1000;
+    case "m":
+      return amount * 60_000;
+    default:
+      return amount;
+  }
+}
@@ -0,0 +1,151 @@
+import { LogEntry } from "../../types/log.types";
+import { coerceLogLevel } from "../utils/log-validator";
+import {
+  buildLogEntry,
+  categoryFromStatus,
+  httpError,
+  levelFromStatus,
+  LogLineParser,
+  parseDurationMs,
+  ParserContext,
+} from "./log-parser";
+
+/**
+ * Splits a logfmt line (`level=info msg="user logged in" ok`) into its
+ * pairs. Bare keys are `true`; quoted values support `\"` and `\\`.
+ */
+export function parseLogfmt(line: string): Record<string, string | true> {
+  const pairs: Record<string, string | true> = {};
+  let i = 0;
+
+  while (i < line.length) {
+    while (line[i] === " " || line[i] === "\t") i++;
+    if (i >= line.length) break;
+
+    const keyStart = i;
+    while (i < line.length && line[i] !== "=" && line[i] !== " ") i++;
+    const key = line.slice(keyStart, i);
+
+    if (line[i] !== "=") {
+      if (key) pairs[key] = true;
+      continue;
+    }
+    i++;
+
+    let value = "";
+    if (line[i] === '"') {
+      let closed = false;
+      for (i++; i < line.length; i++) {
+        if (line[i] === "\\" && i + 1 < line.length) {
+          value += line[++i];
+        } else if (line[i] === '"') {
+          closed = true;
+          i++;
+          break;
+        } else {
+          value += line[i];
+        }
+      }
+      if (!closed) {
+        throw new Error(`Unterminated quoted value for "${key}"`);
+      }
+    } else {
+      const valueStart = i;
+      while (i < line.length && line[i] !== " " && line[i] !== "\t") i++;
+      value = line.slice(valueStart, i);
+    }
+
+    if (key) pairs[key] = value;
+  }
+
+  return pairs;
+}
+
+function pick(
+  pairs: Record<string, string | true>,
+  keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = pairs[key];
+    if (typeof value === "string" && value.length > 0) return value;
+  }
+  return undefined;
+}
+
+function parseTime(value: string | undefined): Date {
+  if (value === undefined) {
+    throw new Error("Missing time/ts field");
+  }
+  // Epoch seconds or milliseconds
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const epoch = Number(value);
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch);
+  }
+  return new Date(value);
+}
+
+/**
+ * logfmt as written by Go (logrus, log/slog, go-kit), Heroku and others.
+ * Well-known keys map onto `LogEntry`; the rest are ignored.
+ */
+export const logfmtParser: LogLineParser = {
+  format: "logfmt",
+  parse(line: string, context: ParserContext): LogEntry | null {
+    if (line.startsWith("#")) return null;
+
+    const pairs = parseLogfmt(line);
+    if (Object.keys(pairs).length === 0) return null;
+
+    const status = Number(pick(pairs, ["status", "status_code"]));
+    const hasStatus = Number.isInteger(status) && status > 0;
+    const method = pick(pairs, ["method", "http_method"]);
+    const path = pick(pairs, ["path", "uri", "url"]);
+    const durationMs = parseDurationMs(
+      pick(pairs, ["duration", "duration_ms", "latency", "took", "elapsed"])
+    );
+    const errorMessage = pick(pairs, ["error", "err"]);
+
+    const level =
+      coerceLogLevel(pick(pairs, ["level", "lvl", "severity"])) ??
+      (hasStatus ? levelFromStatus(status) : errorMessage ? "error" : "info");
+
+    return buildLogEntry(
+      {
+        line,
+        timestamp: parseTime(pick(pairs, ["time", "ts", "timestamp", "t"])),
+        level,
+        category: hasStatus ? categoryFromStatus(status) : undefined,
+        message:
+          pick(pairs, ["msg", "message"]) ??
+          (method && path ? `${method} ${path}` : line),
+        service: pick(pairs, ["service", "app", "component"]),
+        host: pick(pairs, ["host", "hostname"]),
+        error: errorMessage
+          ? {
+              type: pick(pairs, ["error_type", "err_type"]) ?? "Error",
+              message: errorMessage,
+              stack_trace: pick(pairs, ["stack", "stacktrace"]) ?? "",
+              code: hasStatus ? String(status) : "",
+            }
+          : hasStatus
+          ? httpError(status)
+          : undefined,
+        request:
+          method || path
+            ? {
+                id: pick(pairs, ["request_id", "req_id", "trace_id"]),
+                method,
+                path,
+                user_id: pick(pairs, ["user_id", "user"]),
+                ip: pick(pairs, ["ip", "remote_addr", "client_ip"]),
+                user_agent: pick(pairs, ["user_agent", "ua"]),
+                duration_ms: durationMs,
+              }
+            : undefined,
+        responseTimeMs: durationMs,
+        tags: ["logfmt"],
+      },
+      context
+    );
+  },
+};
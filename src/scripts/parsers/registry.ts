@@ -0,0 +1,25 @@
+import { apacheParser, nginxParser } from "./access-log";
+import { jsonLinesParser } from "./json-lines";
+import { logfmtParser } from "./logfmt";
+import { LogLineParser } from "./log-parser";
+import { syslogParser } from "./syslog";
+
+const LOG_PARSERS = {
+  apache: apacheParser,
+  nginx: nginxParser,
+  syslog: syslogParser,
+  logfmt: logfmtParser,
+  jsonl: jsonLinesParser,
+} satisfies Record<string, LogLineParser>;
+
+export type LogLineFormat = keyof typeof LOG_PARSERS;
+
+export const LOG_LINE_FORMATS = Object.keys(LOG_PARSERS) as LogLineFormat[];
+
+function isLogLineFormat(format: string): format is LogLineFormat {
+  return Object.prototype.hasOwnProperty.call(LOG_PARSERS, format);
+}
+
+export function getLogParser(format: string): LogLineParser | undefined {
+  return isLogLineFormat(format) ? LOG_PARSERS[format] : undefined;
+}
@@ -0,0 +1,189 @@
+import { LogEntry } from "../../types/log.types";
+import { buildLogEntry, LogLineParser, ParserContext } from "./log-parser";
+
+// Severity (PRI % 8): emerg, alert, crit, err, warning, notice, info, debug
+const SEVERITY_LEVELS: LogEntry["level"][] = [
+  "fatal",
+  "fatal",
+  "fatal",
+  "error",
+  "warn",
+  "info",
+  "info",
+  "debug",
+];
+
+// Facility (PRI / 8): auth and authpriv are security, "log audit" is audit,
+// and kernel, daemon, syslog, cron and ntp messages are system
+const FACILITY_CATEGORIES: Record<number, LogEntry["category"]> = {
+  0: "system",
+  3: "system",
+  4: "security",
+  5: "system",
+  9: "system",
+  10: "security",
+  12: "system",
+  13: "audit",
+  15: "system",
+};
+
+const RFC5424 =
+  /^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) ([\s\S]*)$/;
+
+// `Oct 11 22:14:15 host tag[pid]: message`
+const RFC3164 =
+  /^<(\d{1,3})>([A-Z][a-z]{2}) ([ \d]\d) (\d{2}):(\d{2}):(\d{2}) (\S+) ([^:\[\s]+)(?:\[([^\]]+)\])?:? ?([\s\S]*)$/;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function nil(value: string): string {
+  return value === "-" ? "" : value;
+}
+
+function fromPriority(priority: number): {
+  level: LogEntry["level"];
+  category: LogEntry["category"];
+  facility: number;
+} {
+  if (priority > 191) {
+    throw new Error(`Invalid syslog priority ${priority}`);
+  }
+  const facility = Math.floor(priority / 8);
+  return {
+    level: SEVERITY_LEVELS[priority % 8],
+    category: FACILITY_CATEGORIES[facility] ?? "application",
+    facility,
+  };
+}
+
+/**
+ * Returns the message that follows RFC 5424 STRUCTURED-DATA (`-` or a run
+ * of `[id key="value"]` elements, where values may contain escaped `]`).
+ */
+function skipStructuredData(rest: string): string {
+  if (rest.startsWith("-")) {
+    return rest.slice(1).replace(/^ /, "");
+  }
+
+  let i = 0;
+  while (rest[i] === "[") {
+    let inValue = false;
+    for (i++; i < rest.length; i++) {
+      const char = rest[i];
+      if (inValue && char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inValue = !inValue;
+      } else if (char === "]" && !inValue) {
+        i++;
+        break;
+      }
+    }
+  }
+
+  if (i === 0) {
+    throw new Error("Invalid RFC 5424 structured data");
+  }
+  return rest.slice(i).replace(/^ /, "");
+}
+
+function parseRfc5424(
+  match: RegExpMatchArray,
+  context: ParserContext
+): LogEntry {
+  const [, priority, , time, host, app, procId, msgId, rest] = match;
+  const { level, category, facility } = fromPriority(Number(priority));
+  // Messages may start with a UTF-8 byte order mark
+  const message = skipStructuredData(rest).replace(/^\uFEFF/, "");
+
+  return buildLogEntry(
+    {
+      line: match.input ?? match[0],
+      timestamp: time === "-" ? new Date() : new Date(time),
+      level,
+      category,
+      message,
+      service: nil(app),
+      host: nil(host),
+      instanceId: nil(procId) ? `${nil(host) || context.host}:${procId}` : "",
+      tags: [
+        "syslog",
+        `facility:${facility}`,
+        ...(nil(msgId) ? [`msgid:${msgId}`] : []),
+      ],
+    },
+    context
+  );
+}
+
+function parseRfc3164(
+  match: RegExpMatchArray,
+  context: ParserContext
+): LogEntry {
+  const [, priority, month, day, hour, minute, second, host, tag, pid, msg] =
+    match;
+  const { level, category, facility } = fromPriority(Number(priority));
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex === -1) {
+    throw new Error(`Invalid syslog month "${month}"`);
+  }
+
+  return buildLogEntry(
+    {
+      line: match.input ?? match[0],
+      // RFC 3164 timestamps carry neither year nor zone; UTC is assumed
+      timestamp: new Date(
+        Date.UTC(
+          context.year,
+          monthIndex,
+          Number(day.trim()),
+          Number(hour),
+          Number(minute),
+          Number(second)
+        )
+      ),
+      level,
+      category,
+      message: msg,
+      service: tag,
+      host,
+      instanceId: pid ? `${host}:${pid}` : "",
+      tags: ["syslog", `facility:${facility}`],
+    },
+    context
+  );
+}
+
+/**
+ * Syslog lines in RFC 5424 (`<34>1 2003-10-11T22:14:15.003Z host app ...`)
+ * or the older BSD RFC 3164 format (`<34>Oct 11 22:14:15 host app: ...`).
+ */
+export const syslogParser: LogLineParser = {
+  format: "syslog",
+  parse(line: string, context: ParserContext): LogEntry | null {
+    const rfc5424 = line.match(RFC5424);
+    if (rfc5424 && rfc5424[2] === "1") {
+      return parseRfc5424(rfc5424, context);
+    }
+
+    const rfc3164 = line.match(RFC3164);
+    if (rfc3164) {
+      return parseRfc3164(rfc3164, context);
+    }
+
+    throw new Error("Not an RFC 5424 or RFC 3164 syslog line");
+  },
+};
@@ -5,16 +5,24 @@ interface ProgressData {
   total: number;
 }
 
+// For file imports, where the document count is unknown up front
+interface ByteProgress {
+  totalBytes: number;
+  bytesRead: () => number;
+}
+
 export class ProgressTracker extends Transform {
   private startTime: number;
   private lastUpdate: number;
   private expectedTotal: number;
+  private readonly byteProgress?: ByteProgress;
 
-  constructor(expectedTotal: number) {
+  constructor(expectedTotal: number, byteProgress?: ByteProgress) {
     super({ objectMode: true });
     this.startTime = Date.now();
     this.lastUpdate = Date.now();
     this.expectedTotal = expectedTotal;
+    this.byteProgress = byteProgress;
   }
 
   _transform(
@@ -24,7 +32,10 @@ export class ProgressTracker extends Transform {
   ): void {
     const now = Date.now();
 
-    if (now - this.lastUpdate > 2000) {
+    if (now - this.lastUpdate > 2000 && this.byteProgress) {
+      this.logByteProgress(chunk, now);
+      this.lastUpdate = now;
+    } else if (now - this.lastUpdate > 2000) {
       const elapsed = (now - this.startTime) / 1000;
       const rate = chunk.total / elapsed;
       const remaining = this.expectedTotal - chunk.total;
@@ -47,4 +58,22 @@ export class ProgressTracker extends Transform {
   _flush(callback: (error?: Error | null) => void): void {
     callback();
   }
+
+  private logByteProgress(chunk: ProgressData, now: number): void {
+    const { totalBytes, bytesRead } = this.byteProgress!;
+    const read = bytesRead();
+    const elapsed = (now - this.startTime) / 1000;
+    const byteRate = read / elapsed;
+    const eta = byteRate > 0 ? (totalBytes - read) / byteRate : 0;
+    const percentage =
+      totalBytes > 0 ? ((read / totalBytes) * 100).toFixed(2) : "0.00";
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+    console.log(
+      `Progress: ${chunk.total.toLocaleString()} docs | ` +
+        `${toMB(read)}/${toMB(totalBytes)} MB (${percentage}%) | ` +
+        `Rate: ${Math.round(chunk.total / elapsed)}/s | ` +
+        `ETA: ${Math.round(eta)}s`
+    );
+  }
 }
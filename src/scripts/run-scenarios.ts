@@ -1,16 +1,26 @@
 import { opensearchClient } from "../config/opensearch.config";
 import { setupIndexTemplate } from "../opensearch/setup";
 import { generateLogs, GenerateLogsResult } from "./generate-logs";
-import { generateLog } from "./generators/log-generator";
+import { generateLog, random } from "./generators/log-generator";
 import { LogEntry } from "../types/log.types";
+import { ValidationMode, VALIDATION_MODES } from "./transforms/log-validation";
+import { DeadLetterQueue } from "./utils/dead-letter-queue";
+import { AdaptiveOptions } from "./utils/adaptive-controller";
+import { setupCheckpoint } from "./utils/checkpoint";
 
 interface CliOptions {
   scenarioIds: string[];
   totalLogsOverride?: number;
   concurrencyOverride?: number;
   batchSizeOverride?: number;
+  maxBatchBytes?: number;
   indexPrefix?: string;
   forceRecreate?: boolean;
+  idempotent?: boolean;
+  validationMode?: ValidationMode;
+  adaptive?: AdaptiveOptions;
+  seed?: number;
+  resume?: boolean;
 }
 
 interface ScenarioContext {
@@ -101,6 +111,10 @@ function parseCliOptions(): CliOptions {
         options.batchSizeOverride = Number(value);
         if (!arg.includes("=")) i++;
         break;
+      case "--max-batch-mb":
+        options.maxBatchBytes = Number(value) * 1024 * 1024;
+        if (!arg.includes("=")) i++;
+        break;
       case "--prefix":
         options.indexPrefix = value || options.indexPrefix;
         if (!arg.includes("=")) i++;
@@ -109,6 +123,29 @@ function parseCliOptions(): CliOptions {
       case "--force-recreate":
         options.forceRecreate = true;
         break;
+      case "--seed":
+        options.seed = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--resume":
+        options.resume = true;
+        break;
+      case "--idempotent":
+        options.idempotent = true;
+        break;
+      case "--adaptive":
+        options.adaptive = {};
+        break;
+      case "--validate":
+        if (value && VALIDATION_MODES.includes(value as ValidationMode)) {
+          options.validationMode = value as ValidationMode;
+        } else {
+          console.warn(
+            `Validation mode must be one of: ${VALIDATION_MODES.join(", ")}`
+          );
+        }
+        if (!arg.includes("=")) i++;
+        break;
       default:
         console.warn(`Unknown flag: ${flag}`);
     }
@@ -215,12 +252,12 @@ function buildScenarioDefinitions(): ScenarioDefinition[] {
             "development",
           ];
           log.service.environment =
-            environments[Math.floor(Math.random() * environments.length)];
+            environments[Math.floor(random() * environments.length)];
 
           // Increase warn/error ratio slightly
-          if (Math.random() < 0.15) {
+          if (random() < 0.15) {
             log.level = "warn";
-          } else if (Math.random() < 0.08) {
+          } else if (random() < 0.08) {
             log.level = "error";
           }
 
@@ -284,7 +321,7 @@ function buildScenarioDefinitions(): ScenarioDefinition[] {
           }
 
           // Increase fatal logs to observe alerting
-          if (Math.random() < 0.02) {
+          if (random() < 0.02) {
             log.level = "fatal";
           }
 
@@ -793,18 +830,47 @@ async function runScenario(
   console.log(`\nIndex target: ${ingestion.indexName}`);
   console.log(ingestion.description);
 
+  const checkpoint = setupCheckpoint({
+    indexName: ingestion.indexName,
+    totalLogs: ingestion.totalLogs,
+    baseDate: ingestion.baseDate,
+    seed: context.options.seed,
+    idempotent: context.options.idempotent,
+    resume: context.options.resume,
+  });
+
+  if (checkpoint.resumed) {
+    console.log(
+      `Resuming from checkpoint: ${checkpoint.startIndex.toLocaleString()}/${checkpoint.totalLogs.toLocaleString()} documents acknowledged`
+    );
+  }
+
   await ensureFreshIndex(
     ingestion.indexName,
-    context.options.forceRecreate ?? false
+    (context.options.forceRecreate ?? false) && !checkpoint.resumed
+  );
+
+  const validationMode = context.options.validationMode;
+  const deadLetterQueue = new DeadLetterQueue(
+    "./logs/dead-letter",
+    `dlq-${ingestion.indexName}-${Date.now()}.ndjson`
   );
 
   const ingestionResult = await generateLogs({
     indexName: ingestion.indexName,
-    totalLogs: ingestion.totalLogs,
+    totalLogs: checkpoint.totalLogs,
     batchSize: ingestion.batchSize,
+    maxBatchBytes: context.options.maxBatchBytes,
     concurrency: ingestion.concurrency,
-    baseDate: ingestion.baseDate,
+    baseDate: checkpoint.baseDate,
+    seed: checkpoint.seed,
+    startIndex: checkpoint.startIndex,
+    checkpoint: checkpoint.tracker,
     generator: ingestion.generator,
+    idempotent: checkpoint.idempotent,
+    deadLetterQueue,
+    adaptive: context.options.adaptive,
+    validation: validationMode ? { mode: validationMode } : undefined,
   });
 
   console.log("\nBulk metrics:");
@@ -812,12 +878,50 @@ async function runScenario(
     batches: ingestionResult.bulkMetrics.batches,
     totalInserted: ingestionResult.bulkMetrics.totalInserted,
     failedDocuments: ingestionResult.bulkMetrics.failedDocuments,
+    duplicates: ingestionResult.bulkMetrics.duplicates,
+    retries: ingestionResult.bulkMetrics.retries,
     avgBatchSize: Math.round(ingestionResult.bulkMetrics.averageBatchSize),
     avgBatchDurationMs:
       ingestionResult.bulkMetrics.averageBatchDurationMs.toFixed(2),
     maxBatchDurationMs: ingestionResult.bulkMetrics.maxBatchDurationMs,
+    avgBatchKB: (ingestionResult.bulkMetrics.averageBatchBytes / 1024).toFixed(
+      0
+    ),
+    throughputMBps: ingestionResult.bulkMetrics.throughputMBps.toFixed(2),
   });
 
+  const adaptive = ingestionResult.bulkMetrics.adaptive;
+  if (adaptive) {
+    console.log(
+      `\nAdaptive (${adaptive.increases} increases, ${adaptive.decreases} decreases):`
+    );
+    console.table(
+      adaptive.history.slice(-10).map((sample) => ({
+        request: sample.request,
+        latencyMs: sample.latencyMs,
+        documents: sample.documents,
+        rejectionRate: sample.rejectionRate.toFixed(3),
+        batchMB: (sample.batchBytes / 1024 / 1024).toFixed(1),
+        concurrency: sample.concurrency,
+      }))
+    );
+  }
+
+  if (ingestionResult.validation) {
+    console.log(`\nValidation (${ingestionResult.validation.mode}):`);
+    console.table({
+      valid: ingestionResult.validation.valid,
+      coerced: ingestionResult.validation.coerced,
+      invalid: ingestionResult.validation.invalid,
+    });
+  }
+
+  if (deadLetterQueue.getCount() > 0) {
+    console.log(
+      `\nDead-lettered: ${deadLetterQueue.getCount()} documents (${deadLetterQueue.getFilePath()})`
+    );
+  }
+
   const querySummaries: Array<QuerySummary | QuerySummary[]> = [];
   const queryTasks = definition.queryRunners(context);
 
@@ -2,6 +2,7 @@ import { generateLogs, GenerateLogsResult } from "./generate-logs";
 import {
   setupIndexTemplate,
   createBulkOptimizedIndex,
+  createDataStream,
   optimizeIndexForSearch,
 } from "../opensearch/setup";
 import {
@@ -9,18 +10,63 @@ import {
   testConnection,
   closeClient,
 } from "../config/opensearch.config";
+import { getIndexLayout, LOGS_WRITE_ALIAS } from "../opensearch/index-resolver";
+import { bootstrapRolloverIndex } from "../opensearch/rollover";
 import { ErrorLogger } from "./utils/error-logger";
+import { DeadLetterQueue } from "./utils/dead-letter-queue";
+import { ValidationMode, VALIDATION_MODES } from "./transforms/log-validation";
+import { RetryPolicyOptions } from "./utils/retry-policy";
+import { AdaptiveOptions } from "./utils/adaptive-controller";
+import {
+  CheckpointSetup,
+  findLatestCheckpoint,
+  setupCheckpoint,
+} from "./utils/checkpoint";
+import {
+  EnrichmentConfig,
+  loadEnrichmentConfig,
+} from "./transforms/log-enrichment";
+import { GeoIpEnrichmentOptions } from "./transforms/geoip-enrichment";
+import {
+  GeoInfo,
+  loadGeoIpDatabase,
+  parseGeoInfo,
+} from "./utils/geoip-database";
+import {
+  loadRedactionConfig,
+  PiiRedactionConfig,
+} from "./transforms/pii-redaction";
 
 interface StreamIngestionOptions {
   totalLogs: number;
   batchSize: number;
+  maxBatchBytes?: number;
   concurrency: number;
   indexName: string;
+  // No --index or --data-stream: the dated logs-stream-<day> name
+  defaultIndex: boolean;
   baseDate: Date;
   forceRecreate: boolean;
+  // indexName is a data stream (logs-ds-*) written with `create` actions
+  dataStream: boolean;
   serialization: "ndjson";
+  idempotent: boolean;
+  validationMode?: ValidationMode;
+  enrichmentFile?: string;
+  geoipDatabase?: string;
+  geoipCacheSize?: number;
+  geoipPrivate?: GeoInfo;
+  parseUserAgent: boolean;
+  redact: boolean;
+  redactionFile?: string;
+  retry: RetryPolicyOptions;
+  adaptive?: AdaptiveOptions;
+  seed?: number;
+  resume: boolean;
 }
 
+const STREAM_INDEX_PREFIX = "logs-stream-";
+
 function parseArgs(): StreamIngestionOptions {
   const args = process.argv.slice(2);
   const defaultBaseDate = new Date().toISOString().split("T")[0];
@@ -29,10 +75,20 @@ function parseArgs(): StreamIngestionOptions {
     totalLogs: 500_000,
     batchSize: 5_000,
     concurrency: 2,
-    indexName: `logs-stream-${defaultBaseDate}`,
+    indexName:
+      getIndexLayout() === "rollover"
+        ? LOGS_WRITE_ALIAS
+        : `${STREAM_INDEX_PREFIX}${defaultBaseDate}`,
+    defaultIndex: true,
     baseDate: new Date(defaultBaseDate),
     forceRecreate: false,
+    dataStream: false,
     serialization: "ndjson",
+    idempotent: false,
+    retry: {},
+    redact: false,
+    parseUserAgent: false,
+    resume: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -56,12 +112,19 @@ function parseArgs(): StreamIngestionOptions {
         if (value) options.batchSize = Number(value);
         if (!arg.includes("=")) i++;
         break;
+      case "--max-batch-mb":
+        if (value) options.maxBatchBytes = Number(value) * 1024 * 1024;
+        if (!arg.includes("=")) i++;
+        break;
       case "--concurrency":
         if (value) options.concurrency = Math.max(1, Number(value));
         if (!arg.includes("=")) i++;
         break;
       case "--index":
-        if (value) options.indexName = value;
+        if (value) {
+          options.indexName = value;
+          options.defaultIndex = false;
+        }
         if (!arg.includes("=")) i++;
         break;
       case "--date":
@@ -80,6 +143,89 @@ function parseArgs(): StreamIngestionOptions {
         }
         if (!arg.includes("=")) i++;
         break;
+      case "--validate":
+        if (value && VALIDATION_MODES.includes(value as ValidationMode)) {
+          options.validationMode = value as ValidationMode;
+        } else {
+          console.warn(
+            `Validation mode must be one of: ${VALIDATION_MODES.join(
+              ", "
+            )}. Validation disabled.`
+          );
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--enrich":
+        if (value) options.enrichmentFile = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--geoip":
+        if (value) options.geoipDatabase = value;
+        if (!arg.includes("=")) i++;
+        break;
+      case "--geoip-cache":
+        if (value) options.geoipCacheSize = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--geoip-private":
+        if (value) {
+          const fallback = parseGeoInfo(value);
+          if (fallback) {
+            options.geoipPrivate = fallback;
+          } else {
+            console.warn(
+              `Invalid --geoip-private "${value}" (expected country,city,lat,lon). Using the default.`
+            );
+          }
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      // `--data-stream` writes to logs-ds-stream, `--data-stream=<name>` to
+      // another logs-ds-* stream
+      case "--data-stream":
+        options.dataStream = true;
+        options.defaultIndex = false;
+        options.indexName =
+          arg.includes("=") && value ? value : "logs-ds-stream";
+        break;
+      case "--parse-ua":
+        options.parseUserAgent = true;
+        break;
+      // `--redact` uses the built-in rules, `--redact=<file>` a config
+      case "--redact":
+        options.redact = true;
+        if (arg.includes("=")) options.redactionFile = value;
+        break;
+      case "--seed":
+        if (value) options.seed = Number(value);
+        if (!arg.includes("=")) i++;
+        break;
+      case "--resume":
+        options.resume = true;
+        break;
+      case "--idempotent":
+        options.idempotent = true;
+        break;
+      case "--adaptive":
+        options.adaptive = options.adaptive ?? {};
+        break;
+      case "--target-latency":
+        if (value) {
+          options.adaptive = {
+            ...options.adaptive,
+            targetLatencyMs: Number(value),
+          };
+        }
+        if (!arg.includes("=")) i++;
+        break;
+      case "--retry-attempts":
+        if (value) options.retry.maxAttempts = Math.max(1, Number(value));
+        if (!arg.includes("=")) i++;
+        break;
+      case "--retry-delay":
+        if (value) options.retry.baseDelayMs = Math.max(0, Number(value));
+        if (!arg.includes("=")) i++;
+        break;
       default:
         console.warn(`Unknown flag ignored: ${flag}`);
     }
@@ -92,6 +238,15 @@ async function ensureIndex(
   indexName: string,
   forceRecreate: boolean
 ): Promise<void> {
+  // The write alias is never recreated: its backing indices hold other data
+  if (indexName === LOGS_WRITE_ALIAS) {
+    if (forceRecreate) {
+      console.warn(`--force is ignored when writing to ${LOGS_WRITE_ALIAS}.`);
+    }
+    await bootstrapRolloverIndex();
+    return;
+  }
+
   const exists = await opensearchClient.indices.exists({ index: indexName });
   const alreadyExists = Boolean(exists.body);
 
@@ -107,6 +262,19 @@ async function ensureIndex(
 async function runIngestion(): Promise<void> {
   const options = parseArgs();
 
+  // The default index is named after the day the run started; after
+  // midnight --resume has to pick it up from the checkpoint
+  if (
+    options.resume &&
+    options.defaultIndex &&
+    options.indexName.startsWith(STREAM_INDEX_PREFIX)
+  ) {
+    const latest = findLatestCheckpoint(STREAM_INDEX_PREFIX);
+    if (latest) {
+      options.indexName = latest.indexName;
+    }
+  }
+
   console.log(
     `\nStream Ingestion: ${options.totalLogs.toLocaleString()} logs → ${
       options.indexName
@@ -120,9 +288,93 @@ async function runIngestion(): Promise<void> {
     return;
   }
 
+  let enrichment: EnrichmentConfig | undefined;
+  if (options.enrichmentFile) {
+    try {
+      enrichment = loadEnrichmentConfig(options.enrichmentFile);
+    } catch (error) {
+      console.error(
+        `Invalid enrichment config ${options.enrichmentFile}:`,
+        (error as Error).message
+      );
+      await closeClient();
+      process.exit(1);
+      return;
+    }
+  }
+
+  let geoip: GeoIpEnrichmentOptions | undefined;
+  if (options.geoipDatabase) {
+    try {
+      geoip = {
+        database: loadGeoIpDatabase(options.geoipDatabase),
+        cacheSize: options.geoipCacheSize,
+        privateFallback: options.geoipPrivate,
+      };
+    } catch (error) {
+      console.error(
+        `Unable to load GeoIP database ${options.geoipDatabase}:`,
+        (error as Error).message
+      );
+      await closeClient();
+      process.exit(1);
+      return;
+    }
+  }
+
+  let redaction: PiiRedactionConfig | undefined;
+  if (options.redact) {
+    try {
+      redaction = loadRedactionConfig(options.redactionFile);
+    } catch (error) {
+      console.error(
+        `Invalid redaction config ${options.redactionFile}:`,
+        (error as Error).message
+      );
+      await closeClient();
+      process.exit(1);
+      return;
+    }
+  }
+
+  let checkpoint: CheckpointSetup;
+  try {
+    checkpoint = setupCheckpoint({
+      indexName: options.indexName,
+      totalLogs: options.totalLogs,
+      baseDate: options.baseDate,
+      seed: options.seed,
+      idempotent: options.idempotent,
+      resume: options.resume,
+    });
+  } catch (error) {
+    console.error((error as Error).message);
+    await closeClient();
+    process.exit(1);
+    return;
+  }
+
+  if (checkpoint.resumed) {
+    console.log(
+      `Resuming from checkpoint: ${checkpoint.startIndex.toLocaleString()}/${checkpoint.totalLogs.toLocaleString()} documents acknowledged (seed ${
+        checkpoint.seed
+      })`
+    );
+  }
+
   const setupStartTime = Date.now();
   await setupIndexTemplate();
-  await ensureIndex(options.indexName, options.forceRecreate);
+  if (options.dataStream) {
+    // Streams are append-only: --force never recreates them
+    await setupIndexTemplate({ dataStream: true });
+    await createDataStream(options.indexName);
+  } else {
+    // Resuming must keep what was already indexed, even with --force
+    await ensureIndex(
+      options.indexName,
+      options.forceRecreate && !checkpoint.resumed
+    );
+  }
   const setupDuration = (Date.now() - setupStartTime) / 1000;
 
   const errorLogger = new ErrorLogger(
@@ -130,21 +382,49 @@ async function runIngestion(): Promise<void> {
     `errors-${options.indexName}-${Date.now()}.json`
   );
 
+  const deadLetterQueue = new DeadLetterQueue(
+    "./logs/dead-letter",
+    `dlq-${options.indexName}-${Date.now()}.ndjson`
+  );
+
   const ingestionStartTime = Date.now();
   let result: GenerateLogsResult;
 
   try {
     result = await generateLogs({
       indexName: options.indexName,
-      totalLogs: options.totalLogs,
+      totalLogs: checkpoint.totalLogs,
       batchSize: options.batchSize,
+      maxBatchBytes: options.maxBatchBytes,
       concurrency: options.concurrency,
-      baseDate: options.baseDate,
+      baseDate: checkpoint.baseDate,
+      seed: checkpoint.seed,
+      startIndex: checkpoint.startIndex,
+      checkpoint: checkpoint.tracker,
       serialization: options.serialization,
+      // Resumed runs are always idempotent: batches acknowledged after the
+      // checkpoint's prefix are sent again and skipped as duplicates
+      idempotent: checkpoint.idempotent,
+      dataStream: options.dataStream,
       errorLogger,
+      deadLetterQueue,
+      retry: options.retry,
+      adaptive: options.adaptive,
+      enrichment,
+      geoip,
+      parseUserAgent: options.parseUserAgent,
+      redaction,
+      validation: options.validationMode
+        ? { mode: options.validationMode }
+        : undefined,
     });
   } catch (error) {
     console.error("Ingestion failed:", error);
+    if (checkpoint.idempotent) {
+      console.error(
+        `Checkpoint saved to ${checkpoint.tracker.getFilePath()}; re-run with --resume to continue.`
+      );
+    }
     errorLogger.flush();
     await closeClient();
     process.exit(1);
@@ -156,7 +436,13 @@ async function runIngestion(): Promise<void> {
   const optimizationStartTime = Date.now();
   let optimizationDuration = 0;
   try {
-    await optimizeIndexForSearch(options.indexName);
+    // Backing indices behind the alias or stream keep their template/ISM
+    // settings
+    if (options.dataStream || options.indexName === LOGS_WRITE_ALIAS) {
+      await opensearchClient.indices.refresh({ index: options.indexName });
+    } else {
+      await optimizeIndexForSearch(options.indexName);
+    }
     optimizationDuration = (Date.now() - optimizationStartTime) / 1000;
   } catch (error) {
     console.warn("Warning: Failed to optimize index for search:", error);
@@ -168,7 +454,11 @@ async function runIngestion(): Promise<void> {
   console.log(
     `\nSummary: ${result.totalInserted.toLocaleString()} logs inserted`
   );
-  console.log(`Throughput: ${result.averageRatePerSecond.toFixed(0)} logs/sec`);
+  console.log(
+    `Throughput: ${result.averageRatePerSecond.toFixed(
+      0
+    )} logs/sec (${result.bulkMetrics.throughputMBps.toFixed(2)} MB/s)`
+  );
   console.log(
     `Time: ${totalDuration.toFixed(2)}s (setup: ${setupDuration.toFixed(
       2
@@ -183,6 +473,14 @@ async function runIngestion(): Promise<void> {
     );
   }
 
+  if (deadLetterQueue.getCount() > 0) {
+    console.log(
+      `Dead-lettered: ${deadLetterQueue
+        .getCount()
+        .toLocaleString()} documents (${deadLetterQueue.getFilePath()})`
+    );
+  }
+
   const errorCount = errorLogger.getErrorCount();
   if (errorCount > 0) {
     console.log(
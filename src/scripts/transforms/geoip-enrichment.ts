@@ -0,0 +1,113 @@
+import { Transform } from "stream";
+import { LogEntry } from "../../types/log.types";
+import { GeoInfo, GeoIpDatabase, isPrivateIp } from "../utils/geoip-database";
+import { LruCache } from "../utils/lru-cache";
+
+export interface GeoIpEnrichmentOptions {
+  database: GeoIpDatabase;
+  // Distinct IPs kept in memory (default 10,000)
+  cacheSize?: number;
+  // Used for loopback / RFC 1918 addresses, e.g. the data center location
+  privateFallback?: GeoInfo;
+}
+
+export interface GeoIpStats {
+  // Public addresses looked up (cache hits included)
+  lookups: number;
+  hits: number;
+  misses: number;
+  private: number;
+  cacheHits: number;
+  hitRate: number;
+}
+
+export const PRIVATE_GEO: GeoInfo = {
+  country: "private",
+  city: "private",
+  location: { lat: 0, lon: 0 },
+};
+
+// Same placeholder the import parsers use for logs without a location
+const UNKNOWN_GEO: GeoInfo = {
+  country: "unknown",
+  city: "unknown",
+  location: { lat: 0, lon: 0 },
+};
+
+/**
+ * Replaces `geo` with the location of `request.ip`. Documents without a
+ * request IP keep their `geo`; addresses missing from the database get the
+ * `unknown` placeholder rather than keeping a location that does not match.
+ */
+export class GeoIpEnrichmentTransform extends Transform {
+  private readonly database: GeoIpDatabase;
+  private readonly cache: LruCache<string, GeoInfo | null>;
+  private readonly privateFallback: GeoInfo;
+  private stats = {
+    lookups: 0,
+    hits: 0,
+    misses: 0,
+    private: 0,
+    cacheHits: 0,
+  };
+
+  constructor(options: GeoIpEnrichmentOptions) {
+    super({ objectMode: true });
+    this.database = options.database;
+    this.cache = new LruCache(options.cacheSize ?? 10_000);
+    this.privateFallback = options.privateFallback ?? PRIVATE_GEO;
+  }
+
+  _transform(
+    chunk: LogEntry,
+    _encoding: string,
+    callback: (error?: Error | null, data?: LogEntry) => void
+  ): void {
+    try {
+      this.enrich(chunk);
+      callback(null, chunk);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  enrich(document: LogEntry): LogEntry {
+    const ip = document.request?.ip;
+    if (typeof ip !== "string" || ip.length === 0) {
+      return document;
+    }
+
+    if (isPrivateIp(ip)) {
+      this.stats.private++;
+      document.geo = structuredClone(this.privateFallback);
+      return document;
+    }
+
+    this.stats.lookups++;
+    let geo: GeoInfo | null | undefined;
+    if (this.cache.has(ip)) {
+      this.stats.cacheHits++;
+      geo = this.cache.get(ip);
+    } else {
+      geo = this.database.lookup(ip);
+      this.cache.set(ip, geo);
+    }
+
+    if (geo) {
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+    // Cached records are shared, so every document gets its own copy
+    document.geo = structuredClone(geo ?? UNKNOWN_GEO);
+    return document;
+  }
+
+  getStats(): GeoIpStats {
+    return {
+      ...this.stats,
+      hitRate:
+        this.stats.lookups > 0 ? this.stats.hits / this.stats.lookups : 0,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { NdjsonParseTransform } from "./ndjson-parser";
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t";
+}
+
+/**
+ * Streams the elements of a top-level JSON array (`[{...}, {...}]`) without
+ * loading the whole file: a small scanner tracks nesting and string state to
+ * find element boundaries, and each element then goes through the same
+ * parsing, validation and rejection handling as an NDJSON line. Rejected
+ * elements are reported by their 1-based position in the array.
+ */
+export class JsonArrayParseTransform extends NdjsonParseTransform {
+  private arrayOpened = false;
+  private arrayClosed = false;
+  private collecting = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private pending = "";
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: string,
+    callback: (error?: Error | null) => void
+  ): void {
+    try {
+      this.scan(typeof chunk === "string" ? chunk : this.decoder.write(chunk));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: (error?: Error | null) => void): void {
+    try {
+      this.scan(this.decoder.end());
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+
+    if (this.arrayOpened && !this.arrayClosed) {
+      this.lineNumber++;
+      this.reject(
+        "Unexpected end of JSON array",
+        this.pending.length > 0 ? this.pending : undefined
+      );
+    }
+    callback();
+  }
+
+  private scan(text: string): void {
+    let start = this.collecting ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.arrayOpened) {
+        if (isWhitespace(char)) continue;
+        if (char !== "[") {
+          throw new Error("Expected a JSON array at the top level");
+        }
+        this.arrayOpened = true;
+        continue;
+      }
+
+      if (this.arrayClosed) {
+        if (!isWhitespace(char)) {
+          throw new Error("Unexpected content after the JSON array");
+        }
+        continue;
+      }
+
+      if (this.depth === 0 && (char === "," || char === "]")) {
+        if (this.collecting) {
+          this.pending += text.slice(start, i);
+          this.processLine(this.pending);
+          this.pending = "";
+          this.collecting = false;
+        }
+        if (char === "]") this.arrayClosed = true;
+        continue;
+      }
+
+      if (!this.collecting) {
+        if (isWhitespace(char)) continue;
+        this.collecting = true;
+        start = i;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+      }
+    }
+
+    if (this.collecting) {
+      this.pending += text.slice(start);
+    }
+  }
+}
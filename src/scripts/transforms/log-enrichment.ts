@@ -0,0 +1,382 @@
+import { Transform } from "stream";
+import { createHash } from "crypto";
+import { LogEntry } from "../../types/log.types";
+import { LOG_LEVELS } from "../utils/log-validator";
+import { readConfigFile } from "../utils/config-file";
+
+/**
+ * Matches a document field. Every operator given must hold; `all` / `any`
+ * combine nested conditions.
+ */
+export interface EnrichmentCondition {
+  field?: string;
+  equals?: unknown;
+  in?: unknown[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  // Regular expression tested against the field as a string
+  matches?: string;
+  all?: EnrichmentCondition[];
+  any?: EnrichmentCondition[];
+}
+
+export interface LevelRule {
+  when: EnrichmentCondition;
+  level: LogEntry["level"];
+}
+
+export interface TagRule {
+  when: EnrichmentCondition;
+  add: string[];
+}
+
+/**
+ * `full` replaces the whole value, `keepLast` keeps the last N characters,
+ * `pattern` only replaces the matches of a regular expression and `hash`
+ * swaps the value for a shortened SHA-256 digest (stable, so it can still be
+ * grouped on).
+ */
+export interface MaskRule {
+  field: string;
+  strategy?: "full" | "keepLast" | "pattern" | "hash";
+  keepLast?: number;
+  pattern?: string;
+  replacement?: string;
+}
+
+/**
+ * Steps run in this order: rename, defaults, deriveLevel, tags, mask, drop.
+ * Fields are dotted paths (`service.name`, `request.ip`).
+ */
+export interface EnrichmentConfig {
+  rename?: Record<string, string>;
+  defaults?: Record<string, unknown>;
+  deriveLevel?: {
+    // Replace a level that is already set (by default only fills it in)
+    overwrite?: boolean;
+    rules: LevelRule[];
+  };
+  tags?: TagRule[];
+  mask?: MaskRule[];
+  drop?: string[];
+}
+
+export interface EnrichmentStats {
+  processed: number;
+  renamed: number;
+  defaulted: number;
+  levelsDerived: number;
+  tagged: number;
+  masked: number;
+  dropped: number;
+}
+
+type Document = Record<string, any>;
+type Predicate = (document: Document) => boolean;
+
+export function getField(document: Document, field: string): unknown {
+  let value: any = document;
+  for (const key of field.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+export function setField(
+  document: Document,
+  field: string,
+  value: unknown
+): void {
+  const keys = field.split(".");
+  let target = document;
+  for (const key of keys.slice(0, -1)) {
+    if (target[key] === null || typeof target[key] !== "object") {
+      target[key] = {};
+    }
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+export function deleteField(document: Document, field: string): boolean {
+  const keys = field.split(".");
+  const container: any =
+    keys.length === 1
+      ? document
+      : getField(document, keys.slice(0, -1).join("."));
+  const key = keys[keys.length - 1];
+  if (container === null || typeof container !== "object") return false;
+  if (!(key in container)) return false;
+  delete container[key];
+  return true;
+}
+
+function compileCondition(
+  condition: EnrichmentCondition,
+  where: string
+): Predicate {
+  const checks: Predicate[] = [];
+  const { field } = condition;
+  const value = (document: Document) =>
+    field === undefined ? undefined : getField(document, field);
+  const hasFieldOperator =
+    condition.equals !== undefined ||
+    condition.in !== undefined ||
+    condition.exists !== undefined ||
+    condition.gt !== undefined ||
+    condition.gte !== undefined ||
+    condition.lt !== undefined ||
+    condition.lte !== undefined ||
+    condition.matches !== undefined;
+
+  if (hasFieldOperator && field === undefined) {
+    throw new Error(`${where}: "field" is required`);
+  }
+
+  if (condition.equals !== undefined) {
+    checks.push((doc) => value(doc) === condition.equals);
+  }
+  if (condition.in !== undefined) {
+    if (!Array.isArray(condition.in)) {
+      throw new Error(`${where}: "in" must be an array`);
+    }
+    checks.push((doc) => condition.in!.includes(value(doc)));
+  }
+  if (condition.exists !== undefined) {
+    checks.push(
+      (doc) =>
+        (value(doc) !== undefined && value(doc) !== null) === condition.exists
+    );
+  }
+
+  const numeric = (
+    bound: number | undefined,
+    compare: (a: number, b: number) => boolean
+  ) => {
+    if (bound === undefined) return;
+    checks.push((doc) => {
+      const current = value(doc);
+      return typeof current === "number" && compare(current, bound);
+    });
+  };
+  numeric(condition.gt, (a, b) => a > b);
+  numeric(condition.gte, (a, b) => a >= b);
+  numeric(condition.lt, (a, b) => a < b);
+  numeric(condition.lte, (a, b) => a <= b);
+
+  if (condition.matches !== undefined) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(condition.matches, "i");
+    } catch (error) {
+      throw new Error(`${where}: ${(error as Error).message}`);
+    }
+    checks.push((doc) => {
+      const current = value(doc);
+      return current !== undefined && current !== null
+        ? regex.test(String(current))
+        : false;
+    });
+  }
+
+  if (condition.all !== undefined) {
+    const nested = condition.all.map((c, i) =>
+      compileCondition(c, `${where}.all[${i}]`)
+    );
+    checks.push((doc) => nested.every((predicate) => predicate(doc)));
+  }
+  if (condition.any !== undefined) {
+    const nested = condition.any.map((c, i) =>
+      compileCondition(c, `${where}.any[${i}]`)
+    );
+    checks.push((doc) => nested.some((predicate) => predicate(doc)));
+  }
+
+  if (checks.length === 0) {
+    throw new Error(`${where}: condition has no operator`);
+  }
+  return (doc) => checks.every((check) => check(doc));
+}
+
+function compileMask(rule: MaskRule, where: string) {
+  const strategy =
+    rule.strategy ??
+    (rule.pattern !== undefined
+      ? "pattern"
+      : rule.keepLast !== undefined
+      ? "keepLast"
+      : "full");
+  const replacement = rule.replacement ?? "***";
+
+  switch (strategy) {
+    case "full":
+      return () => replacement;
+    case "keepLast": {
+      const keep = Math.max(0, rule.keepLast ?? 4);
+      return (text: string) =>
+        "*".repeat(Math.max(0, text.length - keep)) +
+        text.slice(Math.max(0, text.length - keep));
+    }
+    case "pattern": {
+      if (rule.pattern === undefined) {
+        throw new Error(`${where}: "pattern" is required`);
+      }
+      const regex = new RegExp(rule.pattern, "g");
+      return (text: string) => text.replace(regex, replacement);
+    }
+    case "hash":
+      return (text: string) =>
+        createHash("sha256").update(text).digest("hex").slice(0, 16);
+    default:
+      throw new Error(`${where}: unknown strategy "${strategy}"`);
+  }
+}
+
+/**
+ * Reads an enrichment config from a `.json`, `.yaml` or `.yml` file.
+ */
+export function loadEnrichmentConfig(filePath: string): EnrichmentConfig {
+  return readConfigFile(filePath, "Enrichment config") as EnrichmentConfig;
+}
+
+/**
+ * Declarative field mapping for documents that do not match `LogEntry`
+ * exactly. Documents are changed in place so upstream bookkeeping keyed on
+ * the document object (checkpoints, replay routing) keeps working. The
+ * config is compiled up front: an invalid rule fails at construction, not
+ * halfway through a run.
+ */
+export class LogEnrichmentTransform extends Transform {
+  private readonly renames: Array<[string, string]>;
+  private readonly defaults: Array<[string, unknown]>;
+  private readonly overwriteLevel: boolean;
+  private readonly levelRules: Array<{
+    matches: Predicate;
+    level: LogEntry["level"];
+  }>;
+  private readonly tagRules: Array<{ matches: Predicate; add: string[] }>;
+  private readonly masks: Array<{
+    field: string;
+    apply: (text: string) => string;
+  }>;
+  private readonly drops: string[];
+  private stats: EnrichmentStats = {
+    processed: 0,
+    renamed: 0,
+    defaulted: 0,
+    levelsDerived: 0,
+    tagged: 0,
+    masked: 0,
+    dropped: 0,
+  };
+
+  constructor(config: EnrichmentConfig) {
+    super({ objectMode: true });
+
+    this.renames = Object.entries(config.rename ?? {});
+    this.defaults = Object.entries(config.defaults ?? {});
+    this.overwriteLevel = config.deriveLevel?.overwrite ?? false;
+    this.levelRules = (config.deriveLevel?.rules ?? []).map((rule, i) => {
+      if (!LOG_LEVELS.includes(rule.level)) {
+        throw new Error(
+          `deriveLevel.rules[${i}]: level must be one of ${LOG_LEVELS.join(
+            ", "
+          )}`
+        );
+      }
+      return {
+        matches: compileCondition(rule.when ?? {}, `deriveLevel.rules[${i}]`),
+        level: rule.level,
+      };
+    });
+    this.tagRules = (config.tags ?? []).map((rule, i) => {
+      if (!Array.isArray(rule.add) || rule.add.length === 0) {
+        throw new Error(`tags[${i}]: "add" must be a non-empty array`);
+      }
+      return {
+        matches: compileCondition(rule.when ?? {}, `tags[${i}]`),
+        add: rule.add,
+      };
+    });
+    this.masks = (config.mask ?? []).map((rule, i) => ({
+      field: rule.field,
+      apply: compileMask(rule, `mask[${i}]`),
+    }));
+    this.drops = config.drop ?? [];
+  }
+
+  _transform(
+    chunk: Document,
+    _encoding: string,
+    callback: (error?: Error | null, data?: Document) => void
+  ): void {
+    try {
+      this.enrich(chunk);
+      callback(null, chunk);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  enrich(document: Document): Document {
+    this.stats.processed++;
+
+    for (const [from, to] of this.renames) {
+      const value = getField(document, from);
+      if (value !== undefined && deleteField(document, from)) {
+        setField(document, to, value);
+        this.stats.renamed++;
+      }
+    }
+
+    for (const [field, value] of this.defaults) {
+      const current = getField(document, field);
+      if (current === undefined || current === null || current === "") {
+        // Copies so documents never share a default object or array
+        setField(document, field, structuredClone(value));
+        this.stats.defaulted++;
+      }
+    }
+
+    if (this.overwriteLevel || !document.level) {
+      const rule = this.levelRules.find(({ matches }) => matches(document));
+      if (rule) {
+        document.level = rule.level;
+        this.stats.levelsDerived++;
+      }
+    }
+
+    for (const rule of this.tagRules) {
+      if (!rule.matches(document)) continue;
+      const tags = Array.isArray(document.tags) ? document.tags : [];
+      const added = rule.add.filter((tag) => !tags.includes(tag));
+      if (added.length > 0) {
+        document.tags = [...tags, ...added];
+        this.stats.tagged++;
+      }
+    }
+
+    for (const mask of this.masks) {
+      const value = getField(document, mask.field);
+      if (value === undefined || value === null) continue;
+      setField(document, mask.field, mask.apply(String(value)));
+      this.stats.masked++;
+    }
+
+    for (const field of this.drops) {
+      if (deleteField(document, field)) {
+        this.stats.dropped++;
+      }
+    }
+
+    return document;
+  }
+
+  getStats(): EnrichmentStats {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,32 @@
+import { LogLineParser, ParserContext } from "../parsers/log-parser";
+import { NdjsonParseOptions, NdjsonParseTransform } from "./ndjson-parser";
+
+interface LogLineParseOptions extends NdjsonParseOptions {
+  parser: LogLineParser;
+  context: ParserContext;
+}
+
+/**
+ * Line-oriented text logs (access logs, syslog, logfmt, ...) parsed into
+ * `LogEntry` objects by a `LogLineParser`, with the same validation and
+ * rejection handling as NDJSON input.
+ */
+export class LogLineParseTransform extends NdjsonParseTransform {
+  private readonly parser: LogLineParser;
+  private readonly context: ParserContext;
+
+  constructor(options: LogLineParseOptions) {
+    super(options);
+    this.parser = options.parser;
+    this.context = options.context;
+  }
+
+  protected parseLine(line: string): unknown {
+    return (
+      this.parser.parse(line, {
+        ...this.context,
+        lineNumber: this.lineNumber,
+      }) ?? undefined
+    );
+  }
+}
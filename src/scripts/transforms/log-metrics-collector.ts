@@ -1,5 +1,7 @@
 import { Transform } from "stream";
 import { LogEntry } from "../../types/log.types";
+import { GeoIpStats } from "./geoip-enrichment";
+import { RedactionCounts } from "./pii-redaction";
 
 export interface LogMetricsSnapshot {
   totalGenerated: number;
@@ -26,6 +28,15 @@ export interface LogMetricsSnapshot {
   };
   geoCounts: Record<string, number>;
   tagCounts: Record<string, number>;
+  redactions: RedactionCounts;
+  geoip: GeoIpStats;
+}
+
+interface LogMetricsCollectorOptions {
+  // Redaction stage upstream of the collector, if any
+  redaction?: { getCounts(): RedactionCounts };
+  // GeoIP stage upstream of the collector, if any
+  geoip?: { getStats(): GeoIpStats };
 }
 
 interface ResponseTimeTracker {
@@ -86,9 +97,13 @@ export class LogMetricsCollector extends Transform {
   };
   private geoCounts: Record<string, number> = {};
   private tagCounts: Record<string, number> = {};
+  private readonly redaction?: { getCounts(): RedactionCounts };
+  private readonly geoip?: { getStats(): GeoIpStats };
 
-  constructor() {
+  constructor(options: LogMetricsCollectorOptions = {}) {
     super({ objectMode: true });
+    this.redaction = options.redaction;
+    this.geoip = options.geoip;
   }
 
   _transform(
@@ -202,6 +217,20 @@ export class LogMetricsCollector extends Transform {
       },
       geoCounts: this.geoCounts,
       tagCounts: this.tagCounts,
+      redactions: this.redaction?.getCounts() ?? {
+        total: 0,
+        documents: 0,
+        byDetector: {},
+        byField: {},
+      },
+      geoip: this.geoip?.getStats() ?? {
+        lookups: 0,
+        hits: 0,
+        misses: 0,
+        private: 0,
+        cacheHits: 0,
+        hitRate: 0,
+      },
     };
   }
 }
@@ -0,0 +1,135 @@
+import { Transform } from "stream";
+import { LogEntry } from "../../types/log.types";
+import { DeadLetterQueue } from "../utils/dead-letter-queue";
+import { PiiRedactionTransform } from "./pii-redaction";
+import {
+  coerceLogEntry,
+  LogValidationIssue,
+  validateLogEntry,
+} from "../utils/log-validator";
+
+/**
+ * - `strict`: any issue sends the document to the dead-letter queue
+ * - `lenient`: only `error` issues do; warnings pass through untouched
+ * - `coerce`: repairs what it can first, then applies `strict`
+ */
+export type ValidationMode = "strict" | "lenient" | "coerce";
+
+export const VALIDATION_MODES: readonly ValidationMode[] = [
+  "strict",
+  "lenient",
+  "coerce",
+];
+
+interface LogValidationOptions {
+  mode?: ValidationMode;
+  deadLetterQueue?: DeadLetterQueue;
+  // Runs after validation in the pipeline; rejected documents are redacted
+  // with it before they are dead-lettered
+  redaction?: PiiRedactionTransform;
+}
+
+export interface LogValidationStats {
+  mode: ValidationMode;
+  valid: number;
+  coerced: number;
+  invalid: number;
+  issuesByField: Record<string, number>;
+}
+
+/**
+ * Emits "documentReplaced" (original, copy) when coercion pushes a copy
+ * instead of the document it received, so trackers keyed by document
+ * identity (the ingestion checkpoint) can follow it.
+ */
+export class LogValidationTransform extends Transform {
+  private readonly mode: ValidationMode;
+  private readonly deadLetterQueue?: DeadLetterQueue;
+  private readonly redaction?: PiiRedactionTransform;
+  private valid = 0;
+  private coerced = 0;
+  private invalid = 0;
+  private issuesByField: Record<string, number> = {};
+
+  constructor(options: LogValidationOptions = {}) {
+    super({ objectMode: true });
+    this.mode = options.mode ?? "strict";
+    this.deadLetterQueue = options.deadLetterQueue;
+    this.redaction = options.redaction;
+  }
+
+  _transform(
+    chunk: unknown,
+    _encoding: string,
+    callback: (error?: Error | null, data?: LogEntry) => void
+  ): void {
+    try {
+      let document = chunk;
+      let wasCoerced = false;
+
+      if (this.mode === "coerce") {
+        const result = coerceLogEntry(chunk);
+        document = result.document;
+        wasCoerced = result.changed;
+      }
+
+      const issues = validateLogEntry(document);
+      const blocking =
+        this.mode === "lenient"
+          ? issues.filter((issue) => issue.severity === "error")
+          : issues;
+
+      if (blocking.length > 0) {
+        this.reject(chunk, blocking);
+        callback();
+        return;
+      }
+
+      if (wasCoerced) this.coerced++;
+      if (document !== chunk) {
+        this.emit("documentReplaced", chunk, document);
+      }
+      this.valid++;
+      this.push(document as LogEntry);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: (error?: Error | null) => void): void {
+    this.deadLetterQueue?.flush();
+    callback();
+  }
+
+  getStats(): LogValidationStats {
+    return {
+      mode: this.mode,
+      valid: this.valid,
+      coerced: this.coerced,
+      invalid: this.invalid,
+      issuesByField: this.issuesByField,
+    };
+  }
+
+  private reject(document: unknown, issues: LogValidationIssue[]): void {
+    this.invalid++;
+    issues.forEach((issue) => {
+      this.issuesByField[issue.field] =
+        (this.issuesByField[issue.field] || 0) + 1;
+    });
+
+    this.deadLetterQueue?.write({
+      source: "LogValidationTransform",
+      stage: "validation",
+      errors: issues.map((issue) => ({
+        type: "validation_exception",
+        reason: `${issue.field} ${issue.message}`,
+        field: issue.field,
+      })),
+      document: this.redaction
+        ? this.redaction.redactRejected(document)
+        : document,
+    });
+  }
+}
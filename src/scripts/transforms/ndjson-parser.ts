@@ -0,0 +1,150 @@
+import { Transform } from "stream";
+import { StringDecoder } from "string_decoder";
+import { LogEntry } from "../../types/log.types";
+import { ErrorLogger } from "../utils/error-logger";
+import { PiiRedactionTransform } from "./pii-redaction";
+import {
+  formatValidationIssues,
+  validateLogEntry,
+} from "../utils/log-validator";
+
+export interface RejectedLine {
+  line: number;
+  reason: string;
+}
+
+export interface NdjsonParseOptions {
+  validate?: boolean;
+  maxRejectedSamples?: number;
+  errorLogger?: ErrorLogger;
+  // Redacts rejected lines and their reasons before they are logged
+  redaction?: PiiRedactionTransform;
+}
+
+/**
+ * Turns a byte stream of newline-delimited JSON into `LogEntry` objects.
+ * Lines that are not valid JSON (or, when `validate` is on, not a valid
+ * `LogEntry`) are counted as rejected and skipped instead of failing the
+ * whole stream.
+ */
+export class NdjsonParseTransform extends Transform {
+  protected readonly decoder = new StringDecoder("utf8");
+  private readonly validate: boolean;
+  private readonly maxRejectedSamples: number;
+  private readonly errorLogger?: ErrorLogger;
+  private readonly redaction?: PiiRedactionTransform;
+  private remainder = "";
+  protected lineNumber = 0;
+  private accepted = 0;
+  private rejected = 0;
+  private rejectedSamples: RejectedLine[] = [];
+
+  constructor(options: NdjsonParseOptions = {}) {
+    super({ writableObjectMode: false, readableObjectMode: true });
+    this.validate = options.validate ?? true;
+    this.maxRejectedSamples = options.maxRejectedSamples ?? 20;
+    this.errorLogger = options.errorLogger;
+    this.redaction = options.redaction;
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: string,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.remainder +=
+      typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+
+    const lines = this.remainder.split("\n");
+    this.remainder = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this.processLine(line);
+    }
+
+    callback();
+  }
+
+  _flush(callback: (error?: Error | null) => void): void {
+    this.remainder += this.decoder.end();
+    if (this.remainder.length > 0) {
+      this.processLine(this.remainder);
+      this.remainder = "";
+    }
+    callback();
+  }
+
+  getAcceptedCount(): number {
+    return this.accepted;
+  }
+
+  getRejectedCount(): number {
+    return this.rejected;
+  }
+
+  getRejectedSamples(): RejectedLine[] {
+    return this.rejectedSamples;
+  }
+
+  protected processLine(rawLine: string): void {
+    this.lineNumber++;
+    const line = rawLine.trim();
+    if (line.length === 0) {
+      return;
+    }
+
+    let document: unknown;
+    try {
+      document = this.parseLine(line);
+    } catch (error) {
+      this.reject((error as Error).message, line);
+      return;
+    }
+    if (document === undefined) {
+      return;
+    }
+
+    if (this.validate) {
+      const issues = validateLogEntry(document);
+      if (issues.length > 0) {
+        this.reject(formatValidationIssues(issues), document);
+        return;
+      }
+    }
+
+    this.accepted++;
+    this.push(document as LogEntry);
+  }
+
+  /**
+   * Turns a non-empty line into a document; `undefined` skips the line and a
+   * thrown error rejects it with the error message as reason.
+   */
+  protected parseLine(line: string): unknown {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  protected reject(rawReason: string, rawDocument: unknown): void {
+    // JSON parse errors quote the offending input
+    const reason = this.redaction
+      ? this.redaction.redactRejected(rawReason)
+      : rawReason;
+    const document = this.redaction
+      ? this.redaction.redactRejected(rawDocument)
+      : rawDocument;
+    this.rejected++;
+    if (this.rejectedSamples.length < this.maxRejectedSamples) {
+      this.rejectedSamples.push({ line: this.lineNumber, reason });
+    }
+    this.errorLogger?.logSerializationError(
+      "NdjsonParseTransform",
+      `Rejected line ${this.lineNumber}: ${reason}`,
+      new Error(reason),
+      { document }
+    );
+  }
+}
@@ -0,0 +1,349 @@
+import { Transform } from "stream";
+import { createHmac } from "crypto";
+import { isIPv4, isIPv6 } from "net";
+import { readConfigFile } from "../utils/config-file";
+import { deleteField, getField, setField } from "./log-enrichment";
+
+export type PiiDetector = "email" | "creditCard" | "ipv4" | "ipv6" | "jwt";
+
+/**
+ * - `mask`: replaces the value with a `[detector]` placeholder
+ * - `hash`: keyed SHA-256 (HMAC with the salt), so equal values still group;
+ *   needs a salt, since unsalted hashes of ids can be reversed by guessing
+ * - `truncate`: keeps the network part of IPs (/24 for IPv4, /48 for IPv6);
+ *   other values are masked
+ * - `drop`: removes the match, or the whole field
+ */
+export type RedactionStrategy = "mask" | "hash" | "truncate" | "drop";
+
+/**
+ * Without `detectors` the whole field is treated as PII; with them only the
+ * matching substrings are redacted.
+ */
+export interface RedactionRule {
+  field: string;
+  detectors?: PiiDetector[];
+  strategy: RedactionStrategy;
+}
+
+export interface PiiRedactionConfig {
+  salt?: string;
+  rules?: RedactionRule[];
+}
+
+export interface RedactionCounts {
+  total: number;
+  documents: number;
+  byDetector: Record<string, number>;
+  byField: Record<string, number>;
+}
+
+export const PII_DETECTORS: readonly PiiDetector[] = [
+  "email",
+  "creditCard",
+  "ipv4",
+  "ipv6",
+  "jwt",
+];
+
+const REDACTION_STRATEGIES: readonly RedactionStrategy[] = [
+  "mask",
+  "hash",
+  "truncate",
+  "drop",
+];
+
+// `ip` is mapped as an IP field, so it can only be truncated or dropped
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { field: "message", detectors: [...PII_DETECTORS], strategy: "mask" },
+  { field: "error.message", detectors: [...PII_DETECTORS], strategy: "mask" },
+  {
+    field: "error.stack_trace",
+    detectors: [...PII_DETECTORS],
+    strategy: "mask",
+  },
+  { field: "request.path", detectors: ["email", "jwt"], strategy: "mask" },
+  { field: "request.user_id", strategy: "hash" },
+  { field: "request.ip", strategy: "truncate" },
+];
+
+// Whole-field redactions are counted under this detector name
+const FIELD_DETECTOR = "field";
+
+// Raw text of rejected input (e.g. unparseable lines) is masked for every
+// detector since it has no fields to apply the rules to
+const REJECTED_TEXT_RULE: RedactionRule = {
+  field: "(rejected)",
+  detectors: [...PII_DETECTORS],
+  strategy: "mask",
+};
+
+const DETECTOR_PATTERNS: Record<PiiDetector, RegExp> = {
+  // Checked first: the payload segments could otherwise look like other PII
+  jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  ipv4: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  ipv6: /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}(?:[0-9A-Fa-f]{0,4}|\d+\.\d+\.\d+\.\d+)(?![\w:])/g,
+};
+
+const DETECTOR_ORDER: PiiDetector[] = [
+  "jwt",
+  "email",
+  "creditCard",
+  "ipv4",
+  "ipv6",
+];
+
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+// Filters out regex matches that are not really PII
+function isDetected(detector: PiiDetector, match: string): boolean {
+  switch (detector) {
+    case "creditCard": {
+      const digits = match.replace(/[ -]/g, "");
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    }
+    case "ipv6":
+      return isIPv6(match);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Zeroes the host part of an address: `203.0.113.42` → `203.0.113.0`,
+ * `2001:db8:85a3::8a2e:370:7334` → `2001:db8:85a3::`. Returns `null` for
+ * anything that is not an IP.
+ */
+export function truncateIp(value: string): string | null {
+  if (isIPv4(value)) {
+    return value.split(".").slice(0, 3).concat("0").join(".");
+  }
+  if (!isIPv6(value)) {
+    return null;
+  }
+
+  const mapped = value.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return `::ffff:${truncateIp(mapped[1])}`;
+  }
+
+  const [head, tail = ""] = value.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = value.includes("::") && tail ? tail.split(":") : [];
+  const groups = value.includes("::")
+    ? [
+        ...headGroups,
+        ...new Array(8 - headGroups.length - tailGroups.length).fill("0"),
+        ...tailGroups,
+      ]
+    : value.split(":");
+
+  return `${groups
+    .slice(0, 3)
+    .map((group) => group.replace(/^0+(?=.)/, "").toLowerCase())
+    .join(":")}::`;
+}
+
+/**
+ * Redacts PII from configured fields before documents are indexed.
+ * Documents are changed in place, like `LogEnrichmentTransform`.
+ */
+export class PiiRedactionTransform extends Transform {
+  private readonly rules: RedactionRule[];
+  private readonly salt: string;
+  // Off while redacting rejected input, which is never indexed
+  private counting = true;
+  private counts: RedactionCounts = {
+    total: 0,
+    documents: 0,
+    byDetector: {},
+    byField: {},
+  };
+
+  constructor(config: PiiRedactionConfig = {}) {
+    super({ objectMode: true });
+    this.rules = config.rules ?? DEFAULT_REDACTION_RULES;
+    this.salt = config.salt ?? "";
+
+    this.rules.forEach((rule, i) => {
+      if (typeof rule.field !== "string" || rule.field.length === 0) {
+        throw new Error(`rules[${i}]: "field" is required`);
+      }
+      if (!REDACTION_STRATEGIES.includes(rule.strategy)) {
+        throw new Error(
+          `rules[${i}]: strategy must be one of ${REDACTION_STRATEGIES.join(
+            ", "
+          )}`
+        );
+      }
+      const unknown = (rule.detectors ?? []).filter(
+        (detector) => !PII_DETECTORS.includes(detector)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`rules[${i}]: unknown detectors ${unknown.join(", ")}`);
+      }
+    });
+
+    const hashed = this.rules.filter((rule) => rule.strategy === "hash");
+    if (hashed.length > 0 && !this.salt) {
+      throw new Error(
+        `A salt is required to hash ${hashed
+          .map((rule) => rule.field)
+          .join(", ")}: set PII_HASH_SALT or "salt" in the redaction config`
+      );
+    }
+  }
+
+  _transform(
+    chunk: Record<string, any>,
+    _encoding: string,
+    callback: (error?: Error | null, data?: Record<string, any>) => void
+  ): void {
+    try {
+      this.redact(chunk);
+      callback(null, chunk);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  redact(document: Record<string, any>): Record<string, any> {
+    const before = this.counts.total;
+
+    for (const rule of this.rules) {
+      const value = getField(document, rule.field);
+      if (value === undefined || value === null || value === "") continue;
+
+      if (!rule.detectors) {
+        this.redactField(document, rule, String(value));
+      } else if (typeof value === "string") {
+        setField(document, rule.field, this.redactText(value, rule));
+      }
+    }
+
+    if (this.counts.total > before) {
+      this.counts.documents++;
+    }
+    return document;
+  }
+
+  /**
+   * Redacts input that is rejected before reaching this transform, so the
+   * dead-letter queue and error log never persist raw PII. Objects get the
+   * configured rules (in place); strings are masked for every detector.
+   * Rejected input is not indexed, so it is left out of the counts.
+   */
+  redactRejected<T>(value: T): T {
+    this.counting = false;
+    try {
+      if (typeof value === "string") {
+        return this.redactText(value, REJECTED_TEXT_RULE) as T;
+      }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        this.redact(value as Record<string, any>);
+      }
+      return value;
+    } finally {
+      this.counting = true;
+    }
+  }
+
+  getCounts(): RedactionCounts {
+    return {
+      ...this.counts,
+      byDetector: { ...this.counts.byDetector },
+      byField: { ...this.counts.byField },
+    };
+  }
+
+  private redactField(
+    document: Record<string, any>,
+    rule: RedactionRule,
+    value: string
+  ): void {
+    if (rule.strategy === "drop") {
+      deleteField(document, rule.field);
+    } else {
+      setField(
+        document,
+        rule.field,
+        this.replace(value, FIELD_DETECTOR, rule.strategy)
+      );
+    }
+    this.count(FIELD_DETECTOR, rule.field);
+  }
+
+  private redactText(text: string, rule: RedactionRule): string {
+    let result = text;
+    for (const detector of DETECTOR_ORDER) {
+      if (!rule.detectors!.includes(detector)) continue;
+
+      result = result.replace(DETECTOR_PATTERNS[detector], (match) => {
+        if (!isDetected(detector, match)) return match;
+        this.count(detector, rule.field);
+        return this.replace(match, detector, rule.strategy, true);
+      });
+    }
+    return result;
+  }
+
+  private replace(
+    value: string,
+    detector: string,
+    strategy: RedactionStrategy,
+    inline = false
+  ): string {
+    switch (strategy) {
+      case "drop":
+        return "";
+      case "hash": {
+        const digest = createHmac("sha256", this.salt)
+          .update(value)
+          .digest("hex")
+          .slice(0, 16);
+        return inline ? `[${detector}:${digest}]` : digest;
+      }
+      case "truncate": {
+        const truncated = truncateIp(value);
+        if (truncated !== null) return truncated;
+        return inline ? `[${detector}]` : "[redacted]";
+      }
+      default:
+        return inline ? `[${detector}]` : "[redacted]";
+    }
+  }
+
+  private count(detector: string, field: string): void {
+    if (!this.counting) return;
+    this.counts.total++;
+    this.counts.byDetector[detector] =
+      (this.counts.byDetector[detector] || 0) + 1;
+    this.counts.byField[field] = (this.counts.byField[field] || 0) + 1;
+  }
+}
+
+/**
+ * Reads redaction settings from a `.json` / `.yaml` file. The salt can also
+ * come from `PII_HASH_SALT` so it does not have to live in the file.
+ */
+export function loadRedactionConfig(filePath?: string): PiiRedactionConfig {
+  const config = filePath
+    ? (readConfigFile(filePath, "Redaction config") as PiiRedactionConfig)
+    : {};
+  return { ...config, salt: config.salt ?? process.env.PII_HASH_SALT };
+}
@@ -0,0 +1,61 @@
+import { Transform } from "stream";
+import { LogEntry, UserAgentInfo } from "../../types/log.types";
+import { LruCache } from "../utils/lru-cache";
+import { parseUserAgent } from "../utils/user-agent";
+
+export interface UserAgentStats {
+  parsed: number;
+  bots: number;
+  cacheHits: number;
+}
+
+/**
+ * Adds `request.ua` parsed from `request.user_agent`. A handful of distinct
+ * user agents usually covers most traffic, so parsed results are cached.
+ */
+export class UserAgentEnrichmentTransform extends Transform {
+  private readonly cache: LruCache<string, UserAgentInfo>;
+  private stats: UserAgentStats = { parsed: 0, bots: 0, cacheHits: 0 };
+
+  constructor(options: { cacheSize?: number } = {}) {
+    super({ objectMode: true });
+    this.cache = new LruCache(options.cacheSize ?? 5_000);
+  }
+
+  _transform(
+    chunk: LogEntry,
+    _encoding: string,
+    callback: (error?: Error | null, data?: LogEntry) => void
+  ): void {
+    try {
+      this.enrich(chunk);
+      callback(null, chunk);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  enrich(document: LogEntry): LogEntry {
+    const userAgent = document.request?.user_agent;
+    if (!document.request || typeof userAgent !== "string") {
+      return document;
+    }
+
+    let ua = this.cache.get(userAgent);
+    if (ua) {
+      this.stats.cacheHits++;
+    } else {
+      ua = parseUserAgent(userAgent);
+      this.cache.set(userAgent, ua);
+    }
+
+    this.stats.parsed++;
+    if (ua.is_bot) this.stats.bots++;
+    document.request.ua = { ...ua };
+    return document;
+  }
+
+  getStats(): UserAgentStats {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,173 @@
+export interface AdaptiveOptions {
+  // Bulk request latency the controller steers towards
+  targetLatencyMs?: number;
+  // Throttled items (429 / rejected execution) tolerated per request
+  maxRejectionRate?: number;
+  initialBatchBytes?: number;
+  minBatchBytes?: number;
+  maxBatchBytes?: number;
+  // Additive increase applied after each healthy request
+  batchBytesStep?: number;
+  initialConcurrency?: number;
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  // Multiplicative decrease applied when the cluster pushes back
+  decreaseFactor?: number;
+  maxHistory?: number;
+}
+
+export interface AdaptiveSample {
+  request: number;
+  latencyMs: number;
+  documents: number;
+  bytes: number;
+  rejectionRate: number;
+  batchBytes: number;
+  concurrency: number;
+}
+
+export interface AdaptiveObservation {
+  latencyMs: number;
+  documents: number;
+  bytes: number;
+  rejected: number;
+}
+
+export interface AdaptiveSnapshot {
+  batchBytes: number;
+  concurrency: number;
+  increases: number;
+  decreases: number;
+  history: AdaptiveSample[];
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * AIMD controller for bulk ingestion: every request that comes back under
+ * the target latency without throttling grows the batch payload by a fixed
+ * step (and, once the payload is at its ceiling, adds one in-flight
+ * request); a slow or throttled request halves both.
+ */
+export class AdaptiveController {
+  private readonly targetLatencyMs: number;
+  private readonly maxRejectionRate: number;
+  private readonly minBatchBytes: number;
+  private readonly maxBatchBytes: number;
+  private readonly batchBytesStep: number;
+  private readonly minConcurrency: number;
+  private readonly maxConcurrency: number;
+  private readonly decreaseFactor: number;
+  private readonly maxHistory: number;
+  private currentBatchBytes: number;
+  private currentConcurrency: number;
+  private requests = 0;
+  private increases = 0;
+  private decreases = 0;
+  private history: AdaptiveSample[] = [];
+
+  constructor(options: AdaptiveOptions = {}) {
+    this.targetLatencyMs = options.targetLatencyMs ?? 1000;
+    this.maxRejectionRate = options.maxRejectionRate ?? 0;
+    this.minBatchBytes = options.minBatchBytes ?? 1 * MB;
+    this.maxBatchBytes = Math.max(
+      this.minBatchBytes,
+      options.maxBatchBytes ?? 15 * MB
+    );
+    this.batchBytesStep = options.batchBytesStep ?? 1 * MB;
+    this.minConcurrency = Math.max(1, options.minConcurrency ?? 1);
+    this.maxConcurrency = Math.max(
+      this.minConcurrency,
+      options.maxConcurrency ?? 8
+    );
+    this.decreaseFactor = options.decreaseFactor ?? 0.5;
+    this.maxHistory = options.maxHistory ?? 500;
+    this.currentBatchBytes = this.clamp(
+      options.initialBatchBytes ?? 5 * MB,
+      this.minBatchBytes,
+      this.maxBatchBytes
+    );
+    this.currentConcurrency = this.clamp(
+      options.initialConcurrency ?? this.minConcurrency,
+      this.minConcurrency,
+      this.maxConcurrency
+    );
+  }
+
+  get batchBytes(): number {
+    return this.currentBatchBytes;
+  }
+
+  get concurrency(): number {
+    return this.currentConcurrency;
+  }
+
+  record(observation: AdaptiveObservation): void {
+    this.requests++;
+    const rejectionRate =
+      observation.documents === 0
+        ? 0
+        : observation.rejected / observation.documents;
+
+    if (
+      rejectionRate > this.maxRejectionRate ||
+      observation.latencyMs > this.targetLatencyMs
+    ) {
+      this.decrease();
+    } else {
+      this.increase();
+    }
+
+    this.history.push({
+      request: this.requests,
+      latencyMs: observation.latencyMs,
+      documents: observation.documents,
+      bytes: observation.bytes,
+      rejectionRate,
+      batchBytes: this.currentBatchBytes,
+      concurrency: this.currentConcurrency,
+    });
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+  }
+
+  getSnapshot(): AdaptiveSnapshot {
+    return {
+      batchBytes: this.currentBatchBytes,
+      concurrency: this.currentConcurrency,
+      increases: this.increases,
+      decreases: this.decreases,
+      history: [...this.history],
+    };
+  }
+
+  private increase(): void {
+    if (this.currentBatchBytes < this.maxBatchBytes) {
+      this.currentBatchBytes = Math.min(
+        this.maxBatchBytes,
+        this.currentBatchBytes + this.batchBytesStep
+      );
+      this.increases++;
+    } else if (this.currentConcurrency < this.maxConcurrency) {
+      this.currentConcurrency++;
+      this.increases++;
+    }
+  }
+
+  private decrease(): void {
+    this.currentBatchBytes = Math.max(
+      this.minBatchBytes,
+      Math.floor(this.currentBatchBytes * this.decreaseFactor)
+    );
+    this.currentConcurrency = Math.max(
+      this.minConcurrency,
+      Math.floor(this.currentConcurrency * this.decreaseFactor)
+    );
+    this.decreases++;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+}
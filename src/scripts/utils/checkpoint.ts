@@ -0,0 +1,244 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LogEntry } from "../../types/log.types";
+
+export interface IngestionCheckpoint {
+  indexName: string;
+  seed: number;
+  baseDate: string;
+  totalLogs: number;
+  // Generator documents [0, nextIndex) were acknowledged by OpenSearch (or
+  // dead-lettered) and must not be sent again
+  nextIndex: number;
+  batchesAcknowledged: number;
+  // Only idempotent runs (create by log id) can be resumed: batches sent
+  // past the checkpoint get cluster-assigned ids otherwise and would be
+  // indexed twice
+  idempotent: boolean;
+  completed: boolean;
+  updatedAt: string;
+}
+
+interface CheckpointTrackerOptions {
+  filePath: string;
+  indexName: string;
+  seed: number;
+  baseDate: Date;
+  totalLogs: number;
+  idempotent: boolean;
+  startIndex?: number;
+  startBatches?: number;
+}
+
+export function checkpointPath(
+  indexName: string,
+  dir: string = "./logs/checkpoints"
+): string {
+  return path.join(dir, `${indexName}.json`);
+}
+
+export function loadCheckpoint(filePath: string): IngestionCheckpoint | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    console.error(`Failed to read checkpoint ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The most recently updated unfinished checkpoint of an index starting with
+ * `prefix`, for resuming runs whose default index name embeds the day they
+ * started on.
+ */
+export function findLatestCheckpoint(
+  prefix: string,
+  dir: string = "./logs/checkpoints"
+): IngestionCheckpoint | null {
+  if (!fs.existsSync(dir)) {
+    return null;
+  }
+
+  let latest: IngestionCheckpoint | null = null;
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.startsWith(prefix) || !file.endsWith(".json")) continue;
+
+    const checkpoint = loadCheckpoint(path.join(dir, file));
+    if (!checkpoint || checkpoint.completed) continue;
+    if (!latest || checkpoint.updatedAt > latest.updatedAt) {
+      latest = checkpoint;
+    }
+  }
+  return latest;
+}
+
+export interface CheckpointSetup {
+  tracker: CheckpointTracker;
+  seed: number;
+  baseDate: Date;
+  totalLogs: number;
+  startIndex: number;
+  idempotent: boolean;
+  resumed: boolean;
+}
+
+/**
+ * Creates the tracker for a run. With `resume`, the seed, base date, total
+ * and idempotent mode of the previous run are reused so the remaining
+ * documents are the same ones that run would have sent. Resuming without a
+ * checkpoint, or from one of a non-idempotent run, is an error.
+ */
+export function setupCheckpoint(options: {
+  indexName: string;
+  totalLogs: number;
+  baseDate: Date;
+  seed?: number;
+  idempotent?: boolean;
+  resume?: boolean;
+  dir?: string;
+}): CheckpointSetup {
+  const filePath = checkpointPath(options.indexName, options.dir);
+  const previous = options.resume ? loadCheckpoint(filePath) : null;
+
+  if (options.resume && !previous) {
+    throw new Error(
+      `No checkpoint found at ${filePath}; nothing to resume. Start over without --resume.`
+    );
+  }
+
+  if (previous && !previous.idempotent) {
+    throw new Error(
+      `Checkpoint ${filePath} comes from a run without --idempotent; resuming it would index acknowledged documents twice. Start over without --resume.`
+    );
+  }
+
+  const seed = previous?.seed ?? options.seed ?? Date.now();
+  const idempotent = previous ? true : options.idempotent ?? false;
+  const baseDate = previous ? new Date(previous.baseDate) : options.baseDate;
+  const totalLogs = previous?.totalLogs ?? options.totalLogs;
+  const startIndex = previous?.nextIndex ?? 0;
+
+  const tracker = new CheckpointTracker({
+    filePath,
+    indexName: options.indexName,
+    seed,
+    baseDate,
+    totalLogs,
+    idempotent,
+    startIndex,
+    startBatches: previous?.batchesAcknowledged ?? 0,
+  });
+
+  return {
+    tracker,
+    seed,
+    baseDate,
+    totalLogs,
+    startIndex,
+    idempotent,
+    resumed: previous !== null,
+  };
+}
+
+/**
+ * Persists how far a seeded `generateLogs` run got. Bulk batches complete out
+ * of order when `concurrency > 1`, so only the contiguous prefix of
+ * acknowledged batches moves the checkpoint forward.
+ */
+export class CheckpointTracker {
+  private readonly options: CheckpointTrackerOptions;
+  // Generator position of each in-flight document; weak so documents are
+  // released once indexed
+  private readonly sequences = new WeakMap<object, number>();
+  private readonly acknowledged = new Map<number, LogEntry | undefined>();
+  private nextBatchIndex = 0;
+  private checkpoint: IngestionCheckpoint;
+
+  constructor(options: CheckpointTrackerOptions) {
+    this.options = options;
+    this.checkpoint = {
+      indexName: options.indexName,
+      seed: options.seed,
+      baseDate: options.baseDate.toISOString(),
+      totalLogs: options.totalLogs,
+      nextIndex: options.startIndex ?? 0,
+      batchesAcknowledged: options.startBatches ?? 0,
+      idempotent: options.idempotent,
+      completed: false,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  register(document: LogEntry, index: number): void {
+    if (document && typeof document === "object") {
+      this.sequences.set(document, index);
+    }
+  }
+
+  // Gives a copy made upstream (e.g. by coercion) the position of the
+  // document it replaces
+  replace(original: object, replacement: object): void {
+    const sequence = this.sequences.get(original);
+    if (
+      sequence !== undefined &&
+      replacement &&
+      typeof replacement === "object"
+    ) {
+      this.sequences.set(replacement, sequence);
+    }
+  }
+
+  acknowledge(batchIndex: number, lastDocument?: LogEntry): void {
+    this.acknowledged.set(batchIndex, lastDocument);
+
+    let advanced = false;
+    while (this.acknowledged.has(this.nextBatchIndex)) {
+      const document = this.acknowledged.get(this.nextBatchIndex);
+      this.acknowledged.delete(this.nextBatchIndex);
+      this.nextBatchIndex++;
+      this.checkpoint.batchesAcknowledged++;
+
+      // Documents nobody registered keep the previous position; the
+      // checkpoint then catches up with the next batch
+      const sequence = document ? this.sequences.get(document) : undefined;
+      if (sequence !== undefined && sequence >= this.checkpoint.nextIndex) {
+        this.checkpoint.nextIndex = sequence + 1;
+      }
+      advanced = true;
+    }
+
+    if (advanced) {
+      this.save();
+    }
+  }
+
+  complete(): void {
+    this.checkpoint.nextIndex = this.checkpoint.totalLogs;
+    this.checkpoint.completed = true;
+    this.save();
+  }
+
+  getCheckpoint(): IngestionCheckpoint {
+    return { ...this.checkpoint };
+  }
+
+  getFilePath(): string {
+    return this.options.filePath;
+  }
+
+  private save(): void {
+    this.checkpoint.updatedAt = new Date().toISOString();
+    try {
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      const tmpPath = `${this.options.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.checkpoint, null, 2));
+      fs.renameSync(tmpPath, this.options.filePath);
+    } catch (error) {
+      console.error("Failed to write checkpoint:", error);
+    }
+  }
+}
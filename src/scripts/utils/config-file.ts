@@ -0,0 +1,23 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Reads a `.json`, `.yaml` or `.yml` file whose top level must be an object.
+ */
+export function readConfigFile(
+  filePath: string,
+  description: string
+): Record<string, unknown> {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const extension = path.extname(filePath).toLowerCase();
+  const config =
+    extension === ".yaml" || extension === ".yml"
+      ? parseYaml(content)
+      : JSON.parse(content);
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`${description} ${filePath} must be an object`);
+  }
+  return config;
+}
@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { resolveWriteIndex } from "../../opensearch/index-resolver";
+
+export interface DeadLetterError {
+  type: string;
+  reason: string;
+  field?: string;
+}
+
+export type DeadLetterStage = "validation" | "insertion";
+
+export interface DeadLetterRecord {
+  timestamp: string;
+  source: string;
+  stage: DeadLetterStage;
+  errors: DeadLetterError[];
+  index?: string;
+  document: unknown;
+}
+
+/**
+ * Persists documents that could not be indexed to an NDJSON file (one per
+ * run), keeping the original document next to the reasons it was rejected
+ * so it can be inspected or replayed later.
+ */
+export class DeadLetterQueue {
+  private pending: DeadLetterRecord[] = [];
+  private written = 0;
+  private readonly filePath: string;
+  private readonly maxPendingRecords: number = 500;
+
+  constructor(dir: string = "./logs/dead-letter", filename?: string) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    this.filePath = path.join(dir, filename || `dlq-${timestamp}.ndjson`);
+  }
+
+  write(record: Omit<DeadLetterRecord, "timestamp">): void {
+    this.pending.push({ timestamp: new Date().toISOString(), ...record });
+
+    if (this.pending.length >= this.maxPendingRecords) {
+      this.flush();
+    }
+  }
+
+  flush(): void {
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    try {
+      fs.appendFileSync(
+        this.filePath,
+        this.pending.map((record) => JSON.stringify(record)).join("\n") + "\n",
+        "utf-8"
+      );
+      this.written += this.pending.length;
+      this.pending = [];
+    } catch (error) {
+      console.error("Failed to write dead-letter records:", error);
+    }
+  }
+
+  getCount(): number {
+    return this.written + this.pending.length;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+}
+
+export interface DeadLetterFilter {
+  errorTypes?: string[];
+  stage?: DeadLetterStage;
+}
+
+export function matchesDeadLetterFilter(
+  record: DeadLetterRecord,
+  filter: DeadLetterFilter
+): boolean {
+  if (filter.stage && record.stage !== filter.stage) {
+    return false;
+  }
+  if (filter.errorTypes && filter.errorTypes.length > 0) {
+    return record.errors.some((error) =>
+      filter.errorTypes!.includes(error.type)
+    );
+  }
+  return true;
+}
+
+/**
+ * Where a record goes on replay: `indexName` when given, else the target it
+ * was originally bound for. Validation failures carry no target and fall
+ * back to the write target of their timestamp; null when that is missing or
+ * invalid, so one unroutable record does not abort the replay.
+ */
+export function resolveReplayTarget(
+  record: DeadLetterRecord,
+  indexName?: string
+): string | null {
+  if (indexName) return indexName;
+  if (record.index) return record.index;
+
+  const timestamp = (record.document as { timestamp?: unknown } | null)
+    ?.timestamp;
+  if (typeof timestamp !== "string") return null;
+  try {
+    return resolveWriteIndex(timestamp);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Streams the records of a dead-letter file written by `DeadLetterQueue`,
+ * skipping blank lines. Malformed lines fail with their line number so a
+ * hand-edited file can be fixed before replaying it.
+ */
+export async function* readDeadLetterRecords(
+  filePath: string,
+  filter: DeadLetterFilter = {}
+): AsyncGenerator<DeadLetterRecord> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf-8" }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    let record: DeadLetterRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(
+        `Invalid dead-letter record at ${filePath}:${lineNumber}: ${
+          (error as Error).message
+        }`
+      );
+    }
+
+    if (matchesDeadLetterFilter(record, filter)) {
+      yield record;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlockList, isIP } from "net";
+import { CityResponse, Reader } from "maxmind";
+import { LogEntry } from "../../types/log.types";
+
+export type GeoInfo = LogEntry["geo"];
+
+export interface GeoIpDatabase {
+  // The returned record may be shared between lookups; copy before changing it
+  lookup(ip: string): GeoInfo | null;
+}
+
+interface IpRange {
+  start: bigint;
+  end: bigint;
+  geo: GeoInfo;
+}
+
+// Loopback, RFC 1918, link-local, CGNAT and IPv6 unique-local addresses
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_RANGES.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_RANGES.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_RANGES.addAddress("::", "ipv6");
+PRIVATE_RANGES.addAddress("::1", "ipv6");
+PRIVATE_RANGES.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_RANGES.addSubnet("fe80::", 10, "ipv6");
+
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+export function isPrivateIp(ip: string): boolean {
+  const mapped = ip.match(IPV4_MAPPED);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], "ipv4");
+  const version = isIP(ip);
+  if (version === 0) return false;
+  return PRIVATE_RANGES.check(ip, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Converts an address to its numeric value. IPv4-mapped IPv6 addresses are
+ * treated as IPv4 so both spellings hit the same range.
+ */
+export function ipToBigInt(
+  ip: string
+): { version: 4 | 6; value: bigint } | null {
+  const mapped = ip.match(IPV4_MAPPED);
+  const address = mapped ? mapped[1] : ip;
+  const version = isIP(address);
+
+  if (version === 4) {
+    const value = address
+      .split(".")
+      .reduce((total, octet) => (total << 8n) + BigInt(octet), 0n);
+    return { version: 4, value };
+  }
+  if (version !== 6) {
+    return null;
+  }
+
+  // An embedded IPv4 tail (`::1.2.3.4`) counts as the last two groups
+  let text = address;
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = ipToBigInt(tail[1])!.value;
+    text =
+      text.slice(0, -tail[1].length) +
+      `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head, rest] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = rest ? rest.split(":") : [];
+  const groups =
+    rest === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...new Array(8 - headGroups.length - tailGroups.length).fill("0"),
+          ...tailGroups,
+        ];
+
+  const value = groups.reduce(
+    (total, group) => (total << 16n) + BigInt(parseInt(group, 16)),
+    0n
+  );
+  return { version: 6, value };
+}
+
+function parseCidr(network: string): {
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+} {
+  const [address, prefixText] = network.split("/");
+  const parsed = ipToBigInt(address);
+  if (!parsed) {
+    throw new Error(`invalid network "${network}"`);
+  }
+  const bits = parsed.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    throw new Error(`invalid prefix in "${network}"`);
+  }
+
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n;
+  const start = parsed.value & ~hostMask;
+  return { version: parsed.version, start, end: start | hostMask };
+}
+
+// Splits one CSV line, handling quoted fields and `""` escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function findRange(ranges: IpRange[], value: bigint): IpRange | null {
+  let low = 0;
+  let high = ranges.length - 1;
+  let candidate: IpRange | null = null;
+
+  // Last range starting at or before the address
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start <= value) {
+      candidate = ranges[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return candidate && value <= candidate.end ? candidate : null;
+}
+
+/**
+ * CSV database with a header row. Each row is either a CIDR `network` or a
+ * `start_ip` / `end_ip` pair, plus `country`, `city`, `latitude` and
+ * `longitude` (the `country_iso_code` / `city_name` spellings work too).
+ * Ranges must not overlap.
+ */
+export class CsvRangeDatabase implements GeoIpDatabase {
+  private readonly ranges: Record<4 | 6, IpRange[]> = { 4: [], 6: [] };
+
+  constructor(content: string, source = "CSV") {
+    const lines = content.split(/\r?\n/);
+    const header = splitCsvLine(lines[0] ?? "").map((column) =>
+      column.trim().toLowerCase()
+    );
+    const column = (...names: string[]) =>
+      names.map((name) => header.indexOf(name)).find((index) => index >= 0) ??
+      -1;
+
+    const networkColumn = column("network", "cidr");
+    const startColumn = column("start_ip");
+    const endColumn = column("end_ip");
+    const countryColumn = column("country", "country_iso_code", "country_code");
+    const cityColumn = column("city", "city_name");
+    const latColumn = column("latitude", "lat");
+    const lonColumn = column("longitude", "lon");
+
+    if (networkColumn < 0 && (startColumn < 0 || endColumn < 0)) {
+      throw new Error(
+        `${source}: header needs a "network" column or "start_ip" and "end_ip"`
+      );
+    }
+    if (countryColumn < 0) {
+      throw new Error(`${source}: header needs a "country" column`);
+    }
+
+    lines.slice(1).forEach((line, i) => {
+      if (line.trim().length === 0) return;
+      const fields = splitCsvLine(line).map((field) => field.trim());
+      const where = `${source} line ${i + 2}`;
+
+      let version: 4 | 6;
+      let start: bigint;
+      let end: bigint;
+      try {
+        if (networkColumn >= 0) {
+          ({ version, start, end } = parseCidr(fields[networkColumn]));
+        } else {
+          const first = ipToBigInt(fields[startColumn]);
+          const last = ipToBigInt(fields[endColumn]);
+          if (!first || !last || first.version !== last.version) {
+            throw new Error("invalid start_ip / end_ip");
+          }
+          ({ version } = first);
+          start = first.value;
+          end = last.value;
+        }
+      } catch (error) {
+        throw new Error(`${where}: ${(error as Error).message}`);
+      }
+
+      const lat = latColumn >= 0 ? Number(fields[latColumn]) : NaN;
+      const lon = lonColumn >= 0 ? Number(fields[lonColumn]) : NaN;
+      this.ranges[version].push({
+        start,
+        end,
+        geo: {
+          country: fields[countryColumn] || "unknown",
+          city: (cityColumn >= 0 && fields[cityColumn]) || "unknown",
+          location: {
+            lat: Number.isFinite(lat) ? lat : 0,
+            lon: Number.isFinite(lon) ? lon : 0,
+          },
+        },
+      });
+    });
+
+    for (const ranges of Object.values(this.ranges)) {
+      ranges.sort((a, b) =>
+        a.start < b.start ? -1 : a.start > b.start ? 1 : 0
+      );
+    }
+  }
+
+  lookup(ip: string): GeoInfo | null {
+    const parsed = ipToBigInt(ip);
+    if (!parsed) return null;
+    const range = findRange(this.ranges[parsed.version], parsed.value);
+    return range ? range.geo : null;
+  }
+}
+
+/**
+ * MaxMind `.mmdb` database (GeoLite2 / GeoIP2 City or Country).
+ */
+export class MaxMindDatabase implements GeoIpDatabase {
+  private readonly reader: Reader<CityResponse>;
+
+  constructor(buffer: Buffer) {
+    this.reader = new Reader<CityResponse>(buffer);
+  }
+
+  lookup(ip: string): GeoInfo | null {
+    if (isIP(ip) === 0) return null;
+    const record = this.reader.get(ip);
+    const country =
+      record?.country?.iso_code ?? record?.registered_country?.iso_code;
+    if (!record || !country) return null;
+
+    return {
+      country,
+      city: record.city?.names.en ?? "unknown",
+      location: {
+        lat: record.location?.latitude ?? 0,
+        lon: record.location?.longitude ?? 0,
+      },
+    };
+  }
+}
+
+/**
+ * Parses `country,city,lat,lon` (e.g. `BR,Sao Paulo,-23.55,-46.63`) as used
+ * by the `--geoip-private` flag. Returns `null` when it does not fit.
+ */
+export function parseGeoInfo(text: string): GeoInfo | null {
+  const [country, city, lat, lon] = text.split(",").map((part) => part.trim());
+  const location = { lat: Number(lat), lon: Number(lon) };
+  if (
+    !country ||
+    !city ||
+    lat === undefined ||
+    lon === undefined ||
+    !(Math.abs(location.lat) <= 90) ||
+    !(Math.abs(location.lon) <= 180)
+  ) {
+    return null;
+  }
+  return { country, city, location };
+}
+
+/**
+ * Opens a `.mmdb` or `.csv` database; the whole file is read into memory.
+ */
+export function loadGeoIpDatabase(filePath: string): GeoIpDatabase {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".mmdb") {
+    return new MaxMindDatabase(fs.readFileSync(filePath));
+  }
+  if (extension === ".csv") {
+    return new CsvRangeDatabase(
+      fs.readFileSync(filePath, "utf-8"),
+      path.basename(filePath)
+    );
+  }
+  throw new Error(
+    `Unsupported GeoIP database ${filePath} (expected .mmdb or .csv)`
+  );
+}
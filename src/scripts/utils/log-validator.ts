@@ -0,0 +1,326 @@
+import { isIP } from "net";
+import { LogEntry } from "../../types/log.types";
+
+export const LOG_LEVELS: readonly LogEntry["level"][] = [
+  "trace",
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "fatal",
+];
+
+export const LOG_CATEGORIES: readonly LogEntry["category"][] = [
+  "application",
+  "security",
+  "performance",
+  "audit",
+  "system",
+];
+
+export const LOG_ENVIRONMENTS: readonly LogEntry["service"]["environment"][] = [
+  "production",
+  "staging",
+  "development",
+];
+
+/**
+ * `error` issues make OpenSearch reject the document (or leave it unusable);
+ * `warning` issues are indexable but break the `LogEntry` contract, such as
+ * unknown enum values or non-ISO timestamps.
+ */
+export type LogValidationSeverity = "error" | "warning";
+
+export interface LogValidationIssue {
+  field: string;
+  message: string;
+  severity: LogValidationSeverity;
+}
+
+const ISO_TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+type FieldKind = "string" | "number";
+
+class IssueCollector {
+  readonly issues: LogValidationIssue[] = [];
+
+  add(
+    field: string,
+    message: string,
+    severity: LogValidationSeverity = "error"
+  ): void {
+    this.issues.push({ field, message, severity });
+  }
+
+  object(value: unknown, field: string, required: boolean): boolean {
+    if (value === undefined || value === null) {
+      if (required) this.add(field, "is required");
+      return false;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      this.add(field, "must be an object");
+      return false;
+    }
+    return true;
+  }
+
+  fields(source: any, prefix: string, spec: Record<string, FieldKind>): void {
+    for (const [key, kind] of Object.entries(spec)) {
+      const field = `${prefix}.${key}`;
+      const value = source[key];
+      if (value === undefined || value === null) {
+        this.add(field, "is required");
+      } else if (kind === "string" && typeof value !== "string") {
+        this.add(field, "must be a string");
+      } else if (
+        kind === "number" &&
+        (typeof value !== "number" || !Number.isFinite(value))
+      ) {
+        this.add(field, "must be a finite number");
+      }
+    }
+  }
+
+  oneOf(value: unknown, field: string, allowed: readonly string[]): void {
+    if (value === undefined || value === null) {
+      this.add(field, "is required");
+    } else if (typeof value !== "string") {
+      this.add(field, "must be a string");
+    } else if (!allowed.includes(value)) {
+      this.add(field, `must be one of: ${allowed.join(", ")}`, "warning");
+    }
+  }
+
+  range(value: unknown, field: string, min: number, max: number): void {
+    if (typeof value === "number" && (value < min || value > max)) {
+      this.add(field, `must be between ${min} and ${max}`);
+    }
+  }
+}
+
+/**
+ * Checks a document against the `LogEntry` shape and returns every issue
+ * found. An empty array means the document can be indexed as-is.
+ */
+export function validateLogEntry(entry: unknown): LogValidationIssue[] {
+  const check = new IssueCollector();
+
+  if (!check.object(entry, "document", true)) {
+    return check.issues;
+  }
+
+  const log = entry as Record<string, any>;
+
+  if (typeof log.id !== "string" || log.id.length === 0) {
+    check.add("id", "must be a non-empty string");
+  }
+
+  if (typeof log.timestamp !== "string") {
+    check.add("timestamp", "is required");
+  } else if (Number.isNaN(Date.parse(log.timestamp))) {
+    check.add("timestamp", "must be a valid date");
+  } else if (!ISO_TIMESTAMP.test(log.timestamp)) {
+    check.add("timestamp", "must be an ISO 8601 timestamp", "warning");
+  }
+
+  if (check.object(log.service, "service", true)) {
+    check.fields(log.service, "service", {
+      name: "string",
+      version: "string",
+      instance_id: "string",
+      host: "string",
+      region: "string",
+    });
+    check.oneOf(
+      log.service.environment,
+      "service.environment",
+      LOG_ENVIRONMENTS
+    );
+  }
+
+  check.oneOf(log.level, "level", LOG_LEVELS);
+  check.oneOf(log.category, "category", LOG_CATEGORIES);
+
+  if (typeof log.message !== "string") {
+    check.add("message", "must be a string");
+  }
+
+  if (check.object(log.error, "error", false)) {
+    check.fields(log.error, "error", {
+      type: "string",
+      message: "string",
+      stack_trace: "string",
+      code: "string",
+    });
+  }
+
+  if (check.object(log.request, "request", false)) {
+    check.fields(log.request, "request", {
+      id: "string",
+      method: "string",
+      path: "string",
+      user_id: "string",
+      ip: "string",
+      user_agent: "string",
+      duration_ms: "number",
+    });
+    if (typeof log.request.ip === "string" && isIP(log.request.ip) === 0) {
+      check.add("request.ip", "must be a valid IPv4 or IPv6 address");
+    }
+  }
+
+  if (check.object(log.business, "business", false)) {
+    check.fields(log.business, "business", {
+      transaction_id: "string",
+      amount: "number",
+      currency: "string",
+      payment_method: "string",
+    });
+  }
+
+  if (check.object(log.metrics, "metrics", true)) {
+    check.fields(log.metrics, "metrics", {
+      cpu_usage: "number",
+      memory_mb: "number",
+      response_time_ms: "number",
+      db_query_time_ms: "number",
+    });
+  }
+
+  if (
+    !Array.isArray(log.tags) ||
+    log.tags.some((tag: unknown) => typeof tag !== "string")
+  ) {
+    check.add("tags", "must be an array of strings");
+  }
+
+  if (check.object(log.geo, "geo", true)) {
+    check.fields(log.geo, "geo", { country: "string", city: "string" });
+    if (check.object(log.geo.location, "geo.location", true)) {
+      check.fields(log.geo.location, "geo.location", {
+        lat: "number",
+        lon: "number",
+      });
+      check.range(log.geo.location.lat, "geo.location.lat", -90, 90);
+      check.range(log.geo.location.lon, "geo.location.lon", -180, 180);
+    }
+  }
+
+  return check.issues;
+}
+
+export function formatValidationIssues(issues: LogValidationIssue[]): string {
+  return issues.map((issue) => `${issue.field} ${issue.message}`).join("; ");
+}
+
+const LEVEL_ALIASES: Record<string, LogEntry["level"]> = {
+  warning: "warn",
+  err: "error",
+  critical: "fatal",
+  crit: "fatal",
+  emerg: "fatal",
+  notice: "info",
+  information: "info",
+  verbose: "debug",
+};
+
+const ENVIRONMENT_ALIASES: Record<string, LogEntry["service"]["environment"]> =
+  {
+    prod: "production",
+    stage: "staging",
+    stg: "staging",
+    dev: "development",
+    local: "development",
+  };
+
+function coerceEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  aliases: Record<string, T>
+): T | undefined {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  if ((allowed as readonly string[]).includes(normalized)) {
+    return normalized as T;
+  }
+  return aliases[normalized];
+}
+
+// Maps level names used by other tools (`warning`, `crit`, ...) to ours
+export function coerceLogLevel(value: unknown): LogEntry["level"] | undefined {
+  return coerceEnum(value, LOG_LEVELS, LEVEL_ALIASES);
+}
+
+function coerceNumber(value: unknown): unknown {
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : value;
+  }
+  return value;
+}
+
+/**
+ * Best-effort repair of common deviations from the `LogEntry` shape:
+ * case and alias normalization of enums, epoch or non-ISO timestamps,
+ * numeric strings in metrics and coordinates. Returns a copy; anything that
+ * cannot be repaired, such as out-of-range coordinates, is left for
+ * validation to report.
+ */
+export function coerceLogEntry(entry: unknown): {
+  document: unknown;
+  changed: boolean;
+} {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    return { document: entry, changed: false };
+  }
+
+  const original = JSON.stringify(entry);
+  const log = JSON.parse(original) as Record<string, any>;
+
+  if (typeof log.timestamp === "number" || typeof log.timestamp === "string") {
+    const parsed = new Date(log.timestamp);
+    if (!Number.isNaN(parsed.getTime())) {
+      log.timestamp = parsed.toISOString();
+    }
+  }
+
+  const level = coerceLogLevel(log.level);
+  if (level) log.level = level;
+
+  const category = coerceEnum(log.category, LOG_CATEGORIES, {});
+  if (category) log.category = category;
+
+  if (log.service && typeof log.service === "object") {
+    const environment = coerceEnum(
+      log.service.environment,
+      LOG_ENVIRONMENTS,
+      ENVIRONMENT_ALIASES
+    );
+    if (environment) log.service.environment = environment;
+  }
+
+  if (log.metrics && typeof log.metrics === "object") {
+    for (const key of Object.keys(log.metrics)) {
+      log.metrics[key] = coerceNumber(log.metrics[key]);
+    }
+  }
+
+  if (log.request && typeof log.request === "object") {
+    log.request.duration_ms = coerceNumber(log.request.duration_ms);
+  }
+
+  if (typeof log.tags === "string") {
+    log.tags = [log.tags];
+  } else if (log.tags === undefined || log.tags === null) {
+    log.tags = [];
+  }
+
+  const location = log.geo?.location;
+  if (location && typeof location === "object") {
+    location.lat = coerceNumber(location.lat);
+    location.lon = coerceNumber(location.lon);
+  }
+
+  return { document: log, changed: JSON.stringify(log) !== original };
+}
@@ -0,0 +1,42 @@
+/**
+ * Fixed-size cache that evicts the least recently used entry. Relies on
+ * `Map` keeping insertion order: reads re-insert the key at the end, so the
+ * first key is always the oldest.
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+  private readonly maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = Math.max(0, Math.floor(maxSize));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    if (this.maxSize === 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,85 @@
+export interface RetryPolicyOptions {
+  // Total attempts per document, including the first one
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Fraction of the backoff delay that is randomized (0 = none, 1 = full jitter)
+  jitter?: number;
+  retryableErrorTypes?: string[];
+  retryableStatuses?: number[];
+}
+
+export const DEFAULT_RETRYABLE_ERROR_TYPES = [
+  "es_rejected_execution_exception",
+  "opensearch_rejected_execution_exception",
+  "circuit_breaking_exception",
+  "unavailable_shards_exception",
+  "process_cluster_event_timeout_exception",
+];
+
+export const DEFAULT_RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// Client errors raised before a response is received
+const TRANSIENT_CLIENT_ERRORS = [
+  "ConnectionError",
+  "TimeoutError",
+  "NoLivingConnectionsError",
+];
+
+/**
+ * Exponential backoff with jitter for bulk requests. Attempts are 1-based:
+ * `delayFor(1)` is the wait before the second attempt.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: number;
+  private readonly retryableErrorTypes: Set<string>;
+  private readonly retryableStatuses: Set<number>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.baseDelayMs = Math.max(0, options.baseDelayMs ?? 200);
+    this.maxDelayMs = Math.max(this.baseDelayMs, options.maxDelayMs ?? 10_000);
+    this.jitter = Math.min(Math.max(options.jitter ?? 0.5, 0), 1);
+    this.retryableErrorTypes = new Set(
+      options.retryableErrorTypes ?? DEFAULT_RETRYABLE_ERROR_TYPES
+    );
+    this.retryableStatuses = new Set(
+      options.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES
+    );
+  }
+
+  canRetry(attempt: number): boolean {
+    return attempt < this.maxAttempts;
+  }
+
+  isRetryableItem(status?: number, errorType?: string): boolean {
+    return (
+      (status !== undefined && this.retryableStatuses.has(status)) ||
+      (errorType !== undefined && this.retryableErrorTypes.has(errorType))
+    );
+  }
+
+  isRetryableRequestError(error: unknown): boolean {
+    const err = error as { name?: string; meta?: { statusCode?: number } };
+    if (err?.name && TRANSIENT_CLIENT_ERRORS.includes(err.name)) {
+      return true;
+    }
+    const status = err?.meta?.statusCode;
+    return status !== undefined && this.retryableStatuses.has(status);
+  }
+
+  delayFor(attempt: number, random: () => number = Math.random): number {
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+    );
+    return Math.round(exponential * (1 - this.jitter * random()));
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,109 @@
+import { UserAgentInfo } from "../../types/log.types";
+
+interface BrowserRule {
+  name: string;
+  pattern: RegExp;
+}
+
+interface OsRule {
+  name: string;
+  pattern: RegExp;
+}
+
+// Crawlers, uptime checkers and HTTP libraries
+const BOT_PATTERN =
+  /bot\b|bot\/|crawl|spider|slurp|facebookexternalhit|headless|lighthouse|pingdom|uptime|monitor|curl\/|wget\/|python-requests|python-urllib|go-http-client|okhttp|axios\/|node-fetch|java\/|libwww|httpclient|postman/i;
+
+// Named bots, reported as the browser so they can be told apart
+const BOT_NAME_PATTERN =
+  /(\w*(?:bot|crawler|spider)\w*|curl|wget|python-requests|go-http-client|okhttp|axios|postman\w*)\/v?([\d.]+)?/i;
+
+/**
+ * Order matters: Chromium-based browsers also send `Chrome/` and `Safari/`,
+ * and Chrome sends `Safari/`, so the more specific tokens come first.
+ */
+const BROWSER_RULES: BrowserRule[] = [
+  { name: "Edge", pattern: /\b(?:Edg|Edge|EdgA|EdgiOS)\/([\d.]+)/ },
+  { name: "Opera", pattern: /\b(?:OPR|Opera)\/([\d.]+)/ },
+  { name: "Samsung Internet", pattern: /\bSamsungBrowser\/([\d.]+)/ },
+  { name: "Firefox", pattern: /\b(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: "Chrome", pattern: /\b(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: "Safari", pattern: /\bVersion\/([\d._]+).*\bSafari\// },
+  {
+    name: "Internet Explorer",
+    pattern: /\b(?:MSIE |Trident\/.*\brv:)([\d.]+)/,
+  },
+];
+
+const OS_RULES: OsRule[] = [
+  { name: "Windows", pattern: /\bWindows\b/ },
+  { name: "iOS", pattern: /\b(?:iPhone|iPad|iPod)\b/ },
+  { name: "Android", pattern: /\bAndroid\b/ },
+  { name: "ChromeOS", pattern: /\bCrOS\b/ },
+  { name: "macOS", pattern: /\b(?:Macintosh|Mac OS X)\b/ },
+  { name: "Linux", pattern: /\bLinux\b/ },
+];
+
+export const UNKNOWN_USER_AGENT: UserAgentInfo = {
+  browser: "unknown",
+  browser_version: "",
+  os: "unknown",
+  device_type: "unknown",
+  is_bot: false,
+};
+
+function deviceType(userAgent: string, os: string): string {
+  if (/\biPad\b|\bTablet\b/i.test(userAgent)) return "tablet";
+  // Android tablets leave out the `Mobile` token
+  if (os === "Android") {
+    return /\bMobile\b/.test(userAgent) ? "mobile" : "tablet";
+  }
+  if (/\bMobi|\biPhone\b|\biPod\b/.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+/**
+ * Extracts browser, OS, device type and bot flag from a `User-Agent` header.
+ * Rule-based rather than exhaustive: anything not recognised is reported as
+ * `Other` so it still shows up in aggregations.
+ */
+export function parseUserAgent(userAgent: string | undefined): UserAgentInfo {
+  const text = userAgent?.trim() ?? "";
+  if (text.length === 0) {
+    return { ...UNKNOWN_USER_AGENT };
+  }
+
+  const os = OS_RULES.find((rule) => rule.pattern.test(text))?.name ?? "Other";
+
+  if (BOT_PATTERN.test(text)) {
+    const bot = text.match(BOT_NAME_PATTERN);
+    return {
+      browser: bot ? bot[1] : "Other",
+      browser_version: bot?.[2] ?? "",
+      os,
+      device_type: "bot",
+      is_bot: true,
+    };
+  }
+
+  for (const rule of BROWSER_RULES) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      return {
+        browser: rule.name,
+        browser_version: match[1].replace(/_/g, "."),
+        os,
+        device_type: deviceType(text, os),
+        is_bot: false,
+      };
+    }
+  }
+
+  return {
+    browser: "Other",
+    browser_version: "",
+    os,
+    device_type: deviceType(text, os),
+    is_bot: false,
+  };
+}
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { AdaptiveController } from "../scripts/utils/adaptive-controller";
+
+describe("AdaptiveController", () => {
+  const healthy = { latencyMs: 100, documents: 100, bytes: 1000, rejected: 0 };
+
+  it("grows the batch payload additively while requests are healthy", () => {
+    const controller = new AdaptiveController({
+      initialBatchBytes: 1000,
+      minBatchBytes: 500,
+      maxBatchBytes: 3000,
+      batchBytesStep: 1000,
+    });
+
+    controller.record(healthy);
+    expect(controller.batchBytes).to.equal(2000);
+    controller.record(healthy);
+    expect(controller.batchBytes).to.equal(3000);
+    expect(controller.concurrency).to.equal(1);
+  });
+
+  it("adds in-flight requests once the payload is at its ceiling", () => {
+    const controller = new AdaptiveController({
+      initialBatchBytes: 3000,
+      maxBatchBytes: 3000,
+      minBatchBytes: 500,
+      maxConcurrency: 2,
+    });
+
+    controller.record(healthy);
+    controller.record(healthy);
+    controller.record(healthy);
+    expect(controller.concurrency).to.equal(2);
+  });
+
+  it("halves payload and concurrency on slow or throttled requests", () => {
+    const controller = new AdaptiveController({
+      targetLatencyMs: 500,
+      initialBatchBytes: 4000,
+      minBatchBytes: 1000,
+      maxBatchBytes: 4000,
+      initialConcurrency: 4,
+      maxConcurrency: 4,
+    });
+
+    controller.record({ ...healthy, latencyMs: 900 });
+    expect(controller.batchBytes).to.equal(2000);
+    expect(controller.concurrency).to.equal(2);
+
+    controller.record({ ...healthy, rejected: 10 });
+    expect(controller.batchBytes).to.equal(1000);
+    expect(controller.concurrency).to.equal(1);
+
+    controller.record({ ...healthy, rejected: 10 });
+    expect(controller.batchBytes).to.equal(1000);
+    expect(controller.concurrency).to.equal(1);
+  });
+
+  it("keeps a bounded history of chosen values", () => {
+    const controller = new AdaptiveController({ maxHistory: 2 });
+
+    controller.record(healthy);
+    controller.record(healthy);
+    controller.record({ ...healthy, rejected: 50 });
+
+    const snapshot = controller.getSnapshot();
+    expect(snapshot.history.map((sample) => sample.request)).to.deep.equal([
+      2, 3,
+    ]);
+    expect(snapshot.history[1].rejectionRate).to.equal(0.5);
+    expect(snapshot.decreases).to.equal(1);
+  });
+});
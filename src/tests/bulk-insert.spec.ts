@@ -1,7 +1,16 @@
 import { expect } from "chai";
 import { once } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { BulkInsertTransform } from "../scripts/bulk-insert";
 import { opensearchClient } from "../config/opensearch.config";
+import {
+  DeadLetterQueue,
+  DeadLetterRecord,
+  readDeadLetterRecords,
+  resolveReplayTarget,
+} from "../scripts/utils/dead-letter-queue";
 import { createLogEntry } from "./helpers/log-fixtures";
 
 describe("BulkInsertTransform", () => {
@@ -90,6 +99,471 @@ describe("BulkInsertTransform", () => {
     expect(metrics.totalInserted).to.equal(1);
   });
 
+  it("dead-letters failed documents with their OpenSearch error", async () => {
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async () => ({
+      body: {
+        errors: true,
+        items: [
+          {
+            index: {
+              _index: "logs-test",
+              error: { type: "version_conflict", reason: "conflict" },
+            },
+          },
+          { index: { _index: "logs-test" } },
+          {
+            index: {
+              _index: "logs-test",
+              error: {
+                type: "mapper_parsing_exception",
+                reason: "failed to parse field [metrics.cpu_usage]",
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dlq-"));
+    try {
+      const deadLetterQueue = new DeadLetterQueue(dir, "dlq.ndjson");
+      const transform = new BulkInsertTransform({
+        indexName: "logs-test",
+        batchSize: 3,
+        deadLetterQueue,
+      });
+      transform.resume();
+
+      transform.write(createLogEntry({ id: "log-1" }));
+      transform.write(createLogEntry({ id: "log-2" }));
+      transform.write(createLogEntry({ id: "log-3" }));
+      transform.end();
+      await once(transform, "finish");
+
+      const records = [];
+      for await (const record of readDeadLetterRecords(
+        deadLetterQueue.getFilePath()
+      )) {
+        records.push(record);
+      }
+
+      expect(records.map((record: any) => record.document.id)).to.deep.equal([
+        "log-1",
+        "log-3",
+      ]);
+      expect(records[1]).to.include({
+        source: "BulkInsertTransform",
+        stage: "insertion",
+        index: "logs-test",
+      });
+      expect(records[1].errors).to.deep.equal([
+        {
+          type: "mapper_parsing_exception",
+          reason: "failed to parse field [metrics.cpu_usage]",
+        },
+      ]);
+
+      const filtered = [];
+      for await (const record of readDeadLetterRecords(
+        deadLetterQueue.getFilePath(),
+        { errorTypes: ["mapper_parsing_exception"] }
+      )) {
+        filtered.push(record);
+      }
+      expect(filtered).to.have.lengthOf(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("resubmits only the items rejected with a retryable error", async () => {
+    const bulkCalls: string[][] = [];
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      const ids = body
+        .trimEnd()
+        .split("\n")
+        .filter((_, line) => line % 2 === 1)
+        .map((line) => JSON.parse(line).id);
+      bulkCalls.push(ids);
+
+      const rejected = bulkCalls.length === 1 ? ["log-2"] : [];
+      return {
+        body: {
+          errors: rejected.length > 0,
+          items: ids.map((id) =>
+            rejected.includes(id)
+              ? {
+                  index: {
+                    status: 429,
+                    error: {
+                      type: "es_rejected_execution_exception",
+                      reason: "rejected execution",
+                    },
+                  },
+                }
+              : { index: { status: 201 } }
+          ),
+        },
+      };
+    };
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 3,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const emitted: Array<{ inserted: number; total: number }> = [];
+    transform.on("data", (chunk) => emitted.push(chunk));
+
+    transform.write(createLogEntry({ id: "log-1" }));
+    transform.write(createLogEntry({ id: "log-2" }));
+    transform.write(createLogEntry({ id: "log-3" }));
+    transform.end();
+    await once(transform, "finish");
+
+    expect(bulkCalls).to.deep.equal([["log-1", "log-2", "log-3"], ["log-2"]]);
+    expect(emitted).to.deep.equal([{ inserted: 3, total: 3 }]);
+
+    const metrics = transform.getMetrics();
+    expect(metrics.retries).to.equal(1);
+    expect(metrics.retriedDocuments).to.equal(1);
+    expect(metrics.failedDocuments).to.equal(0);
+  });
+
+  it("gives up once retries are exhausted", async () => {
+    let calls = 0;
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async () => {
+      calls++;
+      return {
+        body: {
+          errors: true,
+          items: [
+            {
+              index: {
+                status: 429,
+                error: {
+                  type: "es_rejected_execution_exception",
+                  reason: "rejected execution",
+                },
+              },
+            },
+          ],
+        },
+      };
+    };
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 1,
+      retry: { maxAttempts: 3, baseDelayMs: 0 },
+    });
+    transform.resume();
+
+    transform.write(createLogEntry({ id: "log-1" }));
+    transform.end();
+    await once(transform, "finish");
+
+    expect(calls).to.equal(3);
+    const metrics = transform.getMetrics();
+    expect(metrics.retries).to.equal(2);
+    expect(metrics.retriesExhausted).to.equal(1);
+    expect(metrics.failedDocuments).to.equal(1);
+  });
+
+  it("retries whole requests rejected with 429", async () => {
+    let calls = 0;
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async () => {
+      calls++;
+      if (calls === 1) {
+        throw Object.assign(new Error("Too Many Requests"), {
+          name: "ResponseError",
+          meta: { statusCode: 429 },
+        });
+      }
+      return { body: { errors: false, items: [{ index: {} }] } };
+    };
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 1,
+      retry: { baseDelayMs: 0 },
+    });
+    transform.resume();
+
+    transform.write(createLogEntry({ id: "log-1" }));
+    transform.end();
+    await once(transform, "finish");
+
+    expect(calls).to.equal(2);
+    expect(transform.getMetrics().totalInserted).to.equal(1);
+  });
+
+  it("sizes batches by payload bytes in adaptive mode", async () => {
+    const batchSizes: number[] = [];
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      const docCount = body.trimEnd().split("\n").length / 2;
+      batchSizes.push(docCount);
+      return {
+        body: {
+          errors: false,
+          items: Array(docCount)
+            .fill(null)
+            .map(() => ({ index: {} })),
+        },
+      };
+    };
+
+    const docBytes = Buffer.byteLength(
+      JSON.stringify({ index: { _index: "logs-test" } }) +
+        "\n" +
+        JSON.stringify(createLogEntry({ id: "log-0" })) +
+        "\n"
+    );
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 1000,
+      adaptive: {
+        initialBatchBytes: docBytes * 2,
+        minBatchBytes: docBytes * 2,
+        maxBatchBytes: docBytes * 3,
+        batchBytesStep: docBytes,
+      },
+    });
+    transform.resume();
+
+    for (let i = 0; i < 5; i++) {
+      transform.write(createLogEntry({ id: `log-${i}` }));
+    }
+    transform.end();
+    await once(transform, "finish");
+
+    expect(batchSizes).to.deep.equal([2, 3]);
+    const { adaptive } = transform.getMetrics();
+    expect(adaptive?.history).to.have.lengthOf(2);
+    expect(adaptive?.batchBytes).to.equal(docBytes * 3);
+  });
+
+  it("flushes before a batch would exceed maxBatchBytes", async () => {
+    const bodies: string[] = [];
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      bodies.push(body);
+      const docCount = body.trimEnd().split("\n").length / 2;
+      return {
+        body: {
+          errors: false,
+          items: Array(docCount)
+            .fill(null)
+            .map(() => ({ index: {} })),
+        },
+      };
+    };
+
+    const small = createLogEntry({ id: "small" });
+    const large = createLogEntry({
+      id: "large",
+      message: "x".repeat(2000),
+    });
+    const smallBytes = Buffer.byteLength(
+      JSON.stringify({ index: { _index: "logs-test" } }) +
+        "\n" +
+        JSON.stringify(small) +
+        "\n"
+    );
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 100,
+      maxBatchBytes: smallBytes * 3,
+    });
+    transform.resume();
+
+    transform.write(small);
+    transform.write(small);
+    transform.write(large);
+    transform.write(small);
+    transform.end();
+    await once(transform, "finish");
+
+    expect(
+      bodies.map((body) => body.trimEnd().split("\n").length / 2)
+    ).to.deep.equal([2, 1, 1]);
+    expect(Buffer.byteLength(bodies[0])).to.equal(smallBytes * 2);
+
+    const metrics = transform.getMetrics();
+    expect(metrics.totalBytes).to.equal(
+      bodies.reduce((sum, body) => sum + Buffer.byteLength(body), 0)
+    );
+    expect(metrics.largestBatchBytes).to.equal(Buffer.byteLength(bodies[1]));
+    expect(metrics.throughputMBps).to.be.greaterThan(0);
+  });
+
+  it("uses create with the log id and counts conflicts as duplicates in idempotent mode", async () => {
+    let capturedBody = "";
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      capturedBody = body;
+      return {
+        body: {
+          errors: true,
+          items: [
+            { create: { _id: "log-1", status: 201, result: "created" } },
+            {
+              create: {
+                _id: "log-2",
+                status: 409,
+                error: {
+                  type: "version_conflict_engine_exception",
+                  reason: "[log-2]: version conflict, document already exists",
+                },
+              },
+            },
+          ],
+        },
+      };
+    };
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-test",
+      batchSize: 2,
+      idempotent: true,
+    });
+
+    const emitted: Array<{ inserted: number; total: number }> = [];
+    transform.on("data", (chunk) => emitted.push(chunk));
+
+    transform.write(createLogEntry({ id: "log-1" }));
+    transform.write(createLogEntry({ id: "log-2" }));
+    transform.end();
+    await once(transform, "finish");
+
+    expect(JSON.parse(capturedBody.split("\n")[0])).to.deep.equal({
+      create: { _index: "logs-test", _id: "log-1" },
+    });
+    expect(emitted).to.deep.equal([{ inserted: 1, total: 2 }]);
+
+    const metrics = transform.getMetrics();
+    expect(metrics.totalInserted).to.equal(1);
+    expect(metrics.duplicates).to.equal(1);
+    expect(metrics.failedDocuments).to.equal(0);
+  });
+
+  it("sends create actions with @timestamp to a data stream", async () => {
+    let capturedBody = "";
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      capturedBody = body;
+      return {
+        body: {
+          errors: false,
+          items: [
+            {
+              create: {
+                _index: ".ds-logs-ds-test-000001",
+                status: 201,
+                result: "created",
+              },
+            },
+          ],
+        },
+      };
+    };
+
+    const transform = new BulkInsertTransform({
+      indexName: "logs-ds-test",
+      batchSize: 1,
+      dataStream: true,
+    });
+    transform.resume();
+
+    const log = createLogEntry({ timestamp: "2024-03-01T10:00:00.000Z" });
+    transform.write(log);
+    transform.end();
+    await once(transform, "finish");
+
+    const [action, source] = capturedBody.trimEnd().split("\n");
+    expect(JSON.parse(action)).to.deep.equal({
+      create: { _index: "logs-ds-test" },
+    });
+    expect(JSON.parse(source)).to.deep.equal({
+      "@timestamp": "2024-03-01T10:00:00.000Z",
+      ...JSON.parse(JSON.stringify(log)),
+    });
+    expect(transform.getMetrics().totalInserted).to.equal(1);
+  });
+
+  it("dead-letters the logical target and decides create per target", async () => {
+    let capturedBody = "";
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: string }) => {
+      capturedBody = body;
+      return {
+        body: {
+          errors: true,
+          items: [
+            {
+              create: {
+                _index: ".ds-logs-ds-test-000001",
+                error: {
+                  type: "mapper_parsing_exception",
+                  reason: "failed to parse field [metrics.cpu_usage]",
+                },
+              },
+            },
+            { index: { _index: "logs-000003", status: 201 } },
+          ],
+        },
+      };
+    };
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dlq-"));
+    try {
+      const deadLetterQueue = new DeadLetterQueue(dir, "dlq.ndjson");
+      const transform = new BulkInsertTransform({
+        indexName: "logs-write",
+        resolveIndex: (doc) =>
+          doc.id === "log-ds" ? "logs-ds-test" : "logs-write",
+        batchSize: 2,
+        dataStream: (index) => index.startsWith("logs-ds-"),
+        deadLetterQueue,
+      });
+      transform.resume();
+
+      transform.write(createLogEntry({ id: "log-ds" }));
+      transform.write(createLogEntry({ id: "log-alias" }));
+      transform.end();
+      await once(transform, "finish");
+
+      const actions = capturedBody
+        .trimEnd()
+        .split("\n")
+        .filter((_, i) => i % 2 === 0)
+        .map((line) => JSON.parse(line));
+      expect(actions).to.deep.equal([
+        { create: { _index: "logs-ds-test" } },
+        { index: { _index: "logs-write" } },
+      ]);
+
+      const records = [];
+      for await (const record of readDeadLetterRecords(
+        deadLetterQueue.getFilePath()
+      )) {
+        records.push(record);
+      }
+      expect(records.map((record) => record.index)).to.deep.equal([
+        "logs-ds-test",
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it("serializes batches as NDJSON", async () => {
     let capturedBody: string | null = null;
     // @ts-expect-error mocking bulk for tests
@@ -126,3 +600,41 @@ describe("BulkInsertTransform", () => {
     expect(secondAction).to.deep.equal({ index: { _index: "logs-test" } });
   });
 });
+
+describe("resolveReplayTarget", () => {
+  const record = (
+    overrides: Partial<DeadLetterRecord> = {}
+  ): DeadLetterRecord => ({
+    timestamp: "2024-03-02T00:00:00.000Z",
+    source: "LogValidationTransform",
+    stage: "validation",
+    errors: [{ type: "missing_field", reason: "timestamp is required" }],
+    document: createLogEntry({ timestamp: "2024-03-01T10:00:00.000Z" }),
+    ...overrides,
+  });
+
+  it("prefers --index, then the original target, then the timestamp", () => {
+    const insertion = record({ stage: "insertion", index: "logs-ds-app" });
+
+    expect(resolveReplayTarget(insertion, "logs-fixed")).to.equal("logs-fixed");
+    expect(resolveReplayTarget(insertion)).to.equal("logs-ds-app");
+    expect(resolveReplayTarget(record())).to.equal("logs-2024-03-01");
+  });
+
+  it("leaves validation records without a valid timestamp unroutable", () => {
+    const { timestamp: _timestamp, ...withoutTimestamp } = createLogEntry();
+
+    expect(
+      resolveReplayTarget(record({ document: withoutTimestamp }))
+    ).to.equal(null);
+    expect(
+      resolveReplayTarget(
+        record({ document: createLogEntry({ timestamp: "yesterday" }) })
+      )
+    ).to.equal(null);
+    expect(resolveReplayTarget(record({ document: null }))).to.equal(null);
+    expect(
+      resolveReplayTarget(record({ document: withoutTimestamp }), "logs-fixed")
+    ).to.equal("logs-fixed");
+  });
+});
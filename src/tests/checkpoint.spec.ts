@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CheckpointTracker,
+  checkpointPath,
+  findLatestCheckpoint,
+  loadCheckpoint,
+  setupCheckpoint,
+} from "../scripts/utils/checkpoint";
+import { LogValidationTransform } from "../scripts/transforms/log-validation";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("CheckpointTracker", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createTracker(startIndex = 0) {
+    return new CheckpointTracker({
+      filePath: checkpointPath("logs-test", dir),
+      indexName: "logs-test",
+      seed: 42,
+      baseDate: new Date("2024-01-01T00:00:00.000Z"),
+      totalLogs: 100,
+      idempotent: true,
+      startIndex,
+    });
+  }
+
+  it("only advances over the contiguous prefix of acknowledged batches", () => {
+    const tracker = createTracker();
+    const docs = Array.from({ length: 6 }, (_, i) =>
+      createLogEntry({ id: `log-${i}` })
+    );
+    docs.forEach((doc, i) => tracker.register(doc, i));
+
+    // batches: [0, 1], [2, 3], [4, 5]
+    tracker.acknowledge(1, docs[3]);
+    expect(tracker.getCheckpoint().nextIndex).to.equal(0);
+
+    tracker.acknowledge(0, docs[1]);
+    expect(tracker.getCheckpoint().nextIndex).to.equal(4);
+    expect(tracker.getCheckpoint().batchesAcknowledged).to.equal(2);
+
+    tracker.acknowledge(2, docs[5]);
+    const saved = loadCheckpoint(checkpointPath("logs-test", dir));
+    expect(saved).to.include({ nextIndex: 6, seed: 42, completed: false });
+  });
+
+  it("keeps the previous position for documents it cannot trace", () => {
+    const tracker = createTracker(10);
+
+    tracker.acknowledge(0, createLogEntry({ id: "untracked" }));
+
+    expect(tracker.getCheckpoint().nextIndex).to.equal(10);
+  });
+
+  it("follows documents that coercion replaced with copies", async () => {
+    const tracker = createTracker();
+    const validation = new LogValidationTransform({ mode: "coerce" });
+    validation.on("documentReplaced", (original, replacement) =>
+      tracker.replace(original, replacement)
+    );
+    const docs = [0, 1].map((i) =>
+      createLogEntry({ id: `log-${i}`, level: "WARNING" as any })
+    );
+    docs.forEach((doc, i) => tracker.register(doc, i));
+
+    const coerced: any[] = [];
+    validation.on("data", (doc) => coerced.push(doc));
+    docs.forEach((doc) => validation.write(doc));
+    validation.end();
+    await new Promise((resolve) => validation.on("end", resolve));
+
+    expect(coerced[1]).to.not.equal(docs[1]);
+    expect(coerced[1].level).to.equal("warn");
+    tracker.acknowledge(0, coerced[1]);
+    expect(tracker.getCheckpoint().nextIndex).to.equal(2);
+  });
+
+  it("resumes with the seed, base date and position of the previous run", () => {
+    const first = setupCheckpoint({
+      indexName: "logs-test",
+      totalLogs: 100,
+      baseDate: new Date("2024-01-01T00:00:00.000Z"),
+      seed: 7,
+      idempotent: true,
+      dir,
+    });
+    const doc = createLogEntry({ id: "log-24" });
+    first.tracker.register(doc, 24);
+    first.tracker.acknowledge(0, doc);
+
+    const resumed = setupCheckpoint({
+      indexName: "logs-test",
+      totalLogs: 500,
+      baseDate: new Date("2024-02-01T00:00:00.000Z"),
+      resume: true,
+      dir,
+    });
+
+    expect(resumed.resumed).to.equal(true);
+    expect(resumed.seed).to.equal(7);
+    expect(resumed.totalLogs).to.equal(100);
+    expect(resumed.startIndex).to.equal(25);
+    expect(resumed.idempotent).to.equal(true);
+    expect(resumed.baseDate.toISOString()).to.equal("2024-01-01T00:00:00.000Z");
+  });
+
+  it("refuses to resume a run that was not idempotent", () => {
+    const first = setupCheckpoint({
+      indexName: "logs-test",
+      totalLogs: 100,
+      baseDate: new Date("2024-01-01T00:00:00.000Z"),
+      seed: 7,
+      dir,
+    });
+    const doc = createLogEntry({ id: "log-0" });
+    first.tracker.register(doc, 0);
+    first.tracker.acknowledge(0, doc);
+
+    expect(() =>
+      setupCheckpoint({
+        indexName: "logs-test",
+        totalLogs: 100,
+        baseDate: new Date("2024-01-01T00:00:00.000Z"),
+        idempotent: true,
+        resume: true,
+        dir,
+      })
+    ).to.throw("without --idempotent");
+  });
+
+  it("fails to resume when there is no checkpoint", () => {
+    expect(() =>
+      setupCheckpoint({
+        indexName: "logs-stream-2024-01-02",
+        totalLogs: 100,
+        baseDate: new Date("2024-01-02T00:00:00.000Z"),
+        resume: true,
+        dir,
+      })
+    ).to.throw("No checkpoint found");
+  });
+
+  it("finds the latest unfinished checkpoint of a dated index", () => {
+    const write = (indexName: string, updatedAt: string, completed = false) =>
+      fs.writeFileSync(
+        checkpointPath(indexName, dir),
+        JSON.stringify({ indexName, updatedAt, completed })
+      );
+    write("logs-stream-2024-01-01", "2024-01-01T23:59:00.000Z");
+    write("logs-stream-2024-01-02", "2024-01-02T08:00:00.000Z", true);
+    write("logs-other-2024-01-03", "2024-01-03T08:00:00.000Z");
+
+    expect(findLatestCheckpoint("logs-stream-", dir)?.indexName).to.equal(
+      "logs-stream-2024-01-01"
+    );
+    expect(findLatestCheckpoint("logs-missing-", dir)).to.equal(null);
+    expect(
+      findLatestCheckpoint("logs-stream-", path.join(dir, "none"))
+    ).to.equal(null);
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { opensearchClient } from "../config/opensearch.config";
+import {
+  filterOldBackingIndices,
+  listDataStreams,
+} from "../opensearch/data-streams";
+import { LOG_DATA_STREAM_TEMPLATE } from "../opensearch/index-template";
+import { createDataStream } from "../opensearch/setup";
+
+describe("log data streams", () => {
+  const originalIndices = { ...opensearchClient.indices };
+  const originalCat = { ...opensearchClient.cat };
+
+  afterEach(() => {
+    Object.assign(opensearchClient.indices, originalIndices);
+    Object.assign(opensearchClient.cat, originalCat);
+  });
+
+  it("templates logs-ds-* as a data stream with an @timestamp date", () => {
+    const { properties } = LOG_DATA_STREAM_TEMPLATE.template.mappings;
+
+    expect(LOG_DATA_STREAM_TEMPLATE.index_patterns).to.deep.equal([
+      "logs-ds-*",
+    ]);
+    expect(LOG_DATA_STREAM_TEMPLATE.data_stream).to.deep.equal({});
+    expect(properties["@timestamp"]).to.deep.equal(properties.timestamp);
+    expect(properties.message).to.not.equal(undefined);
+  });
+
+  it("lists streams with their backing indices, write index last", async () => {
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getDataStream = async () => ({
+      body: {
+        data_streams: [
+          {
+            name: "logs-ds-stream",
+            status: "GREEN",
+            generation: 2,
+            template: "logs-ds-template",
+            timestamp_field: { name: "@timestamp" },
+            indices: [
+              { index_name: ".ds-logs-ds-stream-000001" },
+              { index_name: ".ds-logs-ds-stream-000002" },
+            ],
+          },
+        ],
+      },
+    });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.dataStreamsStats = async () => ({
+      body: {
+        data_streams: [
+          {
+            data_stream: "logs-ds-stream",
+            backing_indices: 2,
+            maximum_timestamp: Date.UTC(2024, 2, 2),
+            store_size_bytes: 3072,
+          },
+        ],
+      },
+    });
+    // @ts-expect-error mocking cat for tests
+    opensearchClient.cat.indices = async () => ({
+      body: [
+        {
+          index: ".ds-logs-ds-stream-000001",
+          "docs.count": "10",
+          "store.size": "1024",
+          "creation.date": String(Date.UTC(2024, 2, 1)),
+        },
+        {
+          index: ".ds-logs-ds-stream-000002",
+          "docs.count": "5",
+          "store.size": "2048",
+          "creation.date": String(Date.UTC(2024, 2, 2)),
+        },
+      ],
+    });
+
+    const [stream] = await listDataStreams();
+
+    expect(stream).to.deep.include({
+      name: "logs-ds-stream",
+      status: "green",
+      generation: 2,
+      timestampField: "@timestamp",
+      documents: 15,
+      sizeBytes: 3072,
+    });
+    expect(stream.maxTimestamp?.toISOString()).to.equal(
+      "2024-03-02T00:00:00.000Z"
+    );
+    expect(
+      stream.backingIndices.map(({ index, write }) => ({ index, write }))
+    ).to.deep.equal([
+      { index: ".ds-logs-ds-stream-000001", write: false },
+      { index: ".ds-logs-ds-stream-000002", write: true },
+    ]);
+
+    const old = filterOldBackingIndices(
+      stream,
+      1,
+      new Date("2024-03-10T00:00:00.000Z")
+    );
+    expect(old.map(({ index }) => index)).to.deep.equal([
+      ".ds-logs-ds-stream-000001",
+    ]);
+  });
+
+  it("returns no streams when the name does not exist", async () => {
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getDataStream = async () => {
+      throw Object.assign(new Error("index_not_found_exception"), {
+        meta: { statusCode: 404 },
+      });
+    };
+
+    expect(await listDataStreams("logs-ds-missing")).to.deep.equal([]);
+  });
+
+  it("creates a data stream only once and only for logs-ds-* names", async () => {
+    const created: string[] = [];
+    let existing: string[] = [];
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getDataStream = async () => ({
+      body: { data_streams: existing.map((name) => ({ name })) },
+    });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.createDataStream = async ({ name }: any) => {
+      created.push(name);
+      existing = [name];
+      return { body: { acknowledged: true } };
+    };
+    const originalLog = console.log;
+    console.log = () => undefined;
+
+    try {
+      await createDataStream("logs-ds-stream");
+      await createDataStream("logs-ds-stream");
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(created).to.deep.equal(["logs-ds-stream"]);
+    try {
+      await createDataStream("metrics-stream");
+      expect.fail("expected an error");
+    } catch (error) {
+      expect((error as Error).message).to.contain("must start with logs-ds-");
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { once } from "events";
+import { GeoIpEnrichmentTransform } from "../scripts/transforms/geoip-enrichment";
+import { LogMetricsCollector } from "../scripts/transforms/log-metrics-collector";
+import {
+  CsvRangeDatabase,
+  GeoIpDatabase,
+  ipToBigInt,
+  isPrivateIp,
+  parseGeoInfo,
+} from "../scripts/utils/geoip-database";
+import { LruCache } from "../scripts/utils/lru-cache";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+const CIDR_CSV = [
+  "network,country_iso_code,city_name,latitude,longitude",
+  "203.0.113.0/24,BR,São Paulo,-23.55,-46.63",
+  '198.51.100.0/25,US,"Portland, OR",45.52,-122.68',
+  "2001:db8::/32,DE,Berlin,52.52,13.40",
+].join("\n");
+
+const RANGE_CSV = [
+  "start_ip,end_ip,country,city,lat,lon",
+  "192.0.2.10,192.0.2.20,JP,Tokyo,35.68,139.69",
+].join("\r\n");
+
+function logWithIp(ip: string) {
+  return createLogEntry({
+    request: {
+      id: "req-1",
+      method: "GET",
+      path: "/",
+      user_id: "user-1",
+      ip,
+      user_agent: "curl/8",
+      duration_ms: 10,
+    },
+  });
+}
+
+describe("CsvRangeDatabase", () => {
+  it("resolves addresses from CIDR networks and start/end ranges", () => {
+    const cidr = new CsvRangeDatabase(CIDR_CSV);
+    const ranges = new CsvRangeDatabase(RANGE_CSV);
+
+    expect(cidr.lookup("203.0.113.77")).to.deep.equal({
+      country: "BR",
+      city: "São Paulo",
+      location: { lat: -23.55, lon: -46.63 },
+    });
+    expect(cidr.lookup("198.51.100.5")?.city).to.equal("Portland, OR");
+    // Outside the /25
+    expect(cidr.lookup("198.51.100.200")).to.equal(null);
+    expect(cidr.lookup("2001:db8:1::42")?.country).to.equal("DE");
+    expect(cidr.lookup("::ffff:203.0.113.1")?.country).to.equal("BR");
+    expect(cidr.lookup("not-an-ip")).to.equal(null);
+
+    expect(ranges.lookup("192.0.2.15")?.city).to.equal("Tokyo");
+    expect(ranges.lookup("192.0.2.21")).to.equal(null);
+  });
+
+  it("reports the line of an invalid row", () => {
+    expect(
+      () =>
+        new CsvRangeDatabase(
+          "network,country\n10.0.0.0/8,US\n10.0.0.0/40,US",
+          "geo.csv"
+        )
+    ).to.throw('geo.csv line 3: invalid prefix in "10.0.0.0/40"');
+    expect(() => new CsvRangeDatabase("ip,country\n1.2.3.4,US")).to.throw(
+      'header needs a "network" column'
+    );
+  });
+});
+
+describe("GeoIpEnrichmentTransform", () => {
+  it("replaces geo from request.ip and caches lookups", () => {
+    const csv = new CsvRangeDatabase(CIDR_CSV);
+    let databaseLookups = 0;
+    const database: GeoIpDatabase = {
+      lookup: (ip) => {
+        databaseLookups++;
+        return csv.lookup(ip);
+      },
+    };
+    const geoip = new GeoIpEnrichmentTransform({ database });
+
+    const first = geoip.enrich(logWithIp("203.0.113.10"));
+    const second = geoip.enrich(logWithIp("203.0.113.10"));
+    const missing = geoip.enrich(logWithIp("8.8.8.8"));
+
+    expect(first.geo.country).to.equal("BR");
+    expect(second.geo).to.deep.equal(first.geo);
+    expect(second.geo).to.not.equal(first.geo);
+    expect(missing.geo).to.deep.equal({
+      country: "unknown",
+      city: "unknown",
+      location: { lat: 0, lon: 0 },
+    });
+    expect(databaseLookups).to.equal(2);
+
+    const stats = geoip.getStats();
+    expect(stats).to.include({
+      lookups: 3,
+      hits: 2,
+      misses: 1,
+      private: 0,
+      cacheHits: 1,
+    });
+    expect(stats.hitRate).to.be.closeTo(2 / 3, 0.001);
+  });
+
+  it("uses the fallback for private addresses and skips logs without an IP", () => {
+    const fallback = parseGeoInfo("US,Ashburn,39.04,-77.49")!;
+    const geoip = new GeoIpEnrichmentTransform({
+      database: new CsvRangeDatabase(CIDR_CSV),
+      privateFallback: fallback,
+    });
+
+    const internal = geoip.enrich(logWithIp("10.1.2.3"));
+    const withoutRequest = createLogEntry();
+    const originalGeo = structuredClone(withoutRequest.geo);
+    geoip.enrich(withoutRequest);
+
+    expect(internal.geo).to.deep.equal(fallback);
+    expect(withoutRequest.geo).to.deep.equal(originalGeo);
+    expect(geoip.getStats()).to.include({ lookups: 0, private: 1 });
+  });
+
+  it("reports the hit rate in the metrics snapshot", async () => {
+    const geoip = new GeoIpEnrichmentTransform({
+      database: new CsvRangeDatabase(CIDR_CSV),
+    });
+    const collector = new LogMetricsCollector({ geoip });
+
+    ["203.0.113.1", "1.1.1.1"].forEach((ip) =>
+      collector.write(geoip.enrich(logWithIp(ip)))
+    );
+    collector.end();
+    await once(collector, "finish");
+
+    const snapshot = collector.getSnapshot();
+    expect(snapshot.geoip.hitRate).to.equal(0.5);
+    expect(snapshot.geoCounts).to.include({
+      "BR|São Paulo": 1,
+      "unknown|unknown": 1,
+    });
+    expect(new LogMetricsCollector().getSnapshot().geoip.lookups).to.equal(0);
+  });
+});
+
+describe("GeoIP helpers", () => {
+  it("detects private and loopback addresses", () => {
+    expect(isPrivateIp("192.168.1.1")).to.equal(true);
+    expect(isPrivateIp("172.31.255.1")).to.equal(true);
+    expect(isPrivateIp("172.32.0.1")).to.equal(false);
+    expect(isPrivateIp("::1")).to.equal(true);
+    expect(isPrivateIp("fd12::1")).to.equal(true);
+    expect(isPrivateIp("::ffff:10.0.0.1")).to.equal(true);
+    expect(isPrivateIp("2001:db8::1")).to.equal(false);
+  });
+
+  it("converts addresses to numbers", () => {
+    expect(ipToBigInt("0.0.1.2")).to.deep.equal({ version: 4, value: 258n });
+    expect(ipToBigInt("::1.2.3.4")?.value).to.equal(0x01020304n);
+    expect(ipToBigInt("2001:db8::")?.value).to.equal(0x20010db8n << 96n);
+    expect(ipToBigInt("1.2.3")).to.equal(null);
+  });
+
+  it("evicts the least recently used cache entry", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.has("a")).to.equal(true);
+    expect(cache.has("b")).to.equal(false);
+    expect(cache.size).to.equal(2);
+  });
+});
@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import {
+  dailyIndexName,
+  getIndexLayout,
+  isLogWriteTarget,
+  isRolloverBackingIndex,
+  LOG_DATA_STREAM_PATTERN,
+  LOG_INDEX_PATTERN,
+  LOGS_READ_ALIAS,
+  LOGS_WRITE_ALIAS,
+  logSearchTarget,
+  resolveLogIndices,
+  resolveWriteIndex,
+} from "../opensearch/index-resolver";
+
+describe("resolveLogIndices", () => {
+  const now = new Date("2024-03-10T12:00:00.000Z");
+
+  it("falls back to the logs pattern without a start date", () => {
+    expect(resolveLogIndices(undefined, now)).to.deep.equal([
+      LOG_INDEX_PATTERN,
+    ]);
+    expect(
+      resolveLogIndices({ endDate: "2024-03-01T00:00:00.000Z" }, now)
+    ).to.deep.equal([LOG_INDEX_PATTERN]);
+  });
+
+  it("expands a date range into one wildcard per day plus the data streams", () => {
+    const indices = resolveLogIndices(
+      {
+        startDate: "2024-03-01T22:00:00.000Z",
+        endDate: "2024-03-03T01:00:00.000Z",
+      },
+      now
+    );
+
+    expect(indices).to.deep.equal([
+      "logs-*2024-03-01",
+      "logs-*2024-03-02",
+      "logs-*2024-03-03",
+      LOG_DATA_STREAM_PATTERN,
+    ]);
+  });
+
+  it("uses the current date when only the start date is set", () => {
+    const indices = resolveLogIndices(
+      { startDate: "2024-03-09T00:00:00.000Z" },
+      now
+    );
+
+    expect(indices).to.deep.equal([
+      "logs-*2024-03-09",
+      "logs-*2024-03-10",
+      LOG_DATA_STREAM_PATTERN,
+    ]);
+  });
+
+  it("falls back to the logs pattern for invalid or very wide ranges", () => {
+    expect(resolveLogIndices({ startDate: "not-a-date" }, now)).to.deep.equal([
+      LOG_INDEX_PATTERN,
+    ]);
+    expect(
+      resolveLogIndices(
+        {
+          startDate: "2023-01-01T00:00:00.000Z",
+          endDate: "2024-01-01T00:00:00.000Z",
+        },
+        now
+      )
+    ).to.deep.equal([LOG_INDEX_PATTERN]);
+  });
+});
+
+describe("dailyIndexName", () => {
+  it("routes timestamps to their UTC day", () => {
+    expect(dailyIndexName("2024-03-01T23:59:59.999Z")).to.equal(
+      "logs-2024-03-01"
+    );
+    expect(dailyIndexName("2024-03-01T10:00:00.000Z", "logs-stream")).to.equal(
+      "logs-stream-2024-03-01"
+    );
+  });
+});
+
+describe("rollover layout", () => {
+  it("is only enabled by LOG_INDEX_LAYOUT=rollover", () => {
+    expect(getIndexLayout({})).to.equal("daily");
+    expect(getIndexLayout({ LOG_INDEX_LAYOUT: "daily" })).to.equal("daily");
+    expect(getIndexLayout({ LOG_INDEX_LAYOUT: " Rollover " })).to.equal(
+      "rollover"
+    );
+  });
+
+  it("writes through the write alias and reads through the read alias", () => {
+    expect(resolveWriteIndex("2024-03-01T10:00:00.000Z", "rollover")).to.equal(
+      LOGS_WRITE_ALIAS
+    );
+    expect(resolveWriteIndex("2024-03-01T10:00:00.000Z", "daily")).to.equal(
+      "logs-2024-03-01"
+    );
+    expect(
+      resolveLogIndices(
+        { startDate: "2024-03-01T00:00:00.000Z" },
+        new Date("2024-03-02T00:00:00.000Z"),
+        "rollover"
+      )
+    ).to.deep.equal([LOGS_READ_ALIAS]);
+    expect(logSearchTarget("rollover")).to.equal(LOGS_READ_ALIAS);
+    expect(logSearchTarget("daily")).to.equal(LOG_INDEX_PATTERN);
+  });
+
+  it("only accepts the write alias and concrete logs-* indices as write targets", () => {
+    expect(isLogWriteTarget(LOGS_WRITE_ALIAS)).to.equal(true);
+    expect(isLogWriteTarget("logs-2024-03-01")).to.equal(true);
+    expect(isLogWriteTarget("logs-imported")).to.equal(true);
+
+    expect(isLogWriteTarget(LOGS_READ_ALIAS)).to.equal(false);
+    expect(isLogWriteTarget("logs-ds-stream")).to.equal(false);
+    expect(isLogWriteTarget("logs-*")).to.equal(false);
+    expect(isLogWriteTarget("logs-a,.kibana")).to.equal(false);
+    expect(isLogWriteTarget(".opendistro-security")).to.equal(false);
+    expect(isLogWriteTarget("metrics-2024-03-01")).to.equal(false);
+  });
+
+  it("recognizes rollover backing indices by the template pattern", () => {
+    expect(isRolloverBackingIndex("logs-000001")).to.equal(true);
+    expect(isRolloverBackingIndex("logs-000001-v2")).to.equal(true);
+    expect(isRolloverBackingIndex("logs-2024-03-01")).to.equal(false);
+    expect(isRolloverBackingIndex("logs-stream-2024-03-01")).to.equal(false);
+  });
+});
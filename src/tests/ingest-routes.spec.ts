@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { gzipSync } from "zlib";
+import { createIngestRouter } from "../http/ingest.routes";
+import { opensearchClient } from "../config/opensearch.config";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("POST /ingest", () => {
+  const originalBulk = opensearchClient.bulk.bind(opensearchClient);
+  let server: Server;
+  let baseUrl: string;
+  let bulkBodies: string[];
+
+  beforeEach(async () => {
+    bulkBodies = [];
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: any }) => {
+      bulkBodies.push(body);
+      const docCount = body.trimEnd().split("\n").length / 2;
+      return {
+        body: {
+          errors: false,
+          items: Array(docCount)
+            .fill(null)
+            .map(() => ({ index: { status: 201 } })),
+        },
+      };
+    };
+
+    const app = express();
+    app.use(createIngestRouter({ batchSize: 2 }));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    opensearchClient.bulk = originalBulk;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("ingests gzip NDJSON bodies routed by timestamp", async () => {
+    const body = [
+      JSON.stringify(
+        createLogEntry({ id: "a", timestamp: "2024-03-01T10:00:00.000Z" })
+      ),
+      JSON.stringify(
+        createLogEntry({ id: "b", timestamp: "2024-03-02T10:00:00.000Z" })
+      ),
+      "{broken",
+      JSON.stringify(
+        createLogEntry({ id: "c", timestamp: "2024-03-02T11:00:00.000Z" })
+      ),
+    ].join("\n");
+
+    const response = await fetch(`${baseUrl}/ingest`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/x-ndjson",
+        "content-encoding": "gzip",
+      },
+      body: gzipSync(body),
+    });
+    const result = await response.json();
+
+    expect(response.status).to.equal(200);
+    expect(result).to.include({
+      accepted: 3,
+      rejected: 1,
+      failed: 0,
+      inserted: 3,
+    });
+    expect(bulkBodies).to.have.lengthOf(2);
+    expect(JSON.parse(bulkBodies[0].split("\n")[0])).to.deep.equal({
+      index: { _index: "logs-2024-03-01" },
+    });
+    expect(JSON.parse(bulkBodies[0].split("\n")[2])).to.deep.equal({
+      index: { _index: "logs-2024-03-02" },
+    });
+  });
+
+  it("rejects bodies that are not valid gzip", async () => {
+    const response = await fetch(`${baseUrl}/ingest`, {
+      method: "POST",
+      headers: { "content-encoding": "gzip" },
+      body: "definitely not gzip",
+    });
+
+    expect(response.status).to.equal(400);
+  });
+
+  it("refuses index targets outside logs-*", async () => {
+    const body = JSON.stringify(createLogEntry({ id: "a" }));
+
+    for (const index of [".kibana", "tenant-b-logs", "logs-*", "logs-read"]) {
+      const response = await fetch(
+        `${baseUrl}/ingest?index=${encodeURIComponent(index)}`,
+        { method: "POST", body }
+      );
+      expect(response.status, index).to.equal(400);
+    }
+    expect(bulkBodies).to.have.lengthOf(0);
+
+    const accepted = await fetch(`${baseUrl}/ingest?index=logs-imported`, {
+      method: "POST",
+      body,
+    });
+    expect(accepted.status).to.equal(200);
+    expect(bulkBodies[0]).to.contain('"_index":"logs-imported"');
+  });
+});
@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import { opensearchClient } from "../config/opensearch.config";
+import { ROLLOVER_ALIAS_SETTING } from "../opensearch/index-resolver";
+import {
+  attachPolicy,
+  buildRetentionPolicy,
+  buildRolloverPolicy,
+  explainLifecycle,
+  installIsmPolicies,
+  LOGS_RETENTION_POLICY_ID,
+  LOGS_ROLLOVER_POLICY_ID,
+} from "../opensearch/ism-policies";
+
+describe("ISM policies", () => {
+  const originalIsm = { ...opensearchClient.ism };
+  const originalPutSettings = opensearchClient.indices.putSettings.bind(
+    opensearchClient.indices
+  );
+
+  afterEach(() => {
+    Object.assign(opensearchClient.ism, originalIsm);
+    opensearchClient.indices.putSettings = originalPutSettings;
+  });
+
+  it("builds a hot/warm/delete rollover policy timed from rollover", () => {
+    const policy = buildRolloverPolicy({
+      rolloverMinSize: "10gb",
+      rolloverMinDocs: 1_000_000,
+      rolloverMinAge: "12h",
+      warmAfter: "3d",
+      deleteAfter: "14d",
+    });
+
+    expect(policy.default_state).to.equal("hot");
+    expect(policy.states.map((state) => state.name)).to.deep.equal([
+      "hot",
+      "warm",
+      "delete",
+    ]);
+    expect(policy.states[0].actions).to.deep.equal([
+      {
+        rollover: {
+          min_size: "10gb",
+          min_doc_count: 1_000_000,
+          min_index_age: "12h",
+        },
+      },
+    ]);
+    expect(policy.states[0].transitions).to.deep.equal([
+      { state_name: "warm", conditions: { min_rollover_age: "3d" } },
+    ]);
+    expect(policy.states[1].actions).to.deep.equal([
+      { replica_count: { number_of_replicas: 0 } },
+      { force_merge: { max_num_segments: 1 } },
+    ]);
+    expect(policy.states[1].transitions).to.deep.equal([
+      { state_name: "delete", conditions: { min_rollover_age: "14d" } },
+    ]);
+    expect(policy.states[2].actions).to.deep.equal([{ delete: {} }]);
+  });
+
+  it("gives rollover indices priority over the date-named retention policy", () => {
+    const rollover = buildRolloverPolicy();
+    const retention = buildRetentionPolicy({ deleteAfter: "7d" });
+
+    expect(retention.states[0].actions).to.deep.equal([]);
+    expect(retention.states[1].actions).to.deep.equal([
+      { replica_count: { number_of_replicas: 0 } },
+      { force_merge: { max_num_segments: 1 } },
+    ]);
+    expect(retention.states[1].transitions[0].conditions).to.deep.equal({
+      min_index_age: "7d",
+    });
+    expect(rollover.ism_template[0].priority).to.be.greaterThan(
+      retention.ism_template[0].priority
+    );
+  });
+
+  it("rejects invalid thresholds", () => {
+    expect(() => buildRolloverPolicy({ deleteAfter: "30" })).to.throw(
+      "deleteAfter must be a time value"
+    );
+    expect(() => buildRolloverPolicy({ rolloverMinSize: "big" })).to.throw(
+      "rolloverMinSize must be a byte value"
+    );
+    expect(() => buildRetentionPolicy({ forceMergeSegments: 0 })).to.throw(
+      "forceMergeSegments must be an integer >= 1"
+    );
+  });
+
+  it("updates existing policies with their sequence number", async () => {
+    const puts: any[] = [];
+    // @ts-expect-error mocking ISM for tests
+    opensearchClient.ism.existsPolicy = async ({ policy_id }: any) => ({
+      body: policy_id === LOGS_RETENTION_POLICY_ID,
+    });
+    // @ts-expect-error mocking ISM for tests
+    opensearchClient.ism.getPolicy = async () => ({
+      body: { _seq_no: 7, _primary_term: 2 },
+    });
+    // @ts-expect-error mocking ISM for tests
+    opensearchClient.ism.putPolicy = async (params: any) => {
+      puts.push(params);
+      return { body: {} };
+    };
+
+    const results = await installIsmPolicies();
+
+    expect(results).to.deep.equal([
+      { policyId: LOGS_ROLLOVER_POLICY_ID, created: true },
+      { policyId: LOGS_RETENTION_POLICY_ID, created: false },
+    ]);
+    expect(puts[0].if_seq_no).to.equal(undefined);
+    expect(puts[1]).to.include({ if_seq_no: 7, if_primary_term: 2 });
+    expect(puts[1].body.policy.states).to.have.length(3);
+  });
+
+  it("sets the rollover alias before attaching a policy", async () => {
+    const calls: string[] = [];
+    // @ts-expect-error mocking settings for tests
+    opensearchClient.indices.putSettings = async ({ index, body }: any) => {
+      calls.push(`settings ${index} ${body[ROLLOVER_ALIAS_SETTING]}`);
+      return { body: {} };
+    };
+    // @ts-expect-error mocking ISM for tests
+    opensearchClient.ism.addPolicy = async ({ index, body }: any) => {
+      calls.push(`add ${index} ${body.policy_id}`);
+      return {
+        body: {
+          updated_indices: 1,
+          failures: true,
+          failed_indices: [
+            { index_name: "logs-000002", reason: "already managed" },
+          ],
+        },
+      };
+    };
+
+    const result = await attachPolicy(
+      "logs-00000*",
+      LOGS_ROLLOVER_POLICY_ID,
+      "logs-write"
+    );
+
+    expect(calls).to.deep.equal([
+      "settings logs-00000* logs-write",
+      `add logs-00000* ${LOGS_ROLLOVER_POLICY_ID}`,
+    ]);
+    expect(result).to.deep.equal({
+      updated: 1,
+      failures: [{ index: "logs-000002", reason: "already managed" }],
+    });
+  });
+
+  it("summarises the explain API per index", async () => {
+    // @ts-expect-error mocking ISM for tests
+    opensearchClient.ism.explainPolicy = async () => ({
+      body: {
+        "logs-2025-01-02": {
+          "index.plugins.index_state_management.policy_id": null,
+        },
+        "logs-000001": {
+          "index.plugins.index_state_management.policy_id":
+            LOGS_ROLLOVER_POLICY_ID,
+          policy_id: LOGS_ROLLOVER_POLICY_ID,
+          state: { name: "hot" },
+          action: { name: "rollover", failed: true },
+          step: { name: "attempt_rollover", step_status: "failed" },
+          info: { message: "Missing rollover_alias" },
+          enabled: true,
+        },
+        total_managed_indices: 1,
+      },
+    });
+
+    const states = await explainLifecycle("logs-*");
+
+    expect(states).to.deep.equal([
+      {
+        index: "logs-000001",
+        policyId: LOGS_ROLLOVER_POLICY_ID,
+        state: "hot",
+        action: "rollover",
+        step: "attempt_rollover",
+        stepStatus: "failed",
+        failed: true,
+        info: "Missing rollover_alias",
+        enabled: true,
+      },
+      {
+        index: "logs-2025-01-02",
+        policyId: null,
+        state: null,
+        action: null,
+        step: null,
+        stepStatus: null,
+        failed: false,
+        info: null,
+        enabled: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import { once } from "events";
+import { JsonArrayParseTransform } from "../scripts/transforms/json-array-parser";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("JsonArrayParseTransform", () => {
+  it("streams array elements split across chunks", async () => {
+    const parser = new JsonArrayParseTransform();
+    const parsed: any[] = [];
+    parser.on("data", (log) => parsed.push(log));
+
+    const tricky = createLogEntry({
+      id: "log-2",
+      message: 'brackets ] and } with, commas and "quotes" \\',
+    });
+    const payload = `[\n  ${JSON.stringify(
+      createLogEntry({ id: "log-1" })
+    )},\n  ${JSON.stringify(tricky)}\n]\n`;
+
+    for (let i = 0; i < payload.length; i += 17) {
+      parser.write(Buffer.from(payload.slice(i, i + 17)));
+    }
+    parser.end();
+    await once(parser, "end");
+
+    expect(parsed.map((log) => log.id)).to.deep.equal(["log-1", "log-2"]);
+    expect(parsed[1].message).to.equal(tricky.message);
+    expect(parser.getRejectedCount()).to.equal(0);
+  });
+
+  it("rejects invalid elements by position and a truncated array", async () => {
+    const parser = new JsonArrayParseTransform();
+    parser.resume();
+
+    const invalid: any = createLogEntry({ id: "log-2" });
+    delete invalid.timestamp;
+
+    parser.end(
+      `[${JSON.stringify(createLogEntry({ id: "log-1" }))},${JSON.stringify(
+        invalid
+      )},{"id": "log-3"`
+    );
+    await once(parser, "end");
+
+    expect(parser.getAcceptedCount()).to.equal(1);
+    const [validationError, truncated] = parser.getRejectedSamples();
+    expect(validationError.line).to.equal(2);
+    expect(validationError.reason).to.include("timestamp");
+    expect(truncated.line).to.equal(3);
+    expect(truncated.reason).to.equal("Unexpected end of JSON array");
+  });
+
+  it("fails the stream when the top level is not an array", async () => {
+    const parser = new JsonArrayParseTransform();
+    parser.resume();
+
+    const failed = once(parser, "error");
+    parser.end(JSON.stringify(createLogEntry()));
+    const [error] = await failed;
+
+    expect(error.message).to.equal("Expected a JSON array at the top level");
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  LogEnrichmentTransform,
+  loadEnrichmentConfig,
+} from "../scripts/transforms/log-enrichment";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("LogEnrichmentTransform", () => {
+  it("renames, defaults, derives level, tags, masks and drops in order", () => {
+    const enrichment = new LogEnrichmentTransform({
+      rename: { svc: "service.name", "meta.took": "metrics.response_time_ms" },
+      defaults: { "service.environment": "staging", tags: [] },
+      deriveLevel: {
+        rules: [
+          {
+            when: { field: "metrics.response_time_ms", gte: 2000 },
+            level: "warn",
+          },
+          { when: { field: "message", matches: "timeout" }, level: "error" },
+        ],
+      },
+      tags: [
+        {
+          when: {
+            all: [
+              { field: "service.name", in: ["checkout"] },
+              { field: "metrics.response_time_ms", gt: 1000 },
+            ],
+          },
+          add: ["slow", "checkout"],
+        },
+      ],
+      mask: [
+        { field: "request.user_id", keepLast: 2 },
+        { field: "message", pattern: "\\d{16}", replacement: "[card]" },
+      ],
+      drop: ["request.user_agent", "missing.field"],
+    });
+
+    const document: any = {
+      svc: "checkout",
+      meta: { took: 2500 },
+      service: {},
+      message: "Upstream timeout charging 4111111111111111",
+      request: { user_id: "user-1234", user_agent: "curl/8" },
+    };
+    const result = enrichment.enrich(document);
+
+    expect(result).to.equal(document);
+    expect(result.service).to.deep.equal({
+      name: "checkout",
+      environment: "staging",
+    });
+    expect(result.metrics.response_time_ms).to.equal(2500);
+    expect(result.meta).to.deep.equal({});
+    // First matching rule wins
+    expect(result.level).to.equal("warn");
+    expect(result.tags).to.deep.equal(["slow", "checkout"]);
+    expect(result.request).to.deep.equal({ user_id: "*******34" });
+    expect(result.message).to.equal("Upstream timeout charging [card]");
+
+    expect(enrichment.getStats()).to.deep.equal({
+      processed: 1,
+      renamed: 2,
+      defaulted: 2,
+      levelsDerived: 1,
+      tagged: 1,
+      masked: 2,
+      dropped: 1,
+    });
+  });
+
+  it("keeps an existing level unless overwrite is set", () => {
+    const rules = [
+      { when: { field: "error", exists: true }, level: "error" as const },
+    ];
+    const log = createLogEntry({
+      level: "info",
+      error: { type: "E", message: "m", stack_trace: "", code: "1" },
+    });
+
+    expect(
+      new LogEnrichmentTransform({ deriveLevel: { rules } }).enrich({ ...log })
+        .level
+    ).to.equal("info");
+    expect(
+      new LogEnrichmentTransform({
+        deriveLevel: { overwrite: true, rules },
+      }).enrich({ ...log }).level
+    ).to.equal("error");
+  });
+
+  it("loads YAML configs and rejects invalid rules up front", () => {
+    const config = loadEnrichmentConfig(
+      path.join(__dirname, "..", "..", "docs", "enrichment.example.yaml")
+    );
+    expect(config.rename).to.deep.equal({
+      svc: "service.name",
+      msg: "message",
+    });
+    expect(() => new LogEnrichmentTransform(config)).to.not.throw();
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "enrichment-"));
+    try {
+      const file = path.join(dir, "bad.json");
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ tags: [{ when: { gt: 5 }, add: ["x"] }] })
+      );
+      expect(
+        () => new LogEnrichmentTransform(loadEnrichmentConfig(file))
+      ).to.throw('tags[0]: "field" is required');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  exportLogs,
+  flattenLogEntry,
+  getExportJob,
+  startExportJob,
+  toCsvRow,
+} from "../graphql/log-export";
+import { opensearchClient } from "../config/opensearch.config";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("log export", () => {
+  const originalSearch = opensearchClient.search.bind(opensearchClient);
+  const originalCreatePit = opensearchClient.createPit.bind(opensearchClient);
+  const originalDeletePit = opensearchClient.deletePit.bind(opensearchClient);
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "log-export-"));
+  });
+
+  afterEach(() => {
+    opensearchClient.search = originalSearch;
+    opensearchClient.createPit = originalCreatePit;
+    opensearchClient.deletePit = originalDeletePit;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("flattens nested fields and escapes CSV values", () => {
+    const flat = flattenLogEntry(
+      createLogEntry({ tags: ["a", "b"], message: 'say "hi", twice' }) as any
+    );
+
+    expect(flat["service.name"]).to.equal("api-gateway");
+    expect(flat["geo.location.lat"]).to.equal(47.6062);
+    expect(flat.tags).to.equal("a;b");
+    expect(toCsvRow([flat.id, flat.message, undefined])).to.equal(
+      'log-1,"say ""hi"", twice",'
+    );
+  });
+
+  it("pages through a point-in-time and writes the chosen CSV columns", async () => {
+    const requests: any[] = [];
+    const deleted: string[] = [];
+    const pages = [
+      [createLogEntry({ id: "log-1" }), createLogEntry({ id: "log-2" })],
+      [createLogEntry({ id: "log-3", level: "error" })],
+    ];
+
+    // @ts-expect-error mocking createPit for tests
+    opensearchClient.createPit = async () => ({ body: { pit_id: "pit-1" } });
+    // @ts-expect-error mocking deletePit for tests
+    opensearchClient.deletePit = async ({ body }: { body: any }) => {
+      deleted.push(...body.pit_id);
+      return { body: {} };
+    };
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async ({ body }: { body: any }) => {
+      requests.push(body);
+      const page = pages.shift() ?? [];
+      return {
+        body: {
+          pit_id: "pit-1",
+          hits: {
+            total: { value: 3, relation: "eq" },
+            hits: page.map((log, i) => ({
+              _source: log,
+              sort: [requests.length, `${log.id}-${i}`],
+            })),
+          },
+        },
+      };
+    };
+
+    const outputPath = path.join(tmpDir, "export.csv");
+    const result = await exportLogs({
+      filters: { levels: ["info", "error"] },
+      format: "csv",
+      columns: ["id", "level", "service.name"],
+      outputPath,
+      batchSize: 2,
+    });
+
+    expect(result).to.include({ exported: 3, total: 3, filePath: outputPath });
+    expect(
+      fs.readFileSync(outputPath, "utf-8").trim().split("\n")
+    ).to.deep.equal([
+      "id,level,service.name",
+      "log-1,info,api-gateway",
+      "log-2,info,api-gateway",
+      "log-3,error,api-gateway",
+    ]);
+
+    expect(requests).to.have.length(2);
+    expect(requests[0]._source).to.deep.equal(["id", "level", "service.name"]);
+    expect(requests[0].search_after).to.equal(undefined);
+    expect(requests[1].search_after).to.deep.equal([1, "log-2-1"]);
+    expect(deleted).to.deep.equal(["pit-1"]);
+  });
+
+  it("fails the job and closes the point-in-time when the file cannot be written", async () => {
+    const deleted: string[] = [];
+    // @ts-expect-error mocking createPit for tests
+    opensearchClient.createPit = async () => ({ body: { pit_id: "pit-1" } });
+    // @ts-expect-error mocking deletePit for tests
+    opensearchClient.deletePit = async ({ body }: { body: any }) => {
+      deleted.push(...body.pit_id);
+      return { body: {} };
+    };
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async () => ({
+      body: {
+        pit_id: "pit-1",
+        hits: {
+          total: { value: 1, relation: "eq" },
+          hits: [{ _source: createLogEntry(), sort: [1, "log-1"] }],
+        },
+      },
+    });
+
+    // A directory cannot be opened as the output file
+    const job = startExportJob({ outputPath: tmpDir, batchSize: 2 });
+    while (getExportJob(job.id)!.status === "running") {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(job.status).to.equal("failed");
+    expect(job.error).to.contain("EISDIR");
+    expect(job.finishedAt).to.not.equal(null);
+    expect(deleted).to.deep.equal(["pit-1"]);
+  });
+});
@@ -1,4 +1,5 @@
 import { expect } from "chai";
+import { faker } from "@faker-js/faker";
 import { generateLog } from "../scripts/generators/log-generator";
 
 describe("generateLog", () => {
@@ -35,4 +36,28 @@ describe("generateLog", () => {
       baseDate.toISOString().split("T")[0]
     );
   });
+
+  it("generates the same log for the same seed", () => {
+    const baseDate = new Date("2024-01-01T00:00:00.000Z");
+
+    faker.seed(1234);
+    const first = generateLog(baseDate);
+    faker.seed(1234);
+    const second = generateLog(baseDate);
+
+    expect(second).to.deep.equal(first);
+  });
+
+  it("generates different ids for overlapping seed ranges", () => {
+    const baseDate = new Date("2024-01-01T00:00:00.000Z");
+
+    // Runs seeded 1 ms apart: document 1 of the first and document 0 of
+    // the second must not collide
+    faker.seed([1000, 1]);
+    const first = generateLog(baseDate);
+    faker.seed([1001, 0]);
+    const second = generateLog(baseDate);
+
+    expect(second.id).to.not.equal(first.id);
+  });
 });
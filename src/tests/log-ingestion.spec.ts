@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ingestLogEntries } from "../graphql/log-ingestion";
+import { opensearchClient } from "../config/opensearch.config";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("ingestLogEntries", () => {
+  const originalBulk = opensearchClient.bulk.bind(opensearchClient);
+
+  afterEach(() => {
+    opensearchClient.bulk = originalBulk;
+  });
+
+  it("routes logs to daily indices and keeps per-document results in order", async () => {
+    let capturedBody = "";
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: any }) => {
+      capturedBody = body;
+      return {
+        body: {
+          errors: true,
+          items: [
+            {
+              index: {
+                _index: "logs-2024-03-01",
+                status: 201,
+                result: "created",
+              },
+            },
+            {
+              index: {
+                _index: "logs-2024-03-02",
+                status: 400,
+                error: {
+                  type: "mapper_parsing_exception",
+                  reason: "failed to parse",
+                },
+              },
+            },
+          ],
+        },
+      };
+    };
+
+    const invalid: any = createLogEntry({ id: "bad" });
+    invalid.level = "verbose";
+
+    const result = await ingestLogEntries([
+      createLogEntry({ id: "a", timestamp: "2024-03-01T10:00:00.000Z" }),
+      invalid,
+      createLogEntry({ id: "b", timestamp: "2024-03-02T10:00:00.000Z" }),
+    ]);
+
+    const actions = capturedBody
+      .trimEnd()
+      .split("\n")
+      .filter((_, index) => index % 2 === 0)
+      .map((line) => JSON.parse(line));
+    expect(actions).to.deep.equal([
+      { index: { _index: "logs-2024-03-01" } },
+      { index: { _index: "logs-2024-03-02" } },
+    ]);
+
+    expect(result.total).to.equal(3);
+    expect(result.succeeded).to.equal(1);
+    expect(result.failed).to.equal(2);
+    expect(result.items.map((item) => item.id)).to.deep.equal([
+      "a",
+      "bad",
+      "b",
+    ]);
+    expect(result.items[1].status).to.equal(400);
+    expect(result.items[1].error?.type).to.equal("validation_exception");
+    expect(result.items[2].error?.type).to.equal("mapper_parsing_exception");
+  });
+
+  it("adds the parsed user agent to each request", async () => {
+    let capturedBody = "";
+    // @ts-expect-error mocking bulk for tests
+    opensearchClient.bulk = async ({ body }: { body: any }) => {
+      capturedBody = body;
+      return {
+        body: {
+          errors: false,
+          items: [{ index: { _index: "logs-2024-03-01", status: 201 } }],
+        },
+      };
+    };
+
+    await ingestLogEntries([
+      createLogEntry({
+        timestamp: "2024-03-01T10:00:00.000Z",
+        request: {
+          id: "req-1",
+          method: "GET",
+          path: "/",
+          user_id: "user-1",
+          ip: "203.0.113.1",
+          user_agent: "curl/8.4.0",
+          duration_ms: 10,
+        },
+      }),
+    ]);
+
+    const document = JSON.parse(capturedBody.trimEnd().split("\n")[1]);
+    expect(document.request.ua).to.include({ browser: "curl", is_bot: true });
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { once } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { LogEntry } from "../types/log.types";
+import { defaultParserContext } from "../scripts/parsers/log-parser";
+import { getLogParser } from "../scripts/parsers/registry";
+import { parseLogfmt } from "../scripts/parsers/logfmt";
+import { LogLineParseTransform } from "../scripts/transforms/log-line-parser";
+
+const FIXTURES = path.join(__dirname, "fixtures", "log-formats");
+
+async function parseFixture(format: string, file: string) {
+  const parser = new LogLineParseTransform({
+    parser: getLogParser(format)!,
+    context: defaultParserContext({ service: "fallback", year: 2025 }),
+  });
+  const logs: LogEntry[] = [];
+  parser.on("data", (log) => logs.push(log));
+
+  fs.createReadStream(path.join(FIXTURES, file)).pipe(parser);
+  await once(parser, "end");
+
+  return { logs, rejected: parser.getRejectedSamples() };
+}
+
+describe("log format parsers", () => {
+  it("maps combined access logs to requests, levels and UTC timestamps", async () => {
+    const { logs, rejected } = await parseFixture("nginx", "access.log");
+
+    expect(logs).to.have.length(3);
+    expect(logs[0]).to.deep.include({
+      timestamp: "2000-10-10T20:55:36.000Z",
+      level: "info",
+      message: "GET /apache_pb.gif 200",
+    });
+    expect(logs[0].request).to.include({
+      method: "GET",
+      path: "/apache_pb.gif",
+      user_id: "frank",
+      ip: "127.0.0.1",
+      user_agent: "Mozilla/4.08 [en] (Win98; I ;Nav)",
+    });
+
+    expect(logs[1].level).to.equal("error");
+    expect(logs[1].error?.code).to.equal("502");
+    expect(logs[1].metrics.response_time_ms).to.equal(1204);
+
+    expect(logs[2]).to.deep.include({ level: "warn", category: "security" });
+    expect(logs[2].request?.user_agent).to.include('"quoted"');
+
+    expect(rejected).to.deep.equal([
+      { line: 4, reason: "Not a nginx combined log line" },
+    ]);
+  });
+
+  it("parses RFC 5424 and RFC 3164 syslog with severity and facility", async () => {
+    const { logs, rejected } = await parseFixture("syslog", "syslog.log");
+
+    expect(logs).to.have.length(3);
+    expect(logs[0]).to.deep.include({
+      level: "info",
+      message: "An application event log entry...",
+    });
+    expect(logs[0].service.name).to.equal("evntslog");
+    expect(logs[0].tags).to.include("msgid:ID47");
+
+    expect(logs[1]).to.deep.include({ level: "fatal", category: "security" });
+    expect(logs[1].service.instance_id).to.equal("mymachine.example.com:4242");
+
+    expect(logs[2]).to.deep.include({
+      timestamp: "2025-02-05T17:32:18.000Z",
+      level: "info",
+      message: "(root) CMD (run-parts /etc/cron.hourly)",
+    });
+    expect(logs[2].service).to.include({ name: "cron", host: "web-01" });
+
+    expect(rejected).to.have.length(1);
+    expect(rejected[0].reason).to.equal("Invalid syslog priority 999");
+  });
+
+  it("parses logfmt pairs, quoting and durations", async () => {
+    expect(parseLogfmt('a=1 b="x \\"y\\"" flag c=')).to.deep.equal({
+      a: "1",
+      b: 'x "y"',
+      flag: true,
+      c: "",
+    });
+
+    const { logs, rejected } = await parseFixture("logfmt", "logfmt.log");
+
+    expect(logs).to.have.length(3);
+    expect(logs[0].service.name).to.equal("checkout");
+    expect(logs[0].request).to.include({ method: "GET", duration_ms: 13 });
+    expect(logs[1]).to.deep.include({
+      timestamp: "2025-03-12T08:15:02.000Z",
+      level: "warn",
+    });
+    expect(logs[1].service.name).to.equal("catalog");
+    expect(logs[2].error).to.include({
+      type: "CardError",
+      message: "card declined",
+    });
+    expect(rejected[0]).to.deep.equal({
+      line: 4,
+      reason: 'Unterminated quoted value for "msg"',
+    });
+  });
+
+  it("understands pino, winston and ECS JSON lines", async () => {
+    const { logs, rejected } = await parseFixture("jsonl", "frameworks.jsonl");
+
+    expect(logs).to.have.length(4);
+    const [pino, winston, ecs, pinoError] = logs;
+
+    expect(pino).to.deep.include({
+      timestamp: "2025-03-12T08:15:02.000Z",
+      level: "info",
+    });
+    expect(pino.service).to.include({
+      name: "orders",
+      instance_id: "api-1:4711",
+    });
+    expect(pino.request).to.include({
+      id: "req-1",
+      path: "/orders/42",
+      ip: "10.1.2.3",
+      user_agent: "okhttp/4.12",
+      duration_ms: 35,
+    });
+
+    expect(winston).to.deep.include({
+      level: "warn",
+      message: "Disk usage above 80%",
+    });
+    expect(winston.service.name).to.equal("storage");
+
+    expect(ecs.service.name).to.equal("gateway");
+    expect(ecs.request).to.include({ method: "POST", path: "/v1/quotes" });
+    expect(ecs.error).to.include({ type: "TimeoutError", code: "504" });
+
+    expect(pinoError.level).to.equal("error");
+    expect(pinoError.service.name).to.equal("fallback");
+    expect(pinoError.error?.stack_trace).to.include("at run()");
+
+    expect(rejected[0]).to.deep.equal({
+      line: 5,
+      reason: "Expected a JSON object",
+    });
+  });
+
+  it("derives the same id from the same line so re-imports are idempotent", async () => {
+    const line =
+      '10.0.0.12 - - [12/Mar/2025:08:15:02 +0000] "POST /api/payments HTTP/1.1" 502 157 "-" "curl/8.5.0" 1.204';
+    const context = defaultParserContext({ source: "access.log" });
+    const parser = getLogParser("nginx")!;
+
+    const first = parser.parse(line, { ...context, lineNumber: 2 })!;
+    const again = parser.parse(line, { ...context, lineNumber: 2 })!;
+    expect(first.id).to.equal(again.id);
+    expect(first.id).to.match(/^[0-9a-f]{32}$/);
+    expect(parser.parse(line, { ...context, lineNumber: 3 })!.id).to.not.equal(
+      first.id
+    );
+    expect(
+      parser.parse(line, { ...context, source: "other.log", lineNumber: 2 })!.id
+    ).to.not.equal(first.id);
+
+    // Identical lines in one file stay distinct; a second import matches
+    const importIds = async () => {
+      const transform = new LogLineParseTransform({ parser, context });
+      const ids: string[] = [];
+      transform.on("data", (log) => ids.push(log.id));
+      transform.end(`${line}\n${line}\n`);
+      await once(transform, "end");
+      return ids;
+    };
+    const ids = await importIds();
+    expect(new Set(ids).size).to.equal(2);
+    expect(await importIds()).to.deep.equal(ids);
+  });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { LogTailPoller } from "../graphql/log-tail";
+import { opensearchClient } from "../config/opensearch.config";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("LogTailPoller", () => {
+  const originalSearch = opensearchClient.search.bind(opensearchClient);
+
+  afterEach(() => {
+    opensearchClient.search = originalSearch;
+  });
+
+  it("yields new logs and searches from the lookback window before the newest one", async () => {
+    const requests: any[] = [];
+    const pages = [
+      [
+        { id: "log-1", sort: [1000, "log-1"] },
+        { id: "log-2", sort: [2000, "log-2"] },
+      ],
+      [{ id: "log-3", sort: [3000, "log-3"] }],
+    ];
+
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async ({ body }: { body: any }) => {
+      requests.push(body);
+      const page = pages.shift() ?? [];
+      return {
+        body: {
+          hits: {
+            hits: page.map(({ id, sort }) => ({
+              _id: id,
+              _source: createLogEntry({ id }),
+              sort,
+            })),
+          },
+        },
+      };
+    };
+
+    const poller = new LogTailPoller({
+      filters: { levels: ["error"] },
+      startFrom: new Date(500),
+      pollIntervalMs: 1,
+      lookbackMs: 1000,
+    });
+
+    const received: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = await poller.next();
+      received.push(value.id);
+    }
+    await poller.return();
+
+    expect(received).to.deep.equal(["log-1", "log-2", "log-3"]);
+    expect(requests).to.have.lengthOf(2);
+    expect(requests[0].search_after).to.deep.equal([500, ""]);
+    expect(requests[1].search_after).to.deep.equal([1000, ""]);
+    expect(JSON.stringify(requests[0].query)).to.include('"level":["error"]');
+  });
+
+  it("yields late logs inside the window once and pages past delivered ones", async () => {
+    const requests: any[] = [];
+    const pages = [
+      [
+        { id: "log-1", sort: [1000, "log-1"] },
+        { id: "log-2", sort: [2000, "log-2"] },
+      ],
+      // Next poll: only logs already delivered fill the first page
+      [
+        { id: "log-1", sort: [1000, "log-1"] },
+        { id: "log-2", sort: [2000, "log-2"] },
+      ],
+      [
+        { id: "log-3", sort: [2000, "log-3"] },
+        { id: "log-4", sort: [3000, "log-4"] },
+      ],
+      // log-late was indexed after log-4 with an older timestamp
+      [
+        { id: "log-late", sort: [2500, "log-late"] },
+        { id: "log-4", sort: [3000, "log-4"] },
+      ],
+    ];
+
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async ({ body }: { body: any }) => {
+      requests.push(body);
+      const page = pages.shift() ?? [];
+      return {
+        body: {
+          hits: {
+            hits: page.map(({ id, sort }) => ({
+              _id: id,
+              _source: createLogEntry({ id }),
+              sort,
+            })),
+          },
+        },
+      };
+    };
+
+    const poller = new LogTailPoller({
+      startFrom: new Date(0),
+      pollIntervalMs: 1,
+      batchSize: 2,
+      lookbackMs: 5000,
+    });
+
+    const received: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const { value } = await poller.next();
+      received.push(value.id);
+    }
+    await poller.return();
+
+    expect(received).to.deep.equal([
+      "log-1",
+      "log-2",
+      "log-3",
+      "log-4",
+      "log-late",
+    ]);
+    expect(requests.map((body) => body.search_after)).to.deep.equal([
+      [0, ""],
+      [0, ""],
+      [2000, "log-2"],
+      [0, ""],
+    ]);
+  });
+
+  it("completes once the subscriber unsubscribes", async () => {
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async () => ({ body: { hits: { hits: [] } } });
+
+    const poller = new LogTailPoller({ pollIntervalMs: 60_000 });
+    const pending = poller.next();
+    await new Promise((resolve) => setImmediate(resolve));
+    await poller.return();
+
+    const result = await pending;
+    expect(result.done).to.equal(true);
+  });
+});
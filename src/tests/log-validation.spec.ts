@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { once } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LogValidationTransform } from "../scripts/transforms/log-validation";
+import { PiiRedactionTransform } from "../scripts/transforms/pii-redaction";
+import { DeadLetterQueue } from "../scripts/utils/dead-letter-queue";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("LogValidationTransform", () => {
+  let dlqDir: string;
+
+  beforeEach(() => {
+    dlqDir = fs.mkdtempSync(path.join(os.tmpdir(), "dlq-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dlqDir, { recursive: true, force: true });
+  });
+
+  async function run(
+    mode: "strict" | "lenient" | "coerce",
+    documents: unknown[],
+    redaction?: PiiRedactionTransform
+  ) {
+    const deadLetterQueue = new DeadLetterQueue(dlqDir, "dlq.ndjson");
+    const transform = new LogValidationTransform({
+      mode,
+      deadLetterQueue,
+      redaction,
+    });
+    const passed: any[] = [];
+    transform.on("data", (log) => passed.push(log));
+
+    documents.forEach((doc) => transform.write(doc));
+    transform.end();
+    await once(transform, "end");
+
+    const file = deadLetterQueue.getFilePath();
+    const deadLetters = fs.existsSync(file)
+      ? fs
+          .readFileSync(file, "utf-8")
+          .trimEnd()
+          .split("\n")
+          .map((line) => JSON.parse(line))
+      : [];
+
+    return { passed, deadLetters, stats: transform.getStats() };
+  }
+
+  function missingTimestamp() {
+    const log: any = createLogEntry({ id: "no-timestamp" });
+    delete log.timestamp;
+    return log;
+  }
+
+  it("dead-letters every invalid document in strict mode", async () => {
+    const { passed, deadLetters, stats } = await run("strict", [
+      createLogEntry({ id: "ok" }),
+      createLogEntry({ id: "bad-level", level: "WARNING" as any }),
+      missingTimestamp(),
+    ]);
+
+    expect(passed.map((log) => log.id)).to.deep.equal(["ok"]);
+    expect(stats.invalid).to.equal(2);
+    expect(deadLetters).to.have.lengthOf(2);
+    expect(deadLetters[1].stage).to.equal("validation");
+    expect(deadLetters[1].document.id).to.equal("no-timestamp");
+    expect(deadLetters[1].errors[0]).to.include({ field: "timestamp" });
+  });
+
+  it("lets warnings through in lenient mode", async () => {
+    const { passed, stats } = await run("lenient", [
+      createLogEntry({ id: "bad-level", level: "WARNING" as any }),
+      missingTimestamp(),
+    ]);
+
+    expect(passed.map((log) => log.id)).to.deep.equal(["bad-level"]);
+    expect(stats.invalid).to.equal(1);
+  });
+
+  it("repairs what it can in coerce mode", async () => {
+    const { passed, stats } = await run("coerce", [
+      createLogEntry({
+        id: "fixable",
+        level: "WARNING" as any,
+        timestamp: "2024-03-01 10:00:00Z",
+      }),
+      missingTimestamp(),
+    ]);
+
+    expect(passed).to.have.lengthOf(1);
+    expect(passed[0].level).to.equal("warn");
+    expect(passed[0].timestamp).to.equal("2024-03-01T10:00:00.000Z");
+    expect(stats.coerced).to.equal(1);
+    expect(stats.invalid).to.equal(1);
+  });
+
+  it("redacts rejected documents before dead-lettering them", async () => {
+    const rejected: any = missingTimestamp();
+    rejected.message = "Payment by jane@example.com with 4111 1111 1111 1111";
+    rejected.request = { ...rejected.request, ip: "203.0.113.42" };
+
+    const { deadLetters } = await run(
+      "strict",
+      [rejected],
+      new PiiRedactionTransform({ salt: "test-salt" })
+    );
+
+    const record = JSON.stringify(deadLetters[0]);
+    expect(record).to.not.include("jane@example.com");
+    expect(record).to.not.include("4111 1111 1111 1111");
+    expect(record).to.not.include("203.0.113.42");
+    expect(deadLetters[0].document.message).to.equal(
+      "Payment by [email] with [creditCard]"
+    );
+    expect(deadLetters[0].document.request.ip).to.equal("203.0.113.0");
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import {
+  coerceLogEntry,
+  validateLogEntry,
+} from "../scripts/utils/log-validator";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("validateLogEntry", () => {
+  it("accepts a well-formed log entry", () => {
+    expect(validateLogEntry(createLogEntry())).to.deep.equal([]);
+  });
+
+  it("reports missing fields and invalid enum values", () => {
+    const log: any = createLogEntry({ level: "verbose" as any });
+    delete log.timestamp;
+    log.service.environment = "qa";
+
+    const fields = validateLogEntry(log).map((issue) => issue.field);
+
+    expect(fields).to.include.members([
+      "timestamp",
+      "level",
+      "service.environment",
+    ]);
+  });
+
+  it("checks nested optional objects only when present", () => {
+    const log = createLogEntry({
+      request: { id: "req-1", method: "GET" } as any,
+    });
+
+    const fields = validateLogEntry(log).map((issue) => issue.field);
+
+    expect(fields).to.include("request.path");
+    expect(fields).to.not.include("error.type");
+  });
+
+  it("flags invalid IPs and coordinates as errors, enum drift as warnings", () => {
+    const log = createLogEntry({
+      level: "verbose" as any,
+      request: {
+        id: "req-1",
+        method: "GET",
+        path: "/",
+        user_id: "user-1",
+        ip: "999.1.1.1",
+        user_agent: "curl/8.0",
+        duration_ms: 10,
+      },
+      geo: {
+        country: "US",
+        city: "Seattle",
+        location: { lat: 120, lon: 0 },
+      },
+    });
+
+    const severities = Object.fromEntries(
+      validateLogEntry(log).map((issue) => [issue.field, issue.severity])
+    );
+
+    expect(severities).to.deep.equal({
+      level: "warning",
+      "request.ip": "error",
+      "geo.location.lat": "error",
+    });
+  });
+});
+
+describe("coerceLogEntry", () => {
+  it("normalizes enums, timestamps and numeric strings", () => {
+    const log: any = createLogEntry({ level: "ERR" as any });
+    log.timestamp = 1709287200000;
+    log.service.environment = "prod";
+    log.metrics.response_time_ms = "250";
+
+    const { document, changed } = coerceLogEntry(log);
+
+    expect(changed).to.equal(true);
+    expect(validateLogEntry(document)).to.deep.equal([]);
+    expect(document).to.deep.include({
+      level: "error",
+      timestamp: "2024-03-01T10:00:00.000Z",
+    });
+    expect((document as any).metrics.response_time_ms).to.equal(250);
+    expect(log.level).to.equal("ERR");
+  });
+
+  it("leaves out-of-range coordinates for validation to report", () => {
+    const log: any = createLogEntry();
+    log.geo = {
+      country: "BR",
+      city: "Recife",
+      location: { lat: "-8.05", lon: "200" },
+    };
+
+    const document = coerceLogEntry(log).document as any;
+
+    expect(document.geo.location).to.deep.equal({ lat: -8.05, lon: 200 });
+    expect(
+      Object.fromEntries(
+        validateLogEntry(document).map((issue) => [issue.field, issue.severity])
+      )
+    ).to.deep.equal({ "geo.location.lon": "error" });
+  });
+
+  it("leaves missing or unknown categories for validation to report", () => {
+    const unknown: any = createLogEntry({ category: "billing" as any });
+    const missing: any = createLogEntry();
+    delete missing.category;
+    const cased: any = createLogEntry({ category: " Security " as any });
+
+    const coercedUnknown = coerceLogEntry(unknown).document as any;
+    const coercedMissing = coerceLogEntry(missing).document as any;
+
+    expect(coercedUnknown.category).to.equal("billing");
+    expect(
+      validateLogEntry(coercedUnknown).map(({ field }) => field)
+    ).to.include("category");
+    expect(coercedMissing).to.not.have.property("category");
+    expect(
+      validateLogEntry(coercedMissing).map(({ field }) => field)
+    ).to.include("category");
+    expect((coerceLogEntry(cased).document as any).category).to.equal(
+      "security"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { once } from "events";
+import { NdjsonParseTransform } from "../scripts/transforms/ndjson-parser";
+import { PiiRedactionTransform } from "../scripts/transforms/pii-redaction";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("NdjsonParseTransform", () => {
+  it("parses lines split across chunks and skips blank lines", async () => {
+    const parser = new NdjsonParseTransform();
+    const parsed: any[] = [];
+    parser.on("data", (log) => parsed.push(log));
+
+    const payload =
+      JSON.stringify(createLogEntry({ id: "log-1" })) +
+      "\n\n" +
+      JSON.stringify(createLogEntry({ id: "log-2" }));
+
+    parser.write(Buffer.from(payload.slice(0, 40)));
+    parser.write(Buffer.from(payload.slice(40)));
+    parser.end();
+    await once(parser, "end");
+
+    expect(parsed.map((log) => log.id)).to.deep.equal(["log-1", "log-2"]);
+    expect(parser.getAcceptedCount()).to.equal(2);
+    expect(parser.getRejectedCount()).to.equal(0);
+  });
+
+  it("rejects malformed JSON and invalid entries with line numbers", async () => {
+    const parser = new NdjsonParseTransform();
+    parser.resume();
+
+    const invalid: any = createLogEntry({ id: "log-2" });
+    delete invalid.timestamp;
+
+    parser.end(
+      [
+        JSON.stringify(createLogEntry({ id: "log-1" })),
+        "{not json",
+        JSON.stringify(invalid),
+      ].join("\n")
+    );
+    await once(parser, "end");
+
+    expect(parser.getAcceptedCount()).to.equal(1);
+    expect(parser.getRejectedCount()).to.equal(2);
+
+    const [jsonError, validationError] = parser.getRejectedSamples();
+    expect(jsonError.line).to.equal(2);
+    expect(jsonError.reason).to.match(/^Invalid JSON/);
+    expect(validationError.line).to.equal(3);
+    expect(validationError.reason).to.include("timestamp");
+  });
+
+  it("redacts rejected lines before logging them", async () => {
+    const logged: any[] = [];
+    const errorLogger: any = {
+      logSerializationError: (
+        _source: string,
+        message: string,
+        _error: Error,
+        details: any
+      ) => logged.push({ message, document: details.document }),
+    };
+    const parser = new NdjsonParseTransform({
+      errorLogger,
+      redaction: new PiiRedactionTransform({ salt: "test-salt" }),
+    });
+    parser.resume();
+
+    const invalid: any = createLogEntry({
+      id: "log-2",
+      message: "Login from jane@example.com",
+    });
+    delete invalid.timestamp;
+
+    parser.end(
+      ['{"message": "jane@example.com" 10.0.0.7', JSON.stringify(invalid)].join(
+        "\n"
+      )
+    );
+    await once(parser, "end");
+
+    expect(logged).to.have.lengthOf(2);
+    expect(JSON.stringify(logged)).to.not.include("jane@example.com");
+    expect(logged[0].document).to.equal('{"message": "[email]" [ipv4]');
+    expect(logged[1].document.message).to.equal("Login from [email]");
+  });
+});
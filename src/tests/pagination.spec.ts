@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { decodeCursor, encodeCursor } from "../graphql/pagination";
+import { logResolvers } from "../graphql/resolvers/log.resolvers";
+import { opensearchClient } from "../config/opensearch.config";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("log cursors", () => {
+  it("round-trips the point-in-time id and sort values", () => {
+    const cursor = {
+      pitId: "pit-abc==",
+      sort: [1709251200000, "7f0c1c7e-6c2a-4c43-9f77-3f2f5c9a1b20"],
+    };
+
+    const encoded = encodeCursor(cursor);
+
+    expect(encoded).to.not.include("pit-abc");
+    expect(decodeCursor(encoded)).to.deep.equal(cursor);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() => decodeCursor("not-a-cursor")).to.throw("Invalid cursor");
+    expect(() =>
+      decodeCursor(
+        Buffer.from(JSON.stringify({ pitId: "x" })).toString("base64url")
+      )
+    ).to.throw("Invalid cursor");
+  });
+});
+
+describe("logs cursor pagination", () => {
+  const originalSearch = opensearchClient.search.bind(opensearchClient);
+  const originalCreatePit = opensearchClient.createPit.bind(opensearchClient);
+  const originalDeletePit = opensearchClient.deletePit.bind(opensearchClient);
+
+  afterEach(() => {
+    opensearchClient.search = originalSearch;
+    opensearchClient.createPit = originalCreatePit;
+    opensearchClient.deletePit = originalDeletePit;
+  });
+
+  it("follows endCursor to the next page of the same point-in-time", async () => {
+    const logs = ["log-1", "log-2", "log-3"].map((id, i) => ({
+      _id: id,
+      _source: createLogEntry({ id }),
+      sort: [3000 - i * 1000, id],
+    }));
+    const requests: any[] = [];
+    let pitsCreated = 0;
+    const deleted: string[] = [];
+
+    // @ts-expect-error mocking createPit for tests
+    opensearchClient.createPit = async () => {
+      pitsCreated++;
+      return { body: { pit_id: "pit-1" } };
+    };
+    // @ts-expect-error mocking deletePit for tests
+    opensearchClient.deletePit = async ({ body }: { body: any }) => {
+      deleted.push(...body.pit_id);
+      return { body: {} };
+    };
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async ({ body }: { body: any }) => {
+      requests.push(body);
+      const start = body.search_after
+        ? logs.findIndex((log) => log._id === body.search_after[1]) + 1
+        : 0;
+      return {
+        body: {
+          pit_id: "pit-1",
+          hits: {
+            total: { value: logs.length, relation: "eq" },
+            hits: logs.slice(start, start + body.size),
+          },
+        },
+      };
+    };
+
+    const first = await logResolvers.Query.logs(null, { first: 2 });
+    expect(first.logs.map((log: any) => log.id)).to.deep.equal([
+      "log-1",
+      "log-2",
+    ]);
+    expect(first.total).to.equal(3);
+    expect(first.pageInfo).to.include({
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+    expect(deleted).to.deep.equal([]);
+
+    const second = await logResolvers.Query.logs(null, {
+      first: 2,
+      after: first.pageInfo.endCursor!,
+    });
+    expect(second.logs.map((log: any) => log.id)).to.deep.equal(["log-3"]);
+    expect(second.pageInfo).to.include({
+      hasNextPage: false,
+      hasPreviousPage: true,
+    });
+
+    expect(pitsCreated).to.equal(1);
+    expect(requests[1].pit.id).to.equal("pit-1");
+    expect(requests[1].search_after).to.deep.equal([2000, "log-2"]);
+    expect(deleted).to.deep.equal(["pit-1"]);
+  });
+
+  it("rejects a malformed cursor without querying OpenSearch", async () => {
+    let searched = false;
+    // @ts-expect-error mocking search for tests
+    opensearchClient.search = async () => {
+      searched = true;
+      return { body: { hits: { hits: [] } } };
+    };
+
+    try {
+      await logResolvers.Query.logs(null, { first: 2, after: "not-a-cursor" });
+      expect.fail("expected an error");
+    } catch (error) {
+      expect((error as Error).message).to.equal("Invalid cursor");
+    }
+    expect(searched).to.equal(false);
+  });
+});
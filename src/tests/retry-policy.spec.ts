@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import { RetryPolicy } from "../scripts/utils/retry-policy";
+
+describe("RetryPolicy", () => {
+  it("doubles the delay per attempt up to the maximum", () => {
+    const policy = new RetryPolicy({
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: 0,
+    });
+
+    expect(
+      [1, 2, 3, 4, 5].map((attempt) => policy.delayFor(attempt))
+    ).to.deep.equal([100, 200, 400, 800, 1000]);
+  });
+
+  it("randomizes only the jitter fraction of the delay", () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1000, jitter: 0.5 });
+
+    expect(policy.delayFor(1, () => 0)).to.equal(1000);
+    expect(policy.delayFor(1, () => 1)).to.equal(500);
+  });
+
+  it("stops retrying once the attempt budget is spent", () => {
+    const policy = new RetryPolicy({ maxAttempts: 3 });
+
+    expect(policy.canRetry(1)).to.equal(true);
+    expect(policy.canRetry(2)).to.equal(true);
+    expect(policy.canRetry(3)).to.equal(false);
+  });
+
+  it("classifies bulk item failures by status or error type", () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.isRetryableItem(429, "anything")).to.equal(true);
+    expect(
+      policy.isRetryableItem(undefined, "es_rejected_execution_exception")
+    ).to.equal(true);
+    expect(policy.isRetryableItem(400, "mapper_parsing_exception")).to.equal(
+      false
+    );
+  });
+
+  it("retries connection errors and throttled responses", () => {
+    const policy = new RetryPolicy({ retryableStatuses: [429] });
+
+    expect(
+      policy.isRetryableRequestError({ name: "ConnectionError" })
+    ).to.equal(true);
+    expect(
+      policy.isRetryableRequestError({
+        name: "ResponseError",
+        meta: { statusCode: 429 },
+      })
+    ).to.equal(true);
+    expect(
+      policy.isRetryableRequestError({
+        name: "ResponseError",
+        meta: { statusCode: 400 },
+      })
+    ).to.equal(false);
+  });
+});
@@ -0,0 +1,260 @@
+import { expect } from "chai";
+import { opensearchClient } from "../config/opensearch.config";
+import {
+  FIRST_ROLLOVER_INDEX,
+  LOGS_READ_ALIAS,
+  LOGS_WRITE_ALIAS,
+  ROLLOVER_ALIAS_SETTING,
+} from "../opensearch/index-resolver";
+import { LOG_ROLLOVER_INDEX_TEMPLATE } from "../opensearch/index-template";
+import {
+  bootstrapRolloverIndex,
+  findDailyIndices,
+  findWriteIndices,
+  migrateDailyIndex,
+} from "../opensearch/rollover";
+
+describe("rollover layout", () => {
+  const originalIndices = { ...opensearchClient.indices };
+  const originalCat = { ...opensearchClient.cat };
+  const originalTasks = { ...opensearchClient.tasks };
+  const originalReindex = opensearchClient.reindex;
+
+  afterEach(() => {
+    Object.assign(opensearchClient.indices, originalIndices);
+    Object.assign(opensearchClient.cat, originalCat);
+    Object.assign(opensearchClient.tasks, originalTasks);
+    opensearchClient.reindex = originalReindex;
+  });
+
+  function mockTemplate(): void {
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.putIndexTemplate = async () => ({ body: {} });
+  }
+
+  it("templates backing indices with the rollover alias and read alias", () => {
+    const { template } = LOG_ROLLOVER_INDEX_TEMPLATE;
+
+    expect(LOG_ROLLOVER_INDEX_TEMPLATE.index_patterns).to.deep.equal([
+      "logs-0*",
+    ]);
+    expect(template.settings[ROLLOVER_ALIAS_SETTING]).to.equal(
+      LOGS_WRITE_ALIAS
+    );
+    expect(template.aliases).to.deep.equal({ [LOGS_READ_ALIAS]: {} });
+  });
+
+  it("creates the first backing index behind the write alias", async () => {
+    const created: any[] = [];
+    mockTemplate();
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.existsAlias = async () => ({ body: false });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.create = async (params: any) => {
+      created.push(params);
+      return { body: {} };
+    };
+
+    const result = await bootstrapRolloverIndex();
+
+    expect(result).to.deep.equal({
+      index: FIRST_ROLLOVER_INDEX,
+      created: true,
+    });
+    expect(created).to.deep.equal([
+      {
+        index: FIRST_ROLLOVER_INDEX,
+        body: { aliases: { [LOGS_WRITE_ALIAS]: { is_write_index: true } } },
+      },
+    ]);
+  });
+
+  it("returns the current write index when already bootstrapped", async () => {
+    mockTemplate();
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.existsAlias = async () => ({ body: true });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getAlias = async () => ({
+      body: {
+        "logs-000001": {
+          aliases: {
+            [LOGS_WRITE_ALIAS]: { is_write_index: false },
+            [LOGS_READ_ALIAS]: {},
+          },
+        },
+        "logs-000002": {
+          aliases: {
+            [LOGS_WRITE_ALIAS]: { is_write_index: true },
+            [LOGS_READ_ALIAS]: {},
+          },
+        },
+      },
+    });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.create = async () => {
+      throw new Error("should not create an index");
+    };
+
+    expect(await bootstrapRolloverIndex()).to.deep.equal({
+      index: "logs-000002",
+      created: false,
+    });
+  });
+
+  it("finds the write indices among the indices matching a pattern", async () => {
+    const requests: any[] = [];
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getAlias = async (params: any) => {
+      requests.push(params);
+      return {
+        body: {
+          "logs-000002": {
+            aliases: {
+              [LOGS_WRITE_ALIAS]: { is_write_index: true },
+              [LOGS_READ_ALIAS]: {},
+            },
+          },
+          "logs-000001": {
+            aliases: {
+              [LOGS_WRITE_ALIAS]: { is_write_index: false },
+              [LOGS_READ_ALIAS]: {},
+            },
+          },
+          "logs-2024-03-01": { aliases: {} },
+        },
+      };
+    };
+
+    expect(await findWriteIndices("logs-*")).to.deep.equal(["logs-000002"]);
+    expect(requests).to.deep.equal([{ index: "logs-*" }]);
+  });
+
+  it("finds no write indices when nothing matches the pattern", async () => {
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getAlias = async () => {
+      throw Object.assign(new Error("index_not_found_exception"), {
+        meta: { statusCode: 404 },
+      });
+    };
+
+    expect(await findWriteIndices("logs-*")).to.deep.equal([]);
+  });
+
+  it("lists only date-named daily indices, oldest first", async () => {
+    // @ts-expect-error mocking cat for tests
+    opensearchClient.cat.indices = async () => ({
+      body: [
+        { index: "logs-2024-03-02", "docs.count": "20", "store.size": "2kb" },
+        { index: "logs-000001", "docs.count": "5" },
+        { index: "logs-stream-2024-03-01", "docs.count": "7" },
+        { index: "logs-2024-03-01", "docs.count": "10", "store.size": "1kb" },
+      ],
+    });
+
+    expect(await findDailyIndices()).to.deep.equal([
+      { index: "logs-2024-03-01", docs: 10, size: "1kb" },
+      { index: "logs-2024-03-02", docs: 20, size: "2kb" },
+    ]);
+  });
+
+  it("reindexes into the write alias and deletes a fully copied source", async () => {
+    const reindexed: any[] = [];
+    const deleted: string[] = [];
+    const progress: number[] = [];
+    let polls = 0;
+    // @ts-expect-error mocking reindex for tests
+    opensearchClient.reindex = async (params: any) => {
+      reindexed.push(params);
+      return { body: { task: "node:42" } };
+    };
+    // @ts-expect-error mocking tasks for tests
+    opensearchClient.tasks.get = async () => {
+      polls++;
+      return polls === 1
+        ? {
+            body: {
+              completed: false,
+              task: { status: { total: 10, created: 4 } },
+            },
+          }
+        : {
+            body: {
+              completed: true,
+              task: { status: { total: 10, created: 8, version_conflicts: 2 } },
+              response: { created: 8, version_conflicts: 2, failures: [] },
+            },
+          };
+    };
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.delete = async ({ index }: any) => {
+      deleted.push(index);
+      return { body: {} };
+    };
+
+    const result = await migrateDailyIndex(
+      { index: "logs-2024-03-01", docs: 10, size: "1kb" },
+      {
+        mode: "reindex",
+        deleteSource: true,
+        pollIntervalMs: 1,
+        onProgress: ({ created }) => progress.push(created),
+      }
+    );
+
+    expect(reindexed[0].wait_for_completion).to.equal(false);
+    expect(reindexed[0].body).to.deep.equal({
+      conflicts: "proceed",
+      source: { index: "logs-2024-03-01" },
+      dest: { index: LOGS_WRITE_ALIAS, op_type: "create" },
+    });
+    expect(progress).to.deep.equal([4, 8]);
+    expect(result).to.include({ created: 8, conflicts: 2, deleted: true });
+    expect(deleted).to.deep.equal(["logs-2024-03-01"]);
+  });
+
+  it("keeps the source when documents are missing from the copy", async () => {
+    // @ts-expect-error mocking reindex for tests
+    opensearchClient.reindex = async () => ({ body: { task: "node:43" } });
+    // @ts-expect-error mocking tasks for tests
+    opensearchClient.tasks.get = async () => ({
+      body: {
+        completed: true,
+        response: {
+          created: 9,
+          failures: [{ id: "log-1", cause: { reason: "mapper_parsing" } }],
+        },
+      },
+    });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.delete = async () => {
+      throw new Error("should not delete the source");
+    };
+
+    const result = await migrateDailyIndex(
+      { index: "logs-2024-03-01", docs: 10, size: "1kb" },
+      { mode: "reindex", deleteSource: true, pollIntervalMs: 1 }
+    );
+
+    expect(result.deleted).to.equal(false);
+    expect(result.failures).to.deep.equal(["log-1: mapper_parsing"]);
+  });
+
+  it("only adds the daily index to the read alias in alias mode", async () => {
+    const actions: any[] = [];
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.updateAliases = async ({ body }: any) => {
+      actions.push(...body.actions);
+      return { body: {} };
+    };
+
+    const result = await migrateDailyIndex(
+      { index: "logs-2024-03-01", docs: 10, size: "1kb" },
+      { mode: "alias", deleteSource: true, pollIntervalMs: 1 }
+    );
+
+    expect(actions).to.deep.equal([
+      { add: { index: "logs-2024-03-01", alias: LOGS_READ_ALIAS } },
+    ]);
+    expect(result.deleted).to.equal(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { opensearchClient } from "../config/opensearch.config";
+import {
+  createSnapshot,
+  DEFAULT_SNAPSHOT_LOCATION,
+  getSnapshotRepository,
+  listSnapshots,
+  registerSnapshotRepository,
+  restoreSnapshot,
+  snapshotName,
+} from "../opensearch/snapshots";
+
+describe("log snapshots", () => {
+  const originalSnapshot = { ...opensearchClient.snapshot };
+  const repository = { name: "test-repo", location: "/tmp/snapshots" };
+
+  afterEach(() => {
+    Object.assign(opensearchClient.snapshot, originalSnapshot);
+  });
+
+  it("reads the repository from the environment with defaults", () => {
+    expect(getSnapshotRepository({})).to.deep.equal({
+      name: "logs-backups",
+      location: DEFAULT_SNAPSHOT_LOCATION,
+    });
+    expect(
+      getSnapshotRepository({
+        SNAPSHOT_REPOSITORY: "nightly",
+        SNAPSHOT_LOCATION: "/mnt/backups",
+      })
+    ).to.deep.equal({ name: "nightly", location: "/mnt/backups" });
+  });
+
+  it("names snapshots with a sortable lowercase timestamp", () => {
+    expect(snapshotName(new Date("2024-03-01T12:05:09.000Z"))).to.equal(
+      "logs-2024.03.01-120509"
+    );
+    expect(
+      snapshotName(new Date("2024-03-01T12:05:09.000Z"), "Cleanup")
+    ).to.equal("cleanup-2024.03.01-120509");
+  });
+
+  it("registers a filesystem repository", async () => {
+    let request: any;
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.createRepository = async (params: any) => {
+      request = params;
+      return { body: { acknowledged: true } };
+    };
+
+    await registerSnapshotRepository(repository);
+
+    expect(request).to.deep.equal({
+      repository: "test-repo",
+      body: {
+        type: "fs",
+        settings: { location: "/tmp/snapshots", compress: "true" },
+      },
+    });
+  });
+
+  it("snapshots the selected indices without cluster state", async () => {
+    let request: any;
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.create = async (params: any) => {
+      request = params;
+      return {
+        body: {
+          snapshot: {
+            snapshot: params.snapshot,
+            state: "SUCCESS",
+            indices: ["logs-2024-03-02", "logs-2024-03-01"],
+            duration_in_millis: 1200,
+            shards: { total: 2, successful: 2, failed: 0 },
+          },
+        },
+      };
+    };
+
+    const snapshot = await createSnapshot(
+      ["logs-2024-03-*"],
+      { now: new Date("2024-03-03T00:00:00.000Z") },
+      repository
+    );
+
+    expect(request).to.deep.equal({
+      repository: "test-repo",
+      snapshot: "logs-2024.03.03-000000",
+      wait_for_completion: true,
+      body: {
+        indices: "logs-2024-03-*",
+        ignore_unavailable: true,
+        include_global_state: false,
+      },
+    });
+    expect(snapshot).to.deep.include({
+      name: "logs-2024.03.03-000000",
+      state: "success",
+      indices: ["logs-2024-03-01", "logs-2024-03-02"],
+      durationMs: 1200,
+    });
+  });
+
+  it("fails on a partial snapshot", async () => {
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.create = async () => ({
+      body: {
+        snapshot: {
+          snapshot: "before-cleanup",
+          state: "PARTIAL",
+          failures: [
+            { index: "logs-2024-03-01", shard_id: 0, reason: "disk full" },
+          ],
+        },
+      },
+    });
+
+    try {
+      await createSnapshot(["logs-*"], { name: "before-cleanup" }, repository);
+      expect.fail("expected an error");
+    } catch (error) {
+      expect((error as Error).message).to.equal(
+        "Snapshot before-cleanup finished partial: logs-2024-03-01[0]: disk full"
+      );
+    }
+  });
+
+  it("lists snapshots oldest first and none for a missing repository", async () => {
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.get = async () => ({
+      body: {
+        snapshots: [
+          {
+            snapshot: "logs-2024.03.02-000000",
+            state: "SUCCESS",
+            start_time_in_millis: Date.UTC(2024, 2, 2),
+          },
+          {
+            snapshot: "logs-2024.03.01-000000",
+            state: "SUCCESS",
+            start_time_in_millis: Date.UTC(2024, 2, 1),
+          },
+        ],
+      },
+    });
+
+    const snapshots = await listSnapshots(repository);
+    expect(snapshots.map(({ name }) => name)).to.deep.equal([
+      "logs-2024.03.01-000000",
+      "logs-2024.03.02-000000",
+    ]);
+
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.get = async () => {
+      throw Object.assign(new Error("repository_missing_exception"), {
+        meta: { statusCode: 404 },
+      });
+    };
+    expect(await listSnapshots(repository)).to.deep.equal([]);
+  });
+
+  it("restores renamed copies without their aliases", async () => {
+    const requests: any[] = [];
+    // @ts-expect-error mocking snapshot for tests
+    opensearchClient.snapshot.restore = async (params: any) => {
+      requests.push(params);
+      return {
+        body: {
+          snapshot: {
+            snapshot: params.snapshot,
+            indices: ["restored-logs-2024-03-01"],
+            shards: { total: 1, successful: 1, failed: 0 },
+          },
+        },
+      };
+    };
+
+    const result = await restoreSnapshot(
+      "logs-2024.03.03-000000",
+      { indices: ["logs-2024-03-01"], renamePrefix: "restored-" },
+      repository
+    );
+    await restoreSnapshot("logs-2024.03.03-000000", {}, repository);
+
+    expect(requests[0].body).to.deep.equal({
+      indices: "logs-2024-03-01",
+      include_global_state: false,
+      include_aliases: false,
+      rename_pattern: "(.+)",
+      rename_replacement: "restored-$1",
+    });
+    expect(requests[1].body).to.deep.equal({
+      include_global_state: false,
+      include_aliases: true,
+    });
+    expect(result).to.deep.equal({
+      snapshot: "logs-2024.03.03-000000",
+      indices: ["restored-logs-2024-03-01"],
+      shards: { total: 1, successful: 1, failed: 0 },
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { expect } from "chai";
+import { opensearchClient } from "../config/opensearch.config";
+import {
+  LOG_INDEX_TEMPLATE,
+  LOG_TEMPLATE_VERSION,
+} from "../opensearch/index-template";
+import {
+  buildMigrationScript,
+  diffMappings,
+  getMigrationStatus,
+  getTemplateVersion,
+  IndexMigrationPlan,
+  LOG_TEMPLATE_MIGRATIONS,
+  migrateIndex,
+  migrationTargetName,
+  planIndexMigration,
+} from "../opensearch/template-migrations";
+
+describe("template migrations", () => {
+  const originalIndices = { ...opensearchClient.indices };
+  const originalTasks = { ...opensearchClient.tasks };
+  const originalReindex = opensearchClient.reindex;
+  const originalCount = opensearchClient.count;
+
+  afterEach(() => {
+    Object.assign(opensearchClient.indices, originalIndices);
+    Object.assign(opensearchClient.tasks, originalTasks);
+    opensearchClient.reindex = originalReindex;
+    opensearchClient.count = originalCount;
+  });
+
+  it("keeps the migration list in sync with the template version", () => {
+    const versions = LOG_TEMPLATE_MIGRATIONS.map(({ version }) => version);
+
+    expect(versions[versions.length - 1]).to.equal(LOG_TEMPLATE_VERSION);
+    expect(versions).to.deep.equal(versions.map((_, i) => i + 1));
+    expect(LOG_INDEX_TEMPLATE.version).to.equal(LOG_TEMPLATE_VERSION);
+    expect(
+      getTemplateVersion(LOG_INDEX_TEMPLATE.template.mappings as any)
+    ).to.equal(LOG_TEMPLATE_VERSION);
+  });
+
+  it("diffs mappings field by field, including nested objects", () => {
+    const changes = diffMappings(
+      {
+        level: { type: "keyword" },
+        message: { type: "text" },
+        request: { properties: { ip: { type: "keyword" } } },
+        legacy: { type: "keyword" },
+      },
+      {
+        level: { type: "keyword" },
+        message: { type: "text", analyzer: "log_analyzer" },
+        request: {
+          properties: { ip: { type: "ip" }, method: { type: "keyword" } },
+        },
+      }
+    );
+
+    expect(changes).to.deep.equal([
+      { path: "legacy", change: "removed", from: "keyword" },
+      {
+        path: "message",
+        change: "changed",
+        from: "text",
+        to: 'text {"analyzer":"log_analyzer"}',
+      },
+      { path: "request.ip", change: "changed", from: "keyword", to: "ip" },
+      { path: "request.method", change: "added", to: "keyword" },
+    ]);
+  });
+
+  it("treats indices without _meta as version 1", () => {
+    expect(getTemplateVersion(undefined)).to.equal(1);
+    expect(getTemplateVersion({})).to.equal(1);
+    expect(getTemplateVersion({ _meta: { template_version: 3 } })).to.equal(3);
+    expect(getTemplateVersion({ _meta: { template_version: "x" } })).to.equal(
+      1
+    );
+  });
+
+  it("appends the custom script after the built-in ones", () => {
+    expect(buildMigrationScript(LOG_TEMPLATE_VERSION)).to.equal(undefined);
+    expect(buildMigrationScript(1, "  ")).to.equal(undefined);
+    expect(
+      buildMigrationScript(LOG_TEMPLATE_VERSION, "ctx._source.a = 1;")
+    ).to.equal("ctx._source.a = 1;");
+  });
+
+  it("names targets with a version suffix, replacing an existing one", () => {
+    expect(migrationTargetName("logs-2024-03-01", 2)).to.equal(
+      "logs-2024-03-01-v2"
+    );
+    expect(migrationTargetName("logs-2024-03-01-v2", 3)).to.equal(
+      "logs-2024-03-01-v3"
+    );
+  });
+
+  it("reads version, aliases and drift of each index", async () => {
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getMapping = async () => ({
+      body: {
+        "logs-2024-03-02": {
+          mappings: LOG_INDEX_TEMPLATE.template.mappings,
+        },
+        "logs-2024-03-01": {
+          mappings: { properties: { level: { type: "keyword" } } },
+        },
+      },
+    });
+    // @ts-expect-error mocking indices for tests
+    opensearchClient.indices.getAlias = async () => ({
+      body: {
+        "logs-2024-03-02": { aliases: {} },
+        "logs-2024-03-01": {
+          aliases: { "logs-read": {}, "logs-write": { is_write_index: true } },
+        },
+      },
+    });
+
+    const [old, current] = await getMigrationStatus("logs-*");
+
+    expect(old).to.deep.include({
+      index: "logs-2024-03-01",
+      version: 1,
+      outdated: true,
+      aliases: ["logs-read", "logs-write"],
+      writeIndex: true,
+    });
+    expect(old.changes.length).to.be.greaterThan(0);
+    expect(current).to.deep.include({
+      index: "logs-2024-03-02",
+      version: LOG_TEMPLATE_VERSION,
+      outdated: false,
+      changes: [],
+    });
+  });
+
+  it("refuses to plan a write index and keeps the source name as an alias", () => {
+    const status = {
+      index: "logs-2024-03-01",
+      version: 1,
+      outdated: true,
+      changes: [],
+      aliases: ["logs-read"],
+      writeIndex: false,
+    };
+
+    expect(() => planIndexMigration({ ...status, writeIndex: true })).to.throw(
+      "write index"
+    );
+    expect(planIndexMigration(status, "ctx._source.a = 1;")).to.deep.equal({
+      source: "logs-2024-03-01",
+      target: `logs-2024-03-01-v${LOG_TEMPLATE_VERSION}`,
+      fromVersion: 1,
+      toVersion: LOG_TEMPLATE_VERSION,
+      changes: [],
+      script: "ctx._source.a = 1;",
+      aliases: ["logs-2024-03-01", "logs-read"],
+    });
+    expect(
+      planIndexMigration({ ...status, index: "logs-2024-03-01-v1" }).aliases
+    ).to.deep.equal(["logs-read"]);
+  });
+
+  it("refuses rollover backing indices, whose copies match logs-0*", () => {
+    expect(() =>
+      planIndexMigration({
+        index: "logs-000001",
+        version: 1,
+        outdated: true,
+        changes: [],
+        aliases: ["logs-read", "logs-write"],
+        writeIndex: false,
+      })
+    ).to.throw("rollover backing index");
+  });
+
+  describe("migrateIndex", () => {
+    const plan: IndexMigrationPlan = {
+      source: "logs-2024-03-01",
+      target: "logs-2024-03-01-v2",
+      fromVersion: 1,
+      toVersion: 2,
+      changes: [],
+      script: "ctx._source.a = 1;",
+      aliases: ["logs-2024-03-01", "logs-read"],
+    };
+    let calls: string[];
+    let reindexBody: any;
+    let aliasActions: any[];
+    let counts: Record<string, number>;
+
+    beforeEach(() => {
+      calls = [];
+      reindexBody = undefined;
+      aliasActions = [];
+      counts = { "logs-2024-03-01": 10, "logs-2024-03-01-v2": 10 };
+
+      // @ts-expect-error mocking indices for tests
+      opensearchClient.indices.putSettings = async ({ index, body }: any) => {
+        calls.push(`block ${index} ${body["index.blocks.write"]}`);
+        return { body: { acknowledged: true } };
+      };
+      // @ts-expect-error mocking indices for tests
+      opensearchClient.indices.exists = async () => ({ body: false });
+      // @ts-expect-error mocking indices for tests
+      opensearchClient.indices.create = async ({ index }: any) => {
+        calls.push(`create ${index}`);
+        return { body: { acknowledged: true } };
+      };
+      // @ts-expect-error mocking indices for tests
+      opensearchClient.indices.refresh = async () => ({ body: {} });
+      // @ts-expect-error mocking indices for tests
+      opensearchClient.indices.updateAliases = async ({ body }: any) => {
+        aliasActions = body.actions;
+        return { body: { acknowledged: true } };
+      };
+      // @ts-expect-error mocking reindex for tests
+      opensearchClient.reindex = async ({ body }: any) => {
+        reindexBody = body;
+        return { body: { task: "node:1" } };
+      };
+      // @ts-expect-error mocking tasks for tests
+      opensearchClient.tasks.get = async () => ({
+        body: {
+          completed: true,
+          task: { status: { total: 10, created: 10 } },
+          response: { created: 10, version_conflicts: 0, failures: [] },
+        },
+      });
+      // @ts-expect-error mocking count for tests
+      opensearchClient.count = async ({ index }: any) => ({
+        body: { count: counts[index] },
+      });
+    });
+
+    it("blocks writes, reindexes with the script and swaps aliases", async () => {
+      const result = await migrateIndex(plan, { pollIntervalMs: 1 });
+
+      expect(calls).to.deep.equal([
+        "block logs-2024-03-01 true",
+        "create logs-2024-03-01-v2",
+      ]);
+      expect(reindexBody).to.deep.equal({
+        conflicts: "proceed",
+        source: { index: "logs-2024-03-01" },
+        dest: { index: "logs-2024-03-01-v2", op_type: "create" },
+        script: { lang: "painless", source: "ctx._source.a = 1;" },
+      });
+      expect(aliasActions).to.deep.equal([
+        { add: { index: "logs-2024-03-01-v2", alias: "logs-2024-03-01" } },
+        { add: { index: "logs-2024-03-01-v2", alias: "logs-read" } },
+        { remove_index: { index: "logs-2024-03-01" } },
+      ]);
+      expect(result).to.deep.include({
+        sourceDocs: 10,
+        targetDocs: 10,
+        created: 10,
+        noops: 0,
+      });
+    });
+
+    it("lifts the write block and keeps the source when counts differ", async () => {
+      counts["logs-2024-03-01-v2"] = 7;
+
+      try {
+        await migrateIndex(plan, { pollIntervalMs: 1 });
+        expect.fail("expected an error");
+      } catch (error) {
+        expect((error as Error).message).to.contain("only 7 of 10");
+      }
+      expect(calls[calls.length - 1]).to.equal("block logs-2024-03-01 false");
+      expect(aliasActions).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { buildQuery } from "../graphql/query-builder";
+import { UserAgentEnrichmentTransform } from "../scripts/transforms/user-agent-enrichment";
+import { parseUserAgent } from "../scripts/utils/user-agent";
+import { createLogEntry } from "./helpers/log-fixtures";
+
+describe("parseUserAgent", () => {
+  it("recognises common browsers, operating systems and devices", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51"
+      )
+    ).to.deep.equal({
+      browser: "Edge",
+      browser_version: "124.0.2478.51",
+      os: "Windows",
+      device_type: "desktop",
+      is_bot: false,
+    });
+
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17_4 Mobile/15E148 Safari/604.1"
+      )
+    ).to.include({
+      browser: "Safari",
+      browser_version: "17.4",
+      os: "iOS",
+      device_type: "mobile",
+    });
+
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36"
+      )
+    ).to.include({ browser: "Chrome", os: "Android", device_type: "tablet" });
+
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 14.4; rv:125.0) Gecko/20100101 Firefox/125.0"
+      )
+    ).to.include({ browser: "Firefox", os: "macOS", device_type: "desktop" });
+
+    expect(
+      parseUserAgent("Mozilla/5.0 (compatible; MSIE 9.0; Windows NT 6.2)")
+    ).to.include({ browser: "Internet Explorer", browser_version: "9.0" });
+  });
+
+  it("flags crawlers and HTTP clients as bots", () => {
+    expect(
+      parseUserAgent("Googlebot/2.1 (+http://www.google.com/bot.html)")
+    ).to.deep.equal({
+      browser: "Googlebot",
+      browser_version: "2.1",
+      os: "Other",
+      device_type: "bot",
+      is_bot: true,
+    });
+    expect(parseUserAgent("curl/8.4.0")).to.include({
+      browser: "curl",
+      is_bot: true,
+    });
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)"
+      )
+    ).to.include({ browser: "bingbot", device_type: "bot" });
+  });
+
+  it("reports missing and unrecognised user agents", () => {
+    expect(parseUserAgent("")).to.include({
+      browser: "unknown",
+      device_type: "unknown",
+    });
+    expect(parseUserAgent("SomeInternalClient")).to.include({
+      browser: "Other",
+      os: "Other",
+      is_bot: false,
+    });
+  });
+});
+
+describe("UserAgentEnrichmentTransform", () => {
+  it("adds request.ua and reuses parsed results", () => {
+    const userAgents = new UserAgentEnrichmentTransform();
+    const request = {
+      id: "req-1",
+      method: "GET",
+      path: "/",
+      user_id: "user-1",
+      ip: "203.0.113.1",
+      user_agent: "Googlebot/2.1 (+http://www.google.com/bot.html)",
+      duration_ms: 10,
+    };
+
+    const first = userAgents.enrich(createLogEntry({ request }));
+    const second = userAgents.enrich(
+      createLogEntry({ request: { ...request } })
+    );
+    const withoutRequest = userAgents.enrich(createLogEntry());
+
+    expect(first.request?.ua?.browser).to.equal("Googlebot");
+    expect(second.request?.ua).to.deep.equal(first.request?.ua);
+    expect(second.request?.ua).to.not.equal(first.request?.ua);
+    expect(withoutRequest.request).to.equal(undefined);
+    expect(userAgents.getStats()).to.deep.equal({
+      parsed: 2,
+      bots: 2,
+      cacheHits: 1,
+    });
+  });
+});
+
+describe("buildQuery user agent filters", () => {
+  it("filters on the parsed request.ua fields", () => {
+    const query = buildQuery({
+      browsers: ["Chrome"],
+      operatingSystems: ["Android", "iOS"],
+      deviceTypes: ["mobile"],
+      isBot: false,
+    });
+
+    expect(query.bool.filter).to.deep.equal([
+      { terms: { "request.ua.browser": ["Chrome"] } },
+      { terms: { "request.ua.os": ["Android", "iOS"] } },
+      { terms: { "request.ua.device_type": ["mobile"] } },
+      { term: { "request.ua.is_bot": false } },
+    ]);
+  });
+});
@@ -1,3 +1,11 @@
+export interface UserAgentInfo {
+  browser: string;
+  browser_version: string;
+  os: string;
+  device_type: string;
+  is_bot: boolean;
+}
+
 export interface LogEntry {
   id: string;
   timestamp: string;
@@ -25,6 +33,8 @@ export interface LogEntry {
     user_id: string;
     ip: string;
     user_agent: string;
+    // Parsed from user_agent at ingestion
+    ua?: UserAgentInfo;
     duration_ms: number;
   };
   business?: {